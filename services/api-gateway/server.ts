@@ -128,45 +128,49 @@ app.use((req: any, res: Response, next) => {
 const AUTH_SERVICE_URL = process.env.AUTH_SERVICE_URL || 'http://localhost:3001';
 const SERPAPI_SERVICE_URL = process.env.SERPAPI_SERVICE_URL || 'http://localhost:3003';
 
-/* -----------------------------------------
-   AUTH PROXY (no body rewriting needed)
--------------------------------------------- */
-app.use(
-  '/api/auth',
+interface Service {
+  name: string; // used in logs and 503 responses
+  url: string;
+}
+
+const authService: Service = { name: 'Auth', url: AUTH_SERVICE_URL };
+const serpApiService: Service = { name: 'SerpAPI', url: SERPAPI_SERVICE_URL };
+
+/**
+ * Proxy a route prefix to a service
+ * Forwards the body the gateway already parsed, logs each request and response,
+ * and answers 503 when the service can't be reached.
+ * @param service - Service to forward to
+ * @param label - Route group shown in logs (e.g. "compsets")
+ * @param pathRewrite - Optional path rewrite (e.g. { '^/api/auth': '/auth' })
+ */
+const proxyTo = (service: Service, label: string, pathRewrite?: Record<string, string>) =>
   createProxyMiddleware({
-    target: AUTH_SERVICE_URL,
+    target: service.url,
     changeOrigin: true,
-    pathRewrite: { '^/api/auth': '/auth' },
+    pathRewrite,
     logLevel: 'debug',
-    onProxyReq: (proxyReq, req, res) => {
-      console.log(`[PROXY] Forwarding ${req.method} to Auth: ${proxyReq.path}`);
+    onProxyReq: (proxyReq, req) => {
+      console.log(`[PROXY] Forwarding ${req.method} to ${service.name} (${label}): ${proxyReq.path}`);
       forwardProxyBody(proxyReq, req);
     },
-    onError: (err, req, res) => {
-      console.error('[PROXY ERROR] Auth:', err.message);
+    onProxyRes: (proxyRes) => {
+      console.log(`[PROXY] ${service.name} (${label}) responded: ${proxyRes.statusCode}`);
+    },
+    onError: (err, _req: Request, res: Response) => {
+      console.error(`[PROXY ERROR] ${service.name} (${label}):`, err.message);
       if (!res.headersSent) {
-        res.status(503).json({ error: 'Auth service unavailable', details: err.message });
+        res.status(503).json({ error: `${service.name} service unavailable`, details: err.message });
       }
     },
-  })
-);
+  });
 
 /* -----------------------------------------
-   USER ROUTES (Forwarded to Auth service)
+   AUTH SERVICE ROUTES
 -------------------------------------------- */
-app.use(
-  '/api/users',
-  createProxyMiddleware({
-    target: AUTH_SERVICE_URL,
-    changeOrigin: true,
-    pathRewrite: { '^/api/users': '/users' },
-    logLevel: 'debug',
-    onProxyReq: (proxyReq, req) => {
-      console.log(`[PROXY] Forwarding ${req.method} to Auth Users: ${proxyReq.path}`);
-      forwardProxyBody(proxyReq, req);
-    },
-  })
-);
+app.use('/api/auth', proxyTo(authService, 'auth', { '^/api/auth': '/auth' }));
+app.use('/api/users', proxyTo(authService, 'users', { '^/api/users': '/users' }));
+app.use('/api/orgs', proxyTo(authService, 'orgs', { '^/api/orgs': '/orgs' }));
 
 /* -----------------------------------------
    SERPAPI PROXY — RAW BODY FORWARDING (IMPORTANT)
@@ -235,28 +239,20 @@ app.use(
 );
 
 /* -----------------------------------------
-   CALENDAR DATA PROXY (Forwarded to SerpAPI service)
+   SERPAPI SERVICE ROUTES
 -------------------------------------------- */
-app.use(
-  '/api/calendarData',
-  createProxyMiddleware({
-    target: SERPAPI_SERVICE_URL,
-    changeOrigin: true,
-    logLevel: 'debug',
-    onProxyReq: (proxyReq, req) => {
-      console.log(`[PROXY] Forwarding ${req.method} to SerpAPI (calendarData): ${proxyReq.path}`);
-    },
-    onProxyRes: (proxyRes) => {
-      console.log(`[PROXY] SerpAPI (calendarData) responded: ${proxyRes.statusCode}`);
-    },
-    onError: (err, _req: Request, res: Response) => {
-      console.error('[PROXY ERROR] SerpAPI (calendarData):', err.message);
-      if (!res.headersSent) {
-        res.status(503).json({ error: 'SerpAPI service unavailable', details: err.message });
-      }
-    },
-  })
-);
+app.use('/api/calendarData', proxyTo(serpApiService, 'calendarData'));
+app.use('/api/compsets', proxyTo(serpApiService, 'compsets'));
+app.use('/api/rates', proxyTo(serpApiService, 'rates'));
+app.use('/api/channels', proxyTo(serpApiService, 'channels'));
+app.use('/api/parity', proxyTo(serpApiService, 'parity'));
+app.use('/api/alerts', proxyTo(serpApiService, 'alerts'));
+app.use('/api/usage', proxyTo(serpApiService, 'usage'));
+app.use('/api/properties', proxyTo(serpApiService, 'properties'));
+app.use('/api/fx', proxyTo(serpApiService, 'fx'));
+app.use('/api/analytics', proxyTo(serpApiService, 'analytics'));
+app.use('/api/pricing', proxyTo(serpApiService, 'pricing'));
+app.use('/api/events', proxyTo(serpApiService, 'events'));
 
 /* -----------------------------------------
    HEALTH & ROOT
@@ -278,8 +274,20 @@ app.get('/', (req, res) => {
     endpoints: {
       auth: '/api/auth',
       users: '/api/users',
+      orgs: '/api/orgs',
       serpapi: '/api/serpapi',
       calendarData: '/api/calendarData',
+      compsets: '/api/compsets',
+      rates: '/api/rates',
+      channels: '/api/channels',
+      parity: '/api/parity',
+      alerts: '/api/alerts',
+      usage: '/api/usage',
+      properties: '/api/properties',
+      fx: '/api/fx',
+      analytics: '/api/analytics',
+      pricing: '/api/pricing',
+      events: '/api/events',
       health: '/health',
     },
   });
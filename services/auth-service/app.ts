@@ -0,0 +1,350 @@
+import express, { Request, Response } from 'express';
+import cors from 'cors';
+import User from './models/User';
+import organizationRoutes from './routes/organizations';
+import sessionRoutes from './routes/sessions';
+import passwordRoutes from './routes/password';
+import { ensurePersonalOrganization } from './utils/organizations';
+import { createSession, rotateSession, endSession, revokeSessions } from './utils/sessions';
+import { 
+  generateAccessToken, 
+  verifyAccessToken,
+  validateRegister,
+  validateLogin,
+  validateRefreshToken,
+  validateUpdateUser,
+  validateDeactivateUser,
+  authenticateToken,
+  authorizeOwner,
+  revokeAccessTokens,
+  RegisterRequestBody,
+  LoginRequestBody,
+  RefreshTokenRequestBody,
+  UpdateUserRequestBody,
+  DeactivateUserRequestBody,
+  TokenPayload,
+  AuthenticatedRequest
+} from '../../shared';
+
+// Routes of the auth service (server.ts connects to MongoDB and starts listening)
+const app = express();
+
+// Middleware
+app.use(cors());
+app.use(express.json());
+
+/**
+ * Register endpoint
+ * POST /auth/register
+ */
+app.post('/auth/register', validateRegister, async (req: Request<{}, {}, RegisterRequestBody>, res: Response) => {
+  try {
+    const {
+      name,
+      businessEmail,
+      country,
+      hotelName,
+      phoneNumber,
+      currentPMS,
+      businessType,
+      numberOfRooms,
+      password,
+    } = req.body;
+
+    // Check if user already exists
+    const existingUser = await User.findOne({ businessEmail });
+    if (existingUser) {
+      return res.status(409).json({ error: 'User with this business email already exists' });
+    }
+
+    // Create user (password will be hashed automatically by the pre-save hook)
+    const user = await User.create({
+      name,
+      businessEmail,
+      country,
+      hotelName,
+      phoneNumber,
+      currentPMS,
+      businessType,
+      numberOfRooms,
+      password,
+    });
+
+    // Start a session (stores the refresh token hashed) and issue tokens for it
+    const { sessionId, refreshToken } = await createSession(user, req);
+    const accessToken = generateAccessToken({ id: user._id.toString(), businessEmail: user.businessEmail, sid: sessionId });
+
+    // Personal organization owning the user's hotel (retried on login if this fails)
+    await ensurePersonalOrganization(user).catch(error => console.error('Personal organization error:', error));
+
+    // Return user data (password is automatically excluded by toJSON method)
+    return res.status(201).json({
+      message: 'User registered successfully',
+      user: user.toJSON(),
+      tokens: {
+        accessToken,
+        refreshToken,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Register error:', error);
+    
+    // Handle MongoDB duplicate key error
+    if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+      return res.status(409).json({ error: 'User with this business email already exists' });
+    }
+    
+    // Handle validation errors
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ValidationError' && 'errors' in error) {
+      const validationError = error as { errors: Record<string, { message: string }> };
+      const errors = Object.values(validationError.errors).map(err => err.message);
+      return res.status(400).json({ error: errors.join(', ') });
+    }
+    
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Login endpoint
+ * POST /auth/login
+ */
+app.post('/auth/login', validateLogin, async (req: Request<{}, {}, LoginRequestBody>, res: Response) => {
+  try {
+    const { businessEmail, password } = req.body;
+
+    // Find user and include password field
+    const user = await User.findOne({ businessEmail }).select('+password');
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    // Verify password using the model method
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    if (user.deactivatedAt) {
+      return res.status(403).json({ error: 'This account has been deactivated' });
+    }
+
+    // Start a session (stores the refresh token hashed) and issue tokens for it
+    const { sessionId, refreshToken } = await createSession(user, req);
+    const accessToken = generateAccessToken({ id: user._id.toString(), businessEmail: user.businessEmail, sid: sessionId });
+
+    // Accounts created before organizations get their personal one on first login
+    await ensurePersonalOrganization(user).catch(error => console.error('Personal organization error:', error));
+
+    // Return user data (password is automatically excluded by toJSON method)
+    return res.json({
+      message: 'Login successful',
+      user: user.toJSON(),
+      tokens: {
+        accessToken,
+        refreshToken,
+      },
+    });
+  } catch (error) {
+    console.error('Login error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Refresh token endpoint
+ * Rotates the refresh token: the one sent is used up and a new one is returned.
+ * POST /auth/refresh
+ */
+app.post('/auth/refresh', validateRefreshToken, async (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response) => {
+  try {
+    // Exchange the refresh token for the next one of its session (reuse revokes the session)
+    const rotated = await rotateSession(req.body.refreshToken, req);
+    if (!rotated) {
+      return res.status(403).json({ error: 'Invalid refresh token' });
+    }
+
+    const user = await User.findById(rotated.payload.id);
+    if (!user || user.deactivatedAt) {
+      return res.status(403).json({ error: 'Invalid refresh token' });
+    }
+
+    // Generate new access token
+    const tokenPayload = { id: user._id.toString(), businessEmail: user.businessEmail, sid: rotated.payload.sid };
+    const newAccessToken = generateAccessToken(tokenPayload);
+
+    return res.json({
+      accessToken: newAccessToken,
+      refreshToken: rotated.refreshToken,
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Logout endpoint
+ * POST /auth/logout
+ */
+app.post('/auth/logout', async (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    // End the session the refresh token belongs to (its access tokens are revoked with it)
+    await endSession(refreshToken);
+
+    // The access token sent along stops working too, even if it has no session
+    const accessToken = req.headers['authorization']?.split(' ')[1];
+    if (accessToken) {
+      let payload: TokenPayload | null = null;
+      try {
+        payload = verifyAccessToken(accessToken);
+      } catch {
+        // Expired or invalid: nothing to revoke
+      }
+      if (payload?.jti) {
+        await revokeAccessTokens('token', payload.jti, new Date(payload.exp! * 1000));
+      }
+    }
+
+    return res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Get user profile (own, or a fellow member's for organization admins)
+ * GET /users/:id (or /users/me)
+ */
+app.get('/users/:id', authenticateToken, authorizeOwner({ readRole: 'admin' }), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Find user by ID
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Return user (password is automatically excluded by toJSON method)
+    return res.json(user.toJSON());
+  } catch (error: unknown) {
+    console.error('Get user error:', error);
+    
+    // Handle invalid MongoDB ObjectId
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'CastError') {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update own user profile
+ * PUT /users/:id (or /users/me)
+ */
+app.put('/users/:id', authenticateToken, authorizeOwner(), validateUpdateUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const updateData: UpdateUserRequestBody = req.body;
+
+    // Find and update user
+    const user = await User.findByIdAndUpdate(
+      id,
+      { $set: updateData },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Return updated user (password is automatically excluded by toJSON method)
+    return res.json(user.toJSON());
+  } catch (error: unknown) {
+    console.error('Update user error:', error);
+    
+    // Handle invalid MongoDB ObjectId
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'CastError') {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    // Handle validation errors
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ValidationError' && 'errors' in error) {
+      const validationError = error as { errors: Record<string, { message: string }> };
+      const errors = Object.values(validationError.errors).map(err => err.message);
+      return res.status(400).json({ error: errors.join(', ') });
+    }
+    
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Deactivate own account
+ * Login is refused from then on, and every session and access token is revoked.
+ * POST /users/:id/deactivate (or /users/me/deactivate)
+ */
+app.post(
+  '/users/:id/deactivate',
+  authenticateToken,
+  authorizeOwner(),
+  validateDeactivateUser,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { password } = req.body as DeactivateUserRequestBody;
+
+      const user = await User.findById(req.params.id).select('+password');
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (!(await user.comparePassword(password))) {
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+
+      user.deactivatedAt = new Date();
+      await user.save();
+
+      // Sessions first, then any access token issued without one
+      await revokeSessions({ userId: user._id }, 'deactivated');
+      await revokeAccessTokens('user', user._id.toString());
+
+      return res.json({ message: 'Account deactivated' });
+    } catch (error: unknown) {
+      console.error('Deactivate user error:', error);
+
+      // Handle invalid MongoDB ObjectId
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'CastError') {
+        return res.status(400).json({ error: 'Invalid user ID' });
+      }
+
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Signed-in devices
+app.use('/auth/sessions', sessionRoutes);
+
+// Forgot, reset and change password
+app.use('/auth/password', passwordRoutes);
+
+// Organizations, properties, members and invitations
+app.use('/orgs', organizationRoutes);
+
+// Health check
+app.get('/health', (_req: Request, res: Response) => {
+  return res.json({ status: 'ok', service: 'auth-service' });
+});
+
+export default app;
+
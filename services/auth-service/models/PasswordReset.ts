@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// A password reset requested through "forgot password" (usable once, until it expires)
+export interface IPasswordReset extends Document {
+  userId: Types.ObjectId;
+  tokenHash: string;    // SHA-256 of the emailed token
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const passwordResetSchema = new Schema<IPasswordReset>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB removes resets once they have expired
+passwordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const PasswordReset: Model<IPasswordReset> = mongoose.model<IPasswordReset>('PasswordReset', passwordResetSchema);
+
+export default PasswordReset;
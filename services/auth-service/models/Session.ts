@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse' | 'limit' | 'deactivated' | 'password';
+
+// A signed-in device: one family of rotating refresh tokens
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  tokenHash: string;     // SHA-256 of the family's current refresh token
+  userAgent: string | null;
+  ip: string | null;
+  lastUsedAt: Date;      // last login or refresh
+  expiresAt: Date;       // expiry of the current refresh token
+  revokedAt: Date | null;
+  revokedReason: SessionRevokedReason | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'reuse', 'limit', 'deactivated', 'password'],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB removes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session: Model<ISession> = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
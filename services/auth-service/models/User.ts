@@ -71,11 +71,11 @@ const userSchema = new Schema<IUser>(
       minlength: [6, 'Password must be at least 6 characters'],
       select: false, // Don't return password by default
     },
-    
-    // Refresh Tokens (array to support multiple devices)
-    refreshTokens: {
-      type: [String],
-      default: [],
+
+    // Account status (set when the user deactivates their account)
+    deactivatedAt: {
+      type: Date,
+      default: null,
     },
   },
   {
@@ -108,7 +108,7 @@ userSchema.methods.comparePassword = async function (candidatePassword: string):
 userSchema.methods.toJSON = function () {
   const userObject = this.toObject();
   delete userObject.password;
-  delete userObject.refreshTokens;
+  delete userObject.refreshTokens; // stored by older versions (sessions replaced it)
   return userObject;
 };
 
@@ -0,0 +1,549 @@
+import { Router, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+  Organization,
+  Property,
+  Membership,
+  IMembership,
+  Invitation,
+  OrgRole,
+  hasRole,
+  validateOrganization,
+  validateUpdateOrganization,
+  validateProperty,
+  validateUpdateProperty,
+  validateInvitation,
+  validateUpdateMembership,
+  validateAcceptInvitation,
+} from '../../../shared';
+import {
+  ownersLeftWithout,
+  propertiesBelongTo,
+  createInvitationToken,
+  hashInvitationToken,
+  sendInvitationEmail,
+} from '../utils/organizations';
+
+interface OrganizationRequest extends AuthenticatedRequest {
+  membership?: IMembership;
+}
+
+const router = Router();
+
+router.use(authenticateToken);
+
+/**
+ * Middleware that loads the caller's membership of :orgId and checks their role
+ * Non-members get 404 so organization IDs can't be probed.
+ * @param minimum - Role required
+ */
+const requireMembership = (minimum: OrgRole) =>
+  async (req: OrganizationRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { orgId } = req.params;
+      if (!mongoose.isValidObjectId(orgId)) {
+        res.status(400).json({ error: 'Invalid organization ID' });
+        return;
+      }
+
+      const membership = await Membership.findOne({ organizationId: orgId, userId: req.user!.id });
+      if (!membership) {
+        res.status(404).json({ error: 'Organization not found' });
+        return;
+      }
+      if (!hasRole(membership.role, minimum)) {
+        res.status(403).json({ error: `This action requires the ${minimum} role or higher` });
+        return;
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      console.error('Organization membership error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+/**
+ * Whether a membership is limited to some of the organization's properties
+ */
+const isLimited = (membership: IMembership) => !hasRole(membership.role, 'admin') && membership.propertyIds.length > 0;
+
+/**
+ * Handle errors shared by the write endpoints
+ */
+const handleWriteError = (error: unknown, res: Response) => {
+  if (error && typeof error === 'object' && 'name' in error && error.name === 'ValidationError' && 'errors' in error) {
+    const validationError = error as { errors: Record<string, { message: string }> };
+    const errors = Object.values(validationError.errors).map(err => err.message);
+    return res.status(400).json({ error: errors.join(', ') });
+  }
+  return res.status(500).json({ error: 'Internal server error' });
+};
+
+/**
+ * Accept an invitation (the caller's email must match the invited one)
+ * POST /orgs/invitations/accept
+ */
+router.post('/invitations/accept', validateAcceptInvitation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const tokenHash = hashInvitationToken(req.body.token);
+    const now = new Date();
+
+    // Claim the invitation first, so it is accepted at most once even when sent twice at the same time
+    const invitation = await Invitation.findOneAndUpdate(
+      {
+        tokenHash,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+        email: req.user!.businessEmail.toLowerCase(),
+      },
+      { $set: { acceptedAt: now, acceptedBy: new mongoose.Types.ObjectId(req.user!.id) } },
+      { new: true }
+    );
+
+    if (!invitation) {
+      const unclaimed = await Invitation.findOne({ tokenHash });
+      if (!unclaimed || unclaimed.revokedAt) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      if (unclaimed.acceptedAt) {
+        return res.status(409).json({ error: 'Invitation has already been accepted' });
+      }
+      if (unclaimed.expiresAt <= now) {
+        return res.status(410).json({ error: 'Invitation has expired' });
+      }
+      return res.status(403).json({ error: 'This invitation was sent to a different email address' });
+    }
+
+    // Joining keeps an existing higher role; otherwise the invited role and properties apply
+    let membership: IMembership;
+    try {
+      const existing = await Membership.findOne({ organizationId: invitation.organizationId, userId: req.user!.id });
+      if (!existing) {
+        membership = await Membership.create({
+          organizationId: invitation.organizationId,
+          userId: req.user!.id,
+          role: invitation.role,
+          propertyIds: invitation.propertyIds,
+        });
+      } else {
+        if (!hasRole(existing.role, invitation.role)) {
+          existing.role = invitation.role;
+          existing.propertyIds = invitation.propertyIds;
+          await existing.save();
+        }
+        membership = existing;
+      }
+    } catch (error) {
+      // Release the claim so the invitation can be accepted again
+      await Invitation.updateOne({ _id: invitation._id }, { $set: { acceptedAt: null, acceptedBy: null } });
+      throw error;
+    }
+
+    const organization = await Organization.findById(invitation.organizationId);
+    return res.json({ organization, role: membership.role, propertyIds: membership.propertyIds });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * List the caller's organizations with their role in each
+ * GET /orgs
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const memberships = await Membership.find({ userId: req.user!.id })
+      .populate('organizationId')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const organizations = memberships
+      .filter(membership => membership.organizationId)
+      .map(membership => ({
+        ...(membership.organizationId as unknown as Record<string, unknown>),
+        role: membership.role,
+        propertyIds: membership.propertyIds,
+      }));
+
+    return res.json({ organizations });
+  } catch (error) {
+    console.error('List organizations error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create an organization (the caller becomes its owner)
+ * POST /orgs
+ */
+router.post('/', validateOrganization, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const organization = await Organization.create({ ...req.body, createdBy: req.user!.id });
+    await Membership.create({ organizationId: organization._id, userId: req.user!.id, role: 'owner' });
+
+    return res.status(201).json({ organization, role: 'owner' });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Get an organization
+ * GET /orgs/:orgId
+ */
+router.get('/:orgId', requireMembership('viewer'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const organization = await Organization.findById(req.params.orgId);
+    if (!organization) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    return res.json({ organization, role: req.membership!.role, propertyIds: req.membership!.propertyIds });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update an organization
+ * PUT /orgs/:orgId
+ */
+router.put('/:orgId', requireMembership('admin'), validateUpdateOrganization, async (req: OrganizationRequest, res: Response) => {
+  try {
+    const organization = await Organization.findByIdAndUpdate(
+      req.params.orgId,
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+    if (!organization) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    return res.json({ organization });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/* -----------------------------------------
+   PROPERTIES
+-------------------------------------------- */
+
+/**
+ * List the organization's properties (those the caller can access)
+ * GET /orgs/:orgId/properties
+ */
+router.get('/:orgId/properties', requireMembership('viewer'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const membership = req.membership!;
+    const properties = await Property.find({
+      organizationId: req.params.orgId,
+      ...(isLimited(membership) && { _id: { $in: membership.propertyIds } }),
+    }).sort({ name: 1 });
+
+    return res.json({ properties });
+  } catch (error) {
+    console.error('List properties error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Add a property
+ * POST /orgs/:orgId/properties
+ */
+router.post('/:orgId/properties', requireMembership('admin'), validateProperty, async (req: OrganizationRequest, res: Response) => {
+  try {
+    const property = await Property.create({ ...req.body, organizationId: req.params.orgId });
+    return res.status(201).json({ property });
+  } catch (error) {
+    console.error('Create property error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Update a property
+ * PUT /orgs/:orgId/properties/:propertyId
+ */
+router.put(
+  '/:orgId/properties/:propertyId',
+  requireMembership('admin'),
+  validateUpdateProperty,
+  async (req: OrganizationRequest, res: Response) => {
+    try {
+      const { orgId, propertyId } = req.params;
+      if (!mongoose.isValidObjectId(propertyId)) {
+        return res.status(400).json({ error: 'Invalid property ID' });
+      }
+
+      const property = await Property.findOneAndUpdate(
+        { _id: propertyId, organizationId: orgId },
+        { $set: req.body },
+        { new: true, runValidators: true }
+      );
+      if (!property) {
+        return res.status(404).json({ error: 'Property not found' });
+      }
+
+      return res.json({ property });
+    } catch (error) {
+      console.error('Update property error:', error);
+      return handleWriteError(error, res);
+    }
+  }
+);
+
+/**
+ * Remove a property (members lose access to it; its rate shopping data is kept)
+ * DELETE /orgs/:orgId/properties/:propertyId
+ */
+router.delete('/:orgId/properties/:propertyId', requireMembership('admin'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const { orgId, propertyId } = req.params;
+    if (!mongoose.isValidObjectId(propertyId)) {
+      return res.status(400).json({ error: 'Invalid property ID' });
+    }
+
+    const property = await Property.findOneAndDelete({ _id: propertyId, organizationId: orgId });
+    if (!property) {
+      return res.status(404).json({ error: 'Property not found' });
+    }
+
+    // An empty list means every property, so a member (or invitation) limited to
+    // only this property keeps the dangling ID and with it access to nothing
+    const limitedToOthers = { organizationId: orgId, propertyIds: property._id, 'propertyIds.1': { $exists: true } };
+    await Membership.updateMany(limitedToOthers, { $pull: { propertyIds: property._id } });
+    await Invitation.updateMany(limitedToOthers, { $pull: { propertyIds: property._id } });
+
+    return res.json({ message: 'Property deleted' });
+  } catch (error) {
+    console.error('Delete property error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/* -----------------------------------------
+   MEMBERS
+-------------------------------------------- */
+
+/**
+ * List members
+ * GET /orgs/:orgId/members
+ */
+router.get('/:orgId/members', requireMembership('viewer'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const memberships = await Membership.find({ organizationId: req.params.orgId })
+      .populate<{ userId: { _id: mongoose.Types.ObjectId; name: string; businessEmail: string } | null }>('userId', 'name businessEmail')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const members = memberships
+      .filter(membership => membership.userId)
+      .map(membership => ({
+        userId: membership.userId!._id,
+        name: membership.userId!.name,
+        businessEmail: membership.userId!.businessEmail,
+        role: membership.role,
+        propertyIds: membership.propertyIds,
+        joinedAt: membership.createdAt,
+      }));
+
+    return res.json({ members });
+  } catch (error) {
+    console.error('List members error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Change a member's role or property access
+ * Only owners can make or unmake owners, and the last owner can't be demoted.
+ * PUT /orgs/:orgId/members/:userId
+ */
+router.put(
+  '/:orgId/members/:userId',
+  requireMembership('admin'),
+  validateUpdateMembership,
+  async (req: OrganizationRequest, res: Response) => {
+    try {
+      const { orgId, userId } = req.params;
+      const { role, propertyIds } = req.body as { role?: OrgRole; propertyIds?: string[] };
+      if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({ error: 'Invalid user ID' });
+      }
+
+      const member = await Membership.findOne({ organizationId: orgId, userId });
+      if (!member) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      const touchesOwner = member.role === 'owner' || role === 'owner';
+      if (touchesOwner && req.membership!.role !== 'owner') {
+        return res.status(403).json({ error: 'Only owners can change owners' });
+      }
+      if (member.role === 'owner' && role && role !== 'owner' && await ownersLeftWithout(member) === 0) {
+        return res.status(409).json({ error: 'An organization needs at least one owner' });
+      }
+      if (propertyIds && !await propertiesBelongTo(orgId, propertyIds)) {
+        return res.status(400).json({ error: 'propertyIds must be properties of this organization' });
+      }
+
+      if (role) member.role = role;
+      if (propertyIds) member.propertyIds = propertyIds.map(id => new mongoose.Types.ObjectId(id));
+      await member.save();
+
+      return res.json({ membership: member });
+    } catch (error) {
+      console.error('Update member error:', error);
+      return handleWriteError(error, res);
+    }
+  }
+);
+
+/**
+ * Remove a member (admins remove others; anyone can leave)
+ * DELETE /orgs/:orgId/members/:userId
+ */
+router.delete('/:orgId/members/:userId', requireMembership('viewer'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const { orgId, userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const leaving = userId === req.user!.id;
+    if (!leaving && !hasRole(req.membership!.role, 'admin')) {
+      return res.status(403).json({ error: 'This action requires the admin role or higher' });
+    }
+
+    const member = await Membership.findOne({ organizationId: orgId, userId });
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    if (member.role === 'owner' && !leaving && req.membership!.role !== 'owner') {
+      return res.status(403).json({ error: 'Only owners can change owners' });
+    }
+    if (member.role === 'owner' && await ownersLeftWithout(member) === 0) {
+      return res.status(409).json({ error: 'An organization needs at least one owner' });
+    }
+
+    await member.deleteOne();
+    return res.json({ message: leaving ? 'Left organization' : 'Member removed' });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/* -----------------------------------------
+   INVITATIONS
+-------------------------------------------- */
+
+/**
+ * List pending invitations
+ * GET /orgs/:orgId/invitations
+ */
+router.get('/:orgId/invitations', requireMembership('admin'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const invitations = await Invitation.find({
+      organizationId: req.params.orgId,
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+
+    return res.json({ invitations });
+  } catch (error) {
+    console.error('List invitations error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Invite someone by email (only owners can invite owners)
+ * POST /orgs/:orgId/invitations
+ */
+router.post('/:orgId/invitations', requireMembership('admin'), validateInvitation, async (req: OrganizationRequest, res: Response) => {
+  try {
+    const { orgId } = req.params;
+    const { email, role, propertyIds } = req.body as { email: string; role: OrgRole; propertyIds: string[] };
+
+    if (role === 'owner' && req.membership!.role !== 'owner') {
+      return res.status(403).json({ error: 'Only owners can invite owners' });
+    }
+    if (!await propertiesBelongTo(orgId, propertyIds)) {
+      return res.status(400).json({ error: 'propertyIds must be properties of this organization' });
+    }
+
+    const invitee = await User.findOne({ businessEmail: email }).select('_id');
+    if (invitee && await Membership.exists({ organizationId: orgId, userId: invitee._id })) {
+      return res.status(409).json({ error: 'This user is already a member' });
+    }
+
+    const [organization, inviter] = await Promise.all([
+      Organization.findById(orgId),
+      User.findById(req.user!.id).select('name businessEmail'),
+    ]);
+    if (!organization || !inviter) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    const { token, tokenHash, expiresAt } = createInvitationToken();
+    const invitation = await Invitation.create({
+      organizationId: orgId,
+      email,
+      role,
+      propertyIds,
+      tokenHash,
+      invitedBy: req.user!.id,
+      expiresAt,
+    });
+
+    await sendInvitationEmail(invitation, organization, inviter, token);
+
+    return res.status(201).json({ invitation });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Revoke a pending invitation
+ * DELETE /orgs/:orgId/invitations/:invitationId
+ */
+router.delete('/:orgId/invitations/:invitationId', requireMembership('admin'), async (req: OrganizationRequest, res: Response) => {
+  try {
+    const { orgId, invitationId } = req.params;
+    if (!mongoose.isValidObjectId(invitationId)) {
+      return res.status(400).json({ error: 'Invalid invitation ID' });
+    }
+
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: invitationId, organizationId: orgId, acceptedAt: null, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    return res.json({ message: 'Invitation revoked' });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import User from '../models/User';
+import {
+  authenticateToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateChangePassword,
+  generateAccessToken,
+  revokeAccessTokens,
+  AuthenticatedRequest,
+  ForgotPasswordRequestBody,
+  ResetPasswordRequestBody,
+  ChangePasswordRequestBody,
+} from '../../../shared';
+import { createPasswordReset, consumePasswordReset, sendPasswordResetEmail } from '../utils/passwords';
+import { revokeSessions } from '../utils/sessions';
+
+const router = Router();
+
+/**
+ * Email a password reset link
+ * Answers the same whether or not the email belongs to an account, so
+ * accounts can't be discovered through it. Earlier reset links stop working.
+ * POST /auth/password/forgot
+ */
+router.post('/forgot', validateForgotPassword, async (req: Request<{}, {}, ForgotPasswordRequestBody>, res: Response) => {
+  try {
+    const user = await User.findOne({ businessEmail: req.body.businessEmail });
+
+    if (user && !user.deactivatedAt) {
+      const { token, expiresAt } = await createPasswordReset(user);
+      await sendPasswordResetEmail(user, token, expiresAt);
+    }
+
+    return res.json({ message: 'If an account exists for this email, a password reset link has been sent' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Set a new password with a reset token (signs out every device)
+ * POST /auth/password/reset
+ */
+router.post('/reset', validateResetPassword, async (req: Request<{}, {}, ResetPasswordRequestBody>, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    const userId = await consumePasswordReset(token);
+    const user = userId ? await User.findById(userId) : null;
+    if (!user || user.deactivatedAt) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    // Hashed by the pre-save hook
+    user.password = password;
+    await user.save();
+
+    // Access tokens not tied to a session are covered by the user revocation
+    await revokeSessions({ userId: user._id }, 'password');
+    await revokeAccessTokens('user', user._id.toString());
+
+    return res.json({ message: 'Password reset successfully. Please log in with your new password' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Change the caller's password (signs out every other device)
+ * Every access token issued so far is revoked, the caller's included; the
+ * response carries a new one for the session making the change.
+ * POST /auth/password/change
+ */
+router.post('/change', authenticateToken, validateChangePassword, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body as ChangePasswordRequestBody;
+
+    const user = await User.findById(req.user!.id).select('+password');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await user.comparePassword(currentPassword))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+
+    // Hashed by the pre-save hook
+    user.password = newPassword;
+    await user.save();
+
+    // The session making the change stays signed in
+    const sessionId = req.user!.sid;
+    const revokedSessions = await revokeSessions(
+      { userId: user._id, ...(sessionId && { _id: { $ne: sessionId } }) },
+      'password'
+    );
+
+    await revokeAccessTokens('user', user._id.toString());
+    const accessToken = generateAccessToken({ id: user._id.toString(), businessEmail: user.businessEmail, sid: sessionId });
+
+    return res.json({ message: 'Password changed successfully', revokedSessions, accessToken });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
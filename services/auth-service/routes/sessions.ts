@@ -0,0 +1,78 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, AuthenticatedRequest } from '../../../shared';
+import { ISession } from '../models/Session';
+import { listSessions, revokeSessions } from '../utils/sessions';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+/**
+ * Session as shown to its user (current = the session of the calling access token)
+ */
+const formatSession = (session: ISession, currentSessionId?: string) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId,
+});
+
+/**
+ * List the caller's signed-in devices
+ * GET /auth/sessions
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await listSessions(req.user!.id);
+    return res.json({ sessions: sessions.map(session => formatSession(session, req.user!.sid)) });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Sign out every other device
+ * DELETE /auth/sessions
+ */
+router.delete('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const revoked = await revokeSessions(
+      { userId: req.user!.id, ...(req.user!.sid && { _id: { $ne: req.user!.sid } }) },
+      'revoked'
+    );
+    return res.json({ message: 'Other sessions revoked', revoked });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Sign out one device (its refresh token stops working)
+ * DELETE /auth/sessions/:sessionId
+ */
+router.delete('/:sessionId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const revoked = await revokeSessions({ _id: sessionId, userId: req.user!.id }, 'revoked');
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    return res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
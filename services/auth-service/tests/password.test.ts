@@ -0,0 +1,180 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Types } from 'mongoose';
+
+// Revocation checks stay in memory; MongoDB calls are replaced per test
+process.env.TOKEN_REVOCATION_STORE = 'memory';
+
+import app from '../app';
+import User from '../models/User';
+import Session from '../models/Session';
+import PasswordReset from '../models/PasswordReset';
+import { TokenPayload, generateAccessToken } from '../../../shared';
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Call the auth app, with an access token if given
+ */
+async function request(method: string, path: string, accessToken: string | null, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+/**
+ * Access token issued a minute ago (issue times are whole seconds)
+ */
+function earlierAccessToken(payload: TokenPayload): string {
+  mock.timers.enable({ apis: ['Date'], now: Date.now() - 60_000 });
+  try {
+    return generateAccessToken(payload);
+  } finally {
+    mock.timers.reset();
+  }
+}
+
+/**
+ * A stored user whose password is "old-password", signed in with the given sessions
+ */
+function stubAccount(sessionIds: string[] = [new Types.ObjectId().toString()]) {
+  const id = new Types.ObjectId();
+  const user = {
+    _id: id,
+    businessEmail: `${id}@hotel.com`,
+    password: 'hashed',
+    deactivatedAt: null,
+    comparePassword: async (candidate: string) => candidate === 'old-password',
+    save: async () => user,
+    select: async () => user,
+    toJSON: () => ({ _id: id.toString(), businessEmail: user.businessEmail }),
+  };
+
+  // Awaited directly by GET /users/:id, narrowed with select('+password') by the password routes
+  mock.method(User, 'findById', () => user);
+  mock.method(Session, 'find', () => ({ select: () => ({ lean: async () => sessionIds.map(_id => ({ _id })) }) }));
+  mock.method(Session, 'updateMany', async () => ({}));
+
+  return { id: id.toString(), businessEmail: user.businessEmail };
+}
+
+before(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+/**
+ * Stop the clock 200ms into a second, so everything below happens within it
+ */
+const freezeWithinOneSecond = () => mock.timers.enable({ apis: ['Date'], now: 1_790_000_000_200 });
+
+describe('POST /auth/password/reset', () => {
+  it('revokes every access token of the user, with or without a session', async () => {
+    const account = stubAccount();
+    const withSession = earlierAccessToken({ ...account, sid: new Types.ObjectId().toString() });
+    const withoutSession = earlierAccessToken(account);
+    mock.method(PasswordReset, 'findOneAndUpdate', async () => ({ userId: account.id }));
+    mock.method(PasswordReset, 'deleteMany', async () => ({}));
+
+    const reset = await request('POST', '/auth/password/reset', null, { token: 'emailed-token', password: 'new-password' });
+    assert.equal(reset.status, 200);
+
+    for (const token of [withSession, withoutSession]) {
+      const { status, body } = await request('GET', '/users/me', token);
+      assert.equal(status, 403);
+      assert.equal(body.error, 'Access token has been revoked');
+    }
+  });
+
+  it('revokes tokens from the same second but not those of a login right after', async () => {
+    freezeWithinOneSecond();
+    const sid = new Types.ObjectId().toString();
+    const account = stubAccount([sid]);
+    const before = generateAccessToken({ ...account, sid });
+    mock.method(PasswordReset, 'findOneAndUpdate', async () => ({ userId: account.id }));
+    mock.method(PasswordReset, 'deleteMany', async () => ({}));
+
+    mock.timers.tick(300);
+    const reset = await request('POST', '/auth/password/reset', null, { token: 'emailed-token', password: 'new-password' });
+    assert.equal(reset.status, 200);
+
+    mock.timers.tick(300);
+    const afterLogin = generateAccessToken({ ...account, sid: new Types.ObjectId().toString() });
+
+    assert.equal((await request('GET', '/users/me', before)).status, 403);
+    assert.equal((await request('GET', '/users/me', afterLogin)).status, 200);
+  });
+});
+
+describe('POST /auth/password/change', () => {
+  it('revokes the user\'s access tokens and answers with a new one for the caller\'s session', async () => {
+    const account = stubAccount();
+    const sid = new Types.ObjectId().toString();
+    const caller = earlierAccessToken({ ...account, sid });
+    const withoutSession = earlierAccessToken(account);
+
+    const change = await request('POST', '/auth/password/change', caller, {
+      currentPassword: 'old-password',
+      newPassword: 'new-password',
+    });
+    assert.equal(change.status, 200);
+    assert.equal(change.body.revokedSessions, 1);
+
+    for (const token of [caller, withoutSession]) {
+      const { status, body } = await request('GET', '/users/me', token);
+      assert.equal(status, 403);
+      assert.equal(body.error, 'Access token has been revoked');
+    }
+
+    const { status, body } = await request('GET', '/users/me', change.body.accessToken as string);
+    assert.equal(status, 200);
+    assert.equal(body._id, account.id);
+  });
+
+  it('answers with a working token within the second of the change', async () => {
+    freezeWithinOneSecond();
+    const account = stubAccount();
+    const caller = generateAccessToken({ ...account, sid: new Types.ObjectId().toString() });
+
+    const change = await request('POST', '/auth/password/change', caller, {
+      currentPassword: 'old-password',
+      newPassword: 'new-password',
+    });
+    assert.equal(change.status, 200);
+
+    mock.timers.tick(500);
+    assert.equal((await request('GET', '/users/me', change.body.accessToken as string)).status, 200);
+  });
+
+  it('keeps every token when the current password is wrong', async () => {
+    const account = stubAccount();
+    const caller = earlierAccessToken(account);
+
+    const change = await request('POST', '/auth/password/change', caller, {
+      currentPassword: 'guess',
+      newPassword: 'new-password',
+    });
+    assert.equal(change.status, 401);
+
+    assert.equal((await request('GET', '/users/me', caller)).status, 200);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Types } from 'mongoose';
+
+// Revocation checks stay in memory; MongoDB calls are replaced per test
+process.env.TOKEN_REVOCATION_STORE = 'memory';
+
+import app from '../app';
+import User from '../models/User';
+import { Membership, generateAccessToken } from '../../../shared';
+
+const alice = { id: new Types.ObjectId().toString(), businessEmail: 'alice@hotel.com' };
+const bob = { id: new Types.ObjectId().toString(), businessEmail: 'bob@hotel.com' };
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Call the auth app as a user
+ */
+async function request(method: string, path: string, as: typeof alice | null, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(as && { Authorization: `Bearer ${generateAccessToken(as)}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+/**
+ * Stored user documents, as findById and findByIdAndUpdate return them
+ */
+function stubUsers() {
+  const profile = (id: string, fields: Record<string, unknown> = {}) => ({
+    toJSON: () => ({ _id: id, name: 'Stored Name', ...fields }),
+  });
+
+  return {
+    findById: mock.method(User, 'findById', async (id: string) => profile(id)),
+    findByIdAndUpdate: mock.method(
+      User,
+      'findByIdAndUpdate',
+      async (id: string, update: { $set: Record<string, unknown> }) => profile(id, update.$set)
+    ),
+  };
+}
+
+/**
+ * Organization memberships: whether the caller is an admin alongside the target user
+ */
+function stubMemberships(sharedAsAdmin: boolean) {
+  const organizationIds = sharedAsAdmin ? [new Types.ObjectId()] : [];
+  mock.method(Membership, 'find', () => ({ distinct: async () => organizationIds }));
+  mock.method(Membership, 'exists', async () => (sharedAsAdmin ? { _id: new Types.ObjectId() } : null));
+}
+
+before(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('GET /users/:id', () => {
+  it('requires an access token', async () => {
+    const { status, body } = await request('GET', '/users/me', null);
+
+    assert.equal(status, 401);
+    assert.equal(body.error, 'Access token required');
+  });
+
+  it('resolves /users/me to the caller', async () => {
+    const { findById } = stubUsers();
+
+    const { status, body } = await request('GET', '/users/me', alice);
+
+    assert.equal(status, 200);
+    assert.equal(body._id, alice.id);
+    assert.equal(findById.mock.calls[0].arguments[0], alice.id);
+  });
+
+  it('returns the caller\'s own profile by ID', async () => {
+    stubUsers();
+
+    const { status, body } = await request('GET', `/users/${alice.id}`, alice);
+
+    assert.equal(status, 200);
+    assert.equal(body._id, alice.id);
+  });
+
+  it('answers 403 for another user\'s profile', async () => {
+    const { findById } = stubUsers();
+    stubMemberships(false);
+
+    const { status, body } = await request('GET', `/users/${bob.id}`, alice);
+
+    assert.equal(status, 403);
+    assert.equal(body.error, 'You can only access your own account');
+    assert.equal(findById.mock.callCount(), 0);
+  });
+
+  it('lets an admin of a shared organization read a fellow member', async () => {
+    stubUsers();
+    stubMemberships(true);
+
+    const { status, body } = await request('GET', `/users/${bob.id}`, alice);
+
+    assert.equal(status, 200);
+    assert.equal(body._id, bob.id);
+  });
+});
+
+describe('PUT /users/:id', () => {
+  it('updates the caller through /users/me', async () => {
+    const { findByIdAndUpdate } = stubUsers();
+
+    const { status, body } = await request('PUT', '/users/me', alice, { name: 'Alice Updated' });
+
+    assert.equal(status, 200);
+    assert.equal(body.name, 'Alice Updated');
+    assert.equal(findByIdAndUpdate.mock.calls[0].arguments[0], alice.id);
+  });
+
+  it('answers 403 for another user\'s profile, even for a fellow admin', async () => {
+    const { findByIdAndUpdate } = stubUsers();
+    stubMemberships(true);
+
+    const { status, body } = await request('PUT', `/users/${bob.id}`, alice, { name: 'Taken Over' });
+
+    assert.equal(status, 403);
+    assert.equal(body.error, 'You can only access your own account');
+    assert.equal(findByIdAndUpdate.mock.callCount(), 0);
+  });
+
+  it('rejects fields that cannot be updated', async () => {
+    const { findByIdAndUpdate } = stubUsers();
+
+    for (const field of ['businessEmail', 'password', 'role', 'deactivatedAt', '_id']) {
+      const { status, body } = await request('PUT', '/users/me', alice, { name: 'Alice', [field]: 'x' });
+
+      assert.equal(status, 400, field);
+      assert.equal(body.error, `"${field}" cannot be updated`);
+    }
+    assert.equal(findByIdAndUpdate.mock.callCount(), 0);
+  });
+
+  it('requires at least one field', async () => {
+    stubUsers();
+
+    const { status, body } = await request('PUT', '/users/me', alice, {});
+
+    assert.equal(status, 400);
+    assert.equal(body.error, 'At least one field must be provided');
+  });
+});
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import {
+  Organization,
+  IOrganization,
+  Property,
+  Membership,
+  IMembership,
+  IInvitation,
+  IUser,
+  OrgRole,
+  getMailTransport,
+} from '../../../shared';
+
+// How long an invitation can be accepted, in hours
+const INVITATION_TTL_HOURS = Number(process.env.INVITATION_TTL_HOURS) || 168;
+
+// Link in invitation emails; the token is appended as ?token=
+const INVITATION_URL = process.env.INVITATION_URL || 'http://localhost:3000/invitations/accept';
+
+/**
+ * Make sure a user has their personal organization
+ * Created on registration (and on login for accounts that predate
+ * organizations) with the user's hotel as its first property and the user
+ * as owner.
+ * @param user - User
+ * @returns Personal organization
+ */
+export async function ensurePersonalOrganization(user: IUser): Promise<IOrganization> {
+  const existing = await Organization.findOne({ createdBy: user._id, isPersonal: true });
+  if (existing) return existing;
+
+  let organization: IOrganization;
+  try {
+    organization = await Organization.create({
+      name: user.hotelName,
+      businessType: user.businessType,
+      createdBy: user._id,
+      isPersonal: true,
+    });
+  } catch (error) {
+    // Another request (e.g. a parallel login) created it first
+    if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+      return (await Organization.findOne({ createdBy: user._id, isPersonal: true }))!;
+    }
+    throw error;
+  }
+
+  await Property.create({
+    organizationId: organization._id,
+    name: user.hotelName,
+    country: user.country,
+    numberOfRooms: user.numberOfRooms,
+    currentPMS: user.currentPMS,
+  });
+  await Membership.create({ organizationId: organization._id, userId: user._id, role: 'owner' });
+
+  return organization;
+}
+
+/**
+ * Number of owners left in an organization if one membership stopped being an owner
+ * @param membership - Membership being demoted or removed
+ * @returns Remaining owners
+ */
+export async function ownersLeftWithout(membership: IMembership): Promise<number> {
+  return Membership.countDocuments({
+    organizationId: membership.organizationId,
+    role: 'owner',
+    _id: { $ne: membership._id },
+  });
+}
+
+/**
+ * Check that property IDs all belong to an organization
+ * @param organizationId - Organization
+ * @param propertyIds - Property IDs
+ * @returns True if every ID is one of the organization's properties
+ */
+export async function propertiesBelongTo(organizationId: string, propertyIds: string[]): Promise<boolean> {
+  if (!propertyIds.length) return true;
+  const count = await Property.countDocuments({ _id: { $in: propertyIds }, organizationId });
+  return count === propertyIds.length;
+}
+
+/**
+ * Generate an invitation token
+ * @returns Token (emailed) and its hash (stored)
+ */
+export function createInvitationToken(): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Hash an invitation token for storage and lookup
+ * @param token - Token from the invitation email
+ */
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Email an invitation
+ * @param invitation - Invitation
+ * @param organization - Organization the invitee is asked to join
+ * @param inviter - User who sent it
+ * @param token - Invitation token (only ever sent, never stored)
+ */
+export async function sendInvitationEmail(
+  invitation: Pick<IInvitation, 'email' | 'role' | 'expiresAt'>,
+  organization: Pick<IOrganization, 'name'>,
+  inviter: { name: string; businessEmail: string },
+  token: string
+): Promise<void> {
+  await getMailTransport().send({
+    to: invitation.email,
+    subject: `[AxlRate] ${inviter.name} invited you to ${organization.name}`,
+    text: [
+      `${inviter.name} (${inviter.businessEmail}) invited you to join ${organization.name} on AxlRate as ${describeRole(invitation.role)}.`,
+      '',
+      `Accept the invitation: ${INVITATION_URL}?token=${token}`,
+      '',
+      `Sign in (or register) with ${invitation.email} first. The invitation expires on ${invitation.expiresAt.toISOString()}.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Human-readable role, e.g. "a revenue manager"
+ */
+function describeRole(role: OrgRole): string {
+  switch (role) {
+    case 'owner':
+      return 'an owner';
+    case 'admin':
+      return 'an admin';
+    case 'revenue_manager':
+      return 'a revenue manager';
+    default:
+      return 'a viewer';
+  }
+}
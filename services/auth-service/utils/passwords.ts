@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { IUser, getMailTransport } from '../../../shared';
+import PasswordReset from '../models/PasswordReset';
+
+// How long a reset link works, in minutes
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+
+// Link in reset emails; the token is appended as ?token=
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password';
+
+/**
+ * Hash a password reset token for storage and lookup
+ * @param token - Token from the reset email
+ */
+export function hashPasswordResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a password reset for a user
+ * Earlier unused resets stop working, so only the latest email's link is valid.
+ * @param user - User
+ * @returns Token (emailed, never stored) and its expiry
+ */
+export async function createPasswordReset(user: IUser): Promise<{ token: string; expiresAt: Date }> {
+  await PasswordReset.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  await PasswordReset.create({ userId: user._id, tokenHash: hashPasswordResetToken(token), expiresAt });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Use up a password reset token
+ * Claimed atomically, so a token works only once even when sent twice at the same time.
+ * @param token - Token from the reset email
+ * @returns ID of the user whose password may be reset, or null if the token is unknown, used or expired
+ */
+export async function consumePasswordReset(token: string): Promise<string | null> {
+  const reset = await PasswordReset.findOneAndUpdate(
+    { tokenHash: hashPasswordResetToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } }
+  );
+  if (!reset) return null;
+
+  // Any other outstanding reset for the user is void now
+  await PasswordReset.deleteMany({ userId: reset.userId, usedAt: null });
+
+  return reset.userId.toString();
+}
+
+/**
+ * Email a password reset link
+ * @param user - User who asked for it
+ * @param token - Reset token
+ * @param expiresAt - When the link stops working
+ */
+export async function sendPasswordResetEmail(
+  user: Pick<IUser, 'name' | 'businessEmail'>,
+  token: string,
+  expiresAt: Date
+): Promise<void> {
+  await getMailTransport().send({
+    to: user.businessEmail,
+    subject: '[AxlRate] Reset your password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Someone (hopefully you) asked to reset the password of your AxlRate account. Choose a new password here: ${PASSWORD_RESET_URL}?token=${token}`,
+      '',
+      `The link works once and expires on ${expiresAt.toISOString()}. If you did not ask for this, ignore this email; your password stays the same.`,
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import {
+  generateRefreshToken,
+  verifyRefreshToken,
+  getTokenExpiry,
+  revokeAccessTokens,
+  IUser,
+  RefreshTokenPayload,
+} from '../../../shared';
+import Session, { ISession, SessionRevokedReason } from '../models/Session';
+
+// Most sessions (signed-in devices) a user keeps; signing in on another ends the least recently used
+const MAX_SESSIONS_PER_USER = Number(process.env.MAX_SESSIONS_PER_USER) || 10;
+
+/**
+ * Hash a refresh token for storage and lookup
+ * @param token - Refresh token
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Device details shown in the session list
+ */
+function clientInfo(req: Request): Pick<ISession, 'userAgent' | 'ip'> {
+  const forwarded = req.headers['x-forwarded-for'];
+  const ip = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.ip;
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500) || null,
+    ip: ip || null,
+  };
+}
+
+/**
+ * Start a session (refresh token family) for a user who just signed in
+ * Expired and revoked sessions are pruned first; at the cap, the least
+ * recently used sessions are revoked to make room.
+ * @param user - User
+ * @param req - Login or register request (for user agent and IP)
+ * @returns Session ID and its first refresh token
+ */
+export async function createSession(user: IUser, req: Request): Promise<{ sessionId: string; refreshToken: string }> {
+  const now = new Date();
+
+  await Session.deleteMany({ userId: user._id, $or: [{ expiresAt: { $lte: now } }, { revokedAt: { $ne: null } }] });
+
+  const active = await Session.find({ userId: user._id }).sort({ lastUsedAt: -1 }).select('_id').lean();
+  const overCap = active.slice(MAX_SESSIONS_PER_USER - 1).map(session => session._id);
+  if (overCap.length) {
+    await revokeSessions({ _id: { $in: overCap } }, 'limit');
+  }
+
+  const sessionId = new Types.ObjectId();
+  const refreshToken = generateRefreshToken({
+    id: user._id.toString(),
+    businessEmail: user.businessEmail,
+    sid: sessionId.toString(),
+  });
+
+  await Session.create({
+    _id: sessionId,
+    userId: user._id,
+    tokenHash: hashRefreshToken(refreshToken),
+    ...clientInfo(req),
+    lastUsedAt: now,
+    expiresAt: getTokenExpiry(refreshToken),
+  });
+
+  return { sessionId: sessionId.toString(), refreshToken };
+}
+
+/**
+ * Exchange a refresh token for the next one of its family
+ * Only the family's current token is accepted. A token that verifies but has
+ * already been exchanged is being reused (it was copied, or replayed), so the
+ * whole family is revoked and neither holder can refresh any more.
+ * @param refreshToken - Refresh token presented by the client
+ * @param req - Refresh request (for user agent and IP)
+ * @returns Token payload and the new refresh token, or null if the token is not accepted
+ */
+export async function rotateSession(
+  refreshToken: string,
+  req: Request
+): Promise<{ payload: RefreshTokenPayload; refreshToken: string } | null> {
+  let payload: RefreshTokenPayload;
+  try {
+    payload = verifyRefreshToken(refreshToken);
+  } catch {
+    return null;
+  }
+  if (!Types.ObjectId.isValid(payload.sid) || !Types.ObjectId.isValid(payload.id)) return null;
+
+  const nextToken = generateRefreshToken({ id: payload.id, businessEmail: payload.businessEmail, sid: payload.sid });
+
+  const session = await Session.findOneAndUpdate(
+    { _id: payload.sid, userId: payload.id, tokenHash: hashRefreshToken(refreshToken), revokedAt: null },
+    {
+      $set: {
+        tokenHash: hashRefreshToken(nextToken),
+        ...clientInfo(req),
+        lastUsedAt: new Date(),
+        expiresAt: getTokenExpiry(nextToken),
+      },
+    }
+  );
+  if (session) {
+    return { payload, refreshToken: nextToken };
+  }
+
+  const reused = await revokeSessions({ _id: payload.sid, userId: payload.id }, 'reuse');
+  if (reused) {
+    console.warn(`[AUTH] Refresh token reuse detected; revoked session ${payload.sid} of user ${payload.id}`);
+  }
+  return null;
+}
+
+/**
+ * Active sessions of a user, most recently used first
+ * @param userId - User
+ */
+export async function listSessions(userId: string) {
+  return Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } }).sort({ lastUsedAt: -1 });
+}
+
+/**
+ * End the session a refresh token belongs to (unknown tokens are ignored)
+ * @param refreshToken - Refresh token
+ */
+export async function endSession(refreshToken: string): Promise<void> {
+  await revokeSessions({ tokenHash: hashRefreshToken(refreshToken) }, 'logout');
+}
+
+/**
+ * Revoke the active sessions matching a filter
+ * Their refresh tokens stop working, and so do the access tokens already
+ * issued for them.
+ * @param filter - Sessions to revoke (e.g. by _id or userId)
+ * @param reason - Why they were revoked
+ * @returns Number of sessions revoked
+ */
+export async function revokeSessions(filter: Record<string, unknown>, reason: SessionRevokedReason): Promise<number> {
+  const sessions = await Session.find({ ...filter, revokedAt: null }).select('_id').lean();
+  if (!sessions.length) return 0;
+
+  const ids = sessions.map(session => session._id);
+  await Session.updateMany(
+    { _id: { $in: ids }, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  await Promise.all(ids.map(id => revokeAccessTokens('session', id.toString())));
+
+  return ids.length;
+}
@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface IRateChange {
+  property: string;
+  property_token?: string;
+  ota: string;
+  channel?: string | null;
+  checkInDate: Date;
+  checkOutDate: Date;
+  los: number;
+  adults: number;
+  currency: string;
+  previousRate: number;
+  currentRate: number;
+  change: number;    // currentRate - previousRate
+  changePct: number; // change as a percentage of previousRate
+  previousShoppedAt: Date;
+  shoppedAt: Date;
+  events?: string[]; // market events covering the check-in date
+}
+
+export interface IAlertDelivery {
+  _id?: Types.ObjectId;
+  type: 'webhook' | 'email';
+  webhookId?: Types.ObjectId | null;
+  to?: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+}
+
+/**
+ * One triggered alert and its outbox of deliveries
+ * The dispatcher works through pending deliveries, retrying with backoff
+ */
+export interface IAlertEvent extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  ruleId: Types.ObjectId;
+  compSetId: Types.ObjectId;
+  ruleName: string;
+  change: IRateChange;
+  deliveries: Types.DocumentArray<IAlertDelivery & Document>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const rateChangeSchema = new Schema<IRateChange>({
+  property: { type: String, required: true },
+  property_token: String,
+  ota: { type: String, required: true },
+  channel: { type: String, default: null },
+  checkInDate: { type: Date, required: true },
+  checkOutDate: { type: Date, required: true },
+  los: Number,
+  adults: Number,
+  currency: String,
+  previousRate: Number,
+  currentRate: Number,
+  change: Number,
+  changePct: Number,
+  previousShoppedAt: Date,
+  shoppedAt: Date,
+  events: { type: [String], default: undefined },
+}, { _id: false });
+
+const alertDeliverySchema = new Schema<IAlertDelivery>({
+  type: { type: String, enum: ['webhook', 'email'], required: true },
+  webhookId: { type: Schema.Types.ObjectId, ref: 'Webhook', default: null },
+  to: { type: String, default: null },
+  status: { type: String, enum: ['pending', 'delivered', 'failed'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: () => new Date() },
+  lastError: { type: String, default: null },
+  deliveredAt: { type: Date, default: null },
+});
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const alertEventSchema = new Schema<IAlertEvent>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null, index: true },
+    ruleId: { type: Schema.Types.ObjectId, ref: 'AlertRule', required: true },
+    compSetId: { type: Schema.Types.ObjectId, ref: 'CompSet', required: true },
+    ruleName: String,
+    change: { type: rateChangeSchema, required: true },
+    deliveries: { type: [alertDeliverySchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+alertEventSchema.index({ userId: 1, createdAt: -1 });
+alertEventSchema.index({ 'deliveries.status': 1, 'deliveries.nextAttemptAt': 1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const AlertEvent: Model<IAlertEvent> =
+  mongoose.models.AlertEvent ||
+  mongoose.model<IAlertEvent>('AlertEvent', alertEventSchema);
+
+export default AlertEvent;
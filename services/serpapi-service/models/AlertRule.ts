@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type AlertDirection = 'any' | 'increase' | 'decrease';
+// Stay dates covered by an event in the comp set's market: fire on any date, only those, or all but those
+export type AlertEventDates = 'any' | 'only' | 'exclude';
+
+/**
+ * Fires when a hotel's extracted_lowest moves between two shops by more
+ * than thresholdPct percent or thresholdAmount currency units
+ */
+export interface IAlertRule extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  compSetId: Types.ObjectId;
+  name: string;
+  enabled: boolean;
+
+  // Trigger
+  thresholdPct?: number | null;
+  thresholdAmount?: number | null;
+  direction: AlertDirection;
+  channels: string[];        // channel keys to watch (empty = every channel)
+  competitorsOnly: boolean;  // ignore the comp set's own hotel
+  eventDates: AlertEventDates;
+
+  // Delivery
+  notifyWebhooks: boolean;
+  emails: string[];
+
+  lastTriggeredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const alertRuleSchema = new Schema<IAlertRule>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null, index: true },
+    compSetId: { type: Schema.Types.ObjectId, ref: 'CompSet', required: true },
+    name: { type: String, required: [true, 'Alert rule name is required'], trim: true, maxlength: 100 },
+    enabled: { type: Boolean, default: true },
+
+    thresholdPct: { type: Number, min: 0, default: null },
+    thresholdAmount: { type: Number, min: 0, default: null },
+    direction: { type: String, enum: ['any', 'increase', 'decrease'], default: 'any' },
+    channels: { type: [String], default: [] },
+    competitorsOnly: { type: Boolean, default: true },
+    eventDates: { type: String, enum: ['any', 'only', 'exclude'], default: 'any' },
+
+    notifyWebhooks: { type: Boolean, default: true },
+    emails: { type: [String], default: [] },
+
+    lastTriggeredAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+alertRuleSchema.index({ enabled: 1, compSetId: 1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const AlertRule: Model<IAlertRule> =
+  mongoose.models.AlertRule ||
+  mongoose.model<IAlertRule>('AlertRule', alertRuleSchema);
+
+export default AlertRule;
@@ -0,0 +1,168 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type BatchJobType = 'compset' | 'matrix';
+
+export interface IOccupancy {
+  adults: number;
+  childrenAges: number[];
+}
+
+/**
+ * What a matrix job shops: every stay date x length of stay x occupancy
+ */
+export interface IRateMatrix {
+  checkInFrom: string; // YYYY-MM-DD
+  checkInTo: string;   // YYYY-MM-DD, inclusive
+  los: number[];
+  occupancies: IOccupancy[];
+}
+
+export interface IBatchJobParams {
+  checkInDate: string;  // YYYY-MM-DD (first arrival for matrix jobs)
+  checkOutDate: string; // YYYY-MM-DD (last departure for matrix jobs)
+  adults: number;
+  gl: string;
+  hl: string;
+  currency: string;
+  matrix?: IRateMatrix | null;
+}
+
+/**
+ * One search: a hotel from the comp set, for the job's stay and occupancy
+ * (matrix jobs give each item its own stay and occupancy)
+ */
+export interface IBatchJobItem {
+  hotelName: string;
+  propertyToken?: string | null;
+  checkInDate?: string | null;
+  checkOutDate?: string | null;
+  los?: number | null;
+  adults?: number | null;
+  childrenAges?: number[];
+  status: BatchItemStatus;
+  databaseId?: Types.ObjectId | null;
+  updated?: boolean;
+  cached?: boolean;
+  warning?: string | null; // e.g. the response was for a different property than the pinned one
+  error?: string | null;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+}
+
+export interface IBatchJob extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  compSetId: Types.ObjectId;
+  type: BatchJobType;
+  params: IBatchJobParams;
+  status: BatchJobStatus;
+  items: IBatchJobItem[];
+  cancelRequested: boolean;
+  notBefore?: Date | null;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  error?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const batchJobParamsSchema = new Schema<IBatchJobParams>({
+  checkInDate: { type: String, required: true },
+  checkOutDate: { type: String, required: true },
+  adults: { type: Number, default: 2 },
+  gl: { type: String, default: 'us' },
+  hl: { type: String, default: 'en' },
+  currency: { type: String, default: 'USD' },
+  matrix: {
+    type: new Schema<IRateMatrix>({
+      checkInFrom: { type: String, required: true },
+      checkInTo: { type: String, required: true },
+      los: { type: [Number], required: true },
+      occupancies: {
+        type: [new Schema<IOccupancy>({
+          adults: { type: Number, required: true },
+          childrenAges: { type: [Number], default: [] },
+        }, { _id: false })],
+        required: true,
+      },
+    }, { _id: false }),
+    default: null,
+  },
+}, { _id: false });
+
+const batchJobItemSchema = new Schema<IBatchJobItem>({
+  hotelName: { type: String, required: true },
+  propertyToken: { type: String, default: null },
+  checkInDate: { type: String, default: null },
+  checkOutDate: { type: String, default: null },
+  los: { type: Number, default: null },
+  adults: { type: Number, default: null },
+  childrenAges: { type: [Number], default: undefined },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'succeeded', 'failed', 'cancelled'],
+    default: 'pending',
+  },
+  databaseId: { type: Schema.Types.ObjectId, ref: 'SerpData', default: null },
+  updated: Boolean,
+  cached: Boolean,
+  warning: { type: String, default: null },
+  error: { type: String, default: null },
+  startedAt: { type: Date, default: null },
+  finishedAt: { type: Date, default: null },
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const batchJobSchema = new Schema<IBatchJob>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null, index: true },
+    compSetId: { type: Schema.Types.ObjectId, ref: 'CompSet', required: true },
+    type: { type: String, enum: ['compset', 'matrix'], default: 'compset' },
+    params: { type: batchJobParamsSchema, required: true },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'cancelled', 'failed'],
+      default: 'queued',
+      index: true,
+    },
+    items: { type: [batchJobItemSchema], default: [] },
+
+    // Set by the cancel endpoint; the worker stops before the next hotel
+    cancelRequested: { type: Boolean, default: false },
+
+    // Set when the monthly quota ran out and the job waits for it
+    notBefore: { type: Date, default: null },
+
+    startedAt: { type: Date, default: null },
+    finishedAt: { type: Date, default: null },
+    error: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const BatchJob: Model<IBatchJob> =
+  mongoose.models.BatchJob ||
+  mongoose.model<IBatchJob>('BatchJob', batchJobSchema);
+
+export default BatchJob;
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export interface IChannel {
+  key: string;       // canonical channel ID, e.g. "expedia"
+  label: string;     // display name, e.g. "Expedia.com"
+  aliases: string[]; // featured_prices[].source values that mean this channel
+  enabled: boolean;
+}
+
+export interface IChannelConfig extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  channels: IChannel[];
+  includeBrand: boolean; // surface the official (brand.com) price as its own channel
+  brandLabel: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const channelSchema = new Schema<IChannel>({
+  key: { type: String, required: true, trim: true, lowercase: true },
+  label: { type: String, required: true, trim: true },
+  aliases: { type: [String], default: [] },
+  enabled: { type: Boolean, default: true },
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const channelConfigSchema = new Schema<IChannelConfig>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null },
+    channels: { type: [channelSchema], default: [] },
+    includeBrand: { type: Boolean, default: true },
+    brandLabel: { type: String, default: 'Brand.com', trim: true },
+  },
+  { timestamps: true }
+);
+
+// One configuration per property, and one personal configuration per user
+channelConfigSchema.index(
+  { propertyId: 1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'objectId' } } }
+);
+channelConfigSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'null' } } }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const ChannelConfig: Model<IChannelConfig> =
+  mongoose.models.ChannelConfig ||
+  mongoose.model<IChannelConfig>('ChannelConfig', channelConfigSchema);
+
+export default ChannelConfig;
@@ -0,0 +1,122 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export interface ICompSetHotel {
+  name: string;
+  // Pinned property (confirmed from GET /api/properties/search); shops use it instead of the name
+  property_token?: string | null;
+  address?: string | null;
+  gps_coordinates?: { latitude?: number; longitude?: number } | null;
+}
+
+export interface ICompSet extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  name: string;
+  hotel: ICompSetHotel;
+  competitors: ICompSetHotel[];
+  market?: string | null; // e.g. "waupaca, wi"; links the comp set to MarketEvent records
+  isDefault: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const compSetHotelSchema = new Schema<ICompSetHotel>({
+  name: {
+    type: String,
+    required: [true, 'Hotel name is required'],
+    trim: true,
+  },
+  property_token: { type: String, default: null },
+  address: { type: String, default: null },
+  gps_coordinates: {
+    type: new Schema({ latitude: Number, longitude: Number }, { _id: false }),
+    default: null,
+  },
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const compSetSchema = new Schema<ICompSet>(
+  {
+    // Owner (IUser._id from the auth service)
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required'],
+      index: true,
+    },
+
+    // Property the comp set belongs to (null = the owner's personal comp set)
+    propertyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Property',
+      default: null,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Comp set name is required'],
+      trim: true,
+    },
+
+    // The owner's own property
+    hotel: {
+      type: compSetHotelSchema,
+      required: [true, 'Own hotel is required'],
+    },
+
+    // Competing properties
+    competitors: {
+      type: [compSetHotelSchema],
+      default: [],
+    },
+
+    // Market the comp set competes in (matches MarketEvent.market)
+    market: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      default: null,
+    },
+
+    // Comp set used when a request doesn't name one
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { timestamps: true }
+);
+
+// Names are unique per property, and among a user's personal comp sets
+compSetSchema.index(
+  { propertyId: 1, name: 1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'objectId' } } }
+);
+compSetSchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'null' } } }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const CompSet: Model<ICompSet> =
+  mongoose.models.CompSet ||
+  mongoose.model<ICompSet>('CompSet', compSetSchema);
+
+export default CompSet;
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type FxRateSource = 'file' | 'upload';
+
+/**
+ * One daily exchange rate: 1 unit of base buys `rate` units of quote
+ */
+export interface IFxRate extends Document {
+  date: string;  // YYYY-MM-DD
+  base: string;  // ISO 4217, e.g. "USD"
+  quote: string; // ISO 4217, e.g. "EUR"
+  rate: number;
+  source: FxRateSource;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const fxRateSchema = new Schema<IFxRate>(
+  {
+    date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    base: { type: String, required: true, uppercase: true, trim: true },
+    quote: { type: String, required: true, uppercase: true, trim: true },
+    rate: { type: Number, required: true, min: 0 },
+    source: { type: String, enum: ['file', 'upload'], required: true },
+  },
+  { timestamps: true }
+);
+
+fxRateSchema.index({ date: 1, base: 1, quote: 1 }, { unique: true });
+fxRateSchema.index({ quote: 1, date: -1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const FxRate: Model<IFxRate> =
+  mongoose.models.FxRate ||
+  mongoose.model<IFxRate>('FxRate', fxRateSchema);
+
+export default FxRate;
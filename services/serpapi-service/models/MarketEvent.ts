@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type EventCategory = 'holiday' | 'conference' | 'sports' | 'concert' | 'festival' | 'other';
+export type EventImpact = 'low' | 'medium' | 'high';
+export type EventSource = 'manual' | 'ics' | 'csv';
+
+/**
+ * A local event or holiday that drives demand in a market
+ * Dates are stay dates: the event covers every night from startDate to endDate
+ */
+export interface IMarketEvent extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  market: string;      // e.g. "waupaca, wi" (stored lowercase; matches CompSet.market)
+  name: string;
+  category: EventCategory;
+  impact: EventImpact;
+  startDate: string;   // YYYY-MM-DD
+  endDate: string;     // YYYY-MM-DD, inclusive
+  notes?: string | null;
+  source: EventSource;
+  externalId?: string | null; // ICS UID, so re-importing a feed updates instead of duplicating
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const marketEventSchema = new Schema<IMarketEvent>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null },
+    market: { type: String, required: [true, 'Market is required'], trim: true, lowercase: true },
+    name: { type: String, required: [true, 'Event name is required'], trim: true, maxlength: 200 },
+    category: {
+      type: String,
+      enum: ['holiday', 'conference', 'sports', 'concert', 'festival', 'other'],
+      default: 'other',
+    },
+    impact: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' },
+    startDate: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    endDate: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    notes: { type: String, default: null, maxlength: 2000 },
+    source: { type: String, enum: ['manual', 'ics', 'csv'], default: 'manual' },
+    externalId: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+marketEventSchema.index({ userId: 1, market: 1, startDate: 1 });
+marketEventSchema.index({ propertyId: 1, market: 1, startDate: 1 });
+marketEventSchema.index(
+  { propertyId: 1, market: 1, externalId: 1 },
+  { unique: true, partialFilterExpression: { externalId: { $type: 'string' }, propertyId: { $type: 'objectId' } } }
+);
+marketEventSchema.index(
+  { userId: 1, market: 1, externalId: 1 },
+  { unique: true, partialFilterExpression: { externalId: { $type: 'string' }, propertyId: { $type: 'null' } } }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const MarketEvent: Model<IMarketEvent> =
+  mongoose.models.MarketEvent ||
+  mongoose.model<IMarketEvent>('MarketEvent', marketEventSchema);
+
+export default MarketEvent;
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { EventImpact } from './MarketEvent';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+// Comp set statistic a rule prices from ('own' = the hotel's current rate)
+export type PricingBase = 'median' | 'min' | 'max' | 'average' | 'own';
+export type PricingAdjustmentType = 'amount' | 'percent';
+
+/**
+ * Stay dates a rule applies to (all given conditions must hold; none = every date)
+ */
+export interface IPricingConditions {
+  daysOfWeek?: number[]; // 0 = Sunday … 6 = Saturday
+  dates?: string[];      // YYYY-MM-DD, e.g. event dates
+  dateFrom?: string;     // YYYY-MM-DD, inclusive
+  dateTo?: string;       // YYYY-MM-DD, inclusive
+  onEventDates?: boolean; // true = only dates with a market event, false = only dates without one
+  minEventImpact?: EventImpact; // events below this impact are ignored (default: all)
+}
+
+/**
+ * Suggested rate = base statistic + adjustment
+ * e.g. { base: 'median', adjustment: { type: 'amount', value: -5 } } = $5 below the comp median
+ */
+export interface IPricingRule {
+  name: string;
+  enabled: boolean;
+  conditions: IPricingConditions;
+  base: PricingBase;
+  adjustment: { type: PricingAdjustmentType; value: number };
+}
+
+/**
+ * One immutable version of a user's pricing rules
+ * Rules are tried in order and the first match prices the date; the result
+ * is then held between floor and ceiling. Saving creates a new version.
+ */
+export interface IPricingRuleSet extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  version: number;
+  name: string;
+  note?: string | null;
+  rules: IPricingRule[];
+  floor?: number | null;
+  ceiling?: number | null;
+  currency?: string | null; // rates are converted to this currency before pricing
+  rounding?: number | null; // round suggestions to a multiple of this, e.g. 1 or 5
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const pricingConditionsSchema = new Schema<IPricingConditions>({
+  daysOfWeek: { type: [Number], default: undefined },
+  dates: { type: [String], default: undefined },
+  dateFrom: String,
+  dateTo: String,
+  onEventDates: Boolean,
+  minEventImpact: { type: String, enum: ['low', 'medium', 'high'] },
+}, { _id: false });
+
+const pricingRuleSchema = new Schema<IPricingRule>({
+  name: { type: String, required: [true, 'Rule name is required'], trim: true, maxlength: 100 },
+  enabled: { type: Boolean, default: true },
+  conditions: { type: pricingConditionsSchema, default: () => ({}) },
+  base: { type: String, enum: ['median', 'min', 'max', 'average', 'own'], required: true },
+  adjustment: {
+    type: new Schema({
+      type: { type: String, enum: ['amount', 'percent'], default: 'amount' },
+      value: { type: Number, default: 0 },
+    }, { _id: false }),
+    default: () => ({ type: 'amount', value: 0 }),
+  },
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const pricingRuleSetSchema = new Schema<IPricingRuleSet>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null },
+    version: { type: Number, required: true, min: 1 },
+    name: { type: String, default: 'Pricing rules', trim: true, maxlength: 100 },
+    note: { type: String, default: null, maxlength: 500 },
+    rules: { type: [pricingRuleSchema], default: [] },
+    floor: { type: Number, min: 0, default: null },
+    ceiling: { type: Number, min: 0, default: null },
+    currency: { type: String, uppercase: true, default: null },
+    rounding: { type: Number, min: 0, default: null },
+  },
+  { timestamps: true }
+);
+
+// Versions are numbered per property, and per user for personal rules
+pricingRuleSetSchema.index(
+  { propertyId: 1, version: -1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'objectId' } } }
+);
+pricingRuleSetSchema.index(
+  { userId: 1, version: -1 },
+  { unique: true, partialFilterExpression: { propertyId: { $type: 'null' } } }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const PricingRuleSet: Model<IPricingRuleSet> =
+  mongoose.models.PricingRuleSet ||
+  mongoose.model<IPricingRuleSet>('PricingRuleSet', pricingRuleSetSchema);
+
+export default PricingRuleSet;
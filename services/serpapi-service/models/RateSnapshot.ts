@@ -0,0 +1,107 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { IPrice } from './SerpData';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * One OTA's price for one property and stay, as seen at one shop.
+ * Snapshots are append-only: every fetch adds new documents and
+ * nothing ever rewrites them, so the price history is preserved.
+ */
+export interface IRateSnapshot extends Document {
+  property: string;
+  property_token?: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  los: number;
+  adults: number;
+  children: number;
+  ota: string;
+  official: boolean;
+  currency: string;
+  gl?: string;
+  rate_per_night?: IPrice;
+  total_rate?: IPrice;
+  shoppedAt: Date;
+  serpDataId?: Types.ObjectId | null;
+  searchId?: string;
+  createdAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const snapshotPriceSchema = new Schema<IPrice>({
+  lowest: String,
+  extracted_lowest: Number,
+  before_taxes_fees: String,
+  extracted_before_taxes_fees: Number,
+  highest: String,
+  extracted_highest: Number,
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const rateSnapshotSchema = new Schema<IRateSnapshot>(
+  {
+    // Property
+    property: { type: String, required: true, trim: true },
+    property_token: String,
+
+    // Stay
+    checkInDate: { type: Date, required: true },
+    checkOutDate: { type: Date, required: true },
+    los: { type: Number, required: true },
+
+    // Occupancy
+    adults: { type: Number, required: true },
+    children: { type: Number, default: 0 },
+
+    // Channel
+    ota: { type: String, required: true },
+    official: { type: Boolean, default: false },
+
+    // Price
+    currency: { type: String, required: true },
+    gl: String,
+    rate_per_night: snapshotPriceSchema,
+    total_rate: snapshotPriceSchema,
+
+    // When the shop happened
+    shoppedAt: { type: Date, required: true },
+
+    // Source records
+    serpDataId: { type: Schema.Types.ObjectId, ref: 'SerpData', default: null },
+    searchId: String,
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+rateSnapshotSchema.index({ property: 1, checkInDate: 1, los: 1, adults: 1, ota: 1, shoppedAt: -1 });
+rateSnapshotSchema.index({ property_token: 1, checkInDate: 1, los: 1, adults: 1, ota: 1, shoppedAt: -1 });
+
+// Append-only: refuse any attempt to modify existing snapshots
+rateSnapshotSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  function () {
+    throw new Error('RateSnapshot documents are append-only');
+  }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const RateSnapshot: Model<IRateSnapshot> =
+  mongoose.models.RateSnapshot ||
+  mongoose.model<IRateSnapshot>('RateSnapshot', rateSnapshotSchema);
+
+export default RateSnapshot;
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export interface IStayWindow {
+  startOffsetDays: number; // first stay date, in days from the run date (0 = today)
+  nights: number;          // number of consecutive stay dates to shop
+}
+
+export type JobRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface IScheduledJob extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  compSetId: Types.ObjectId;
+  name: string;
+  stayWindow: IStayWindow;
+  los: number;
+  adults: number;
+  gl: string;
+  hl: string;
+  currency: string;
+  cadence: string;
+  enabled: boolean;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastRunStatus?: JobRunStatus | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const stayWindowSchema = new Schema<IStayWindow>({
+  startOffsetDays: { type: Number, min: 0, default: 0 },
+  nights: { type: Number, min: 1, max: 365, required: true },
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const scheduledJobSchema = new Schema<IScheduledJob>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null, index: true },
+    compSetId: { type: Schema.Types.ObjectId, ref: 'CompSet', required: true },
+    name: { type: String, required: [true, 'Job name is required'], trim: true },
+
+    // What to shop
+    stayWindow: { type: stayWindowSchema, required: true },
+    los: { type: Number, min: 1, default: 1 },
+    adults: { type: Number, min: 1, default: 2 },
+    gl: { type: String, default: 'us' },
+    hl: { type: String, default: 'en' },
+    currency: { type: String, default: 'USD' },
+
+    // When to shop (cron expression, UTC)
+    cadence: { type: String, required: [true, 'Cadence is required'] },
+    enabled: { type: Boolean, default: true },
+
+    // Scheduler bookkeeping
+    nextRunAt: { type: Date, default: null },
+    lastRunAt: { type: Date, default: null },
+    lastRunStatus: {
+      type: String,
+      enum: ['running', 'succeeded', 'partial', 'failed', null],
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+scheduledJobSchema.index({ enabled: 1, nextRunAt: 1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const ScheduledJob: Model<IScheduledJob> =
+  mongoose.models.ScheduledJob ||
+  mongoose.model<IScheduledJob>('ScheduledJob', scheduledJobSchema);
+
+export default ScheduledJob;
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { JobRunStatus } from './ScheduledJob';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export interface IRunError {
+  hotelName: string;
+  checkInDate: string;
+  message: string;
+}
+
+export interface IScheduledJobRun extends Document {
+  jobId: Types.ObjectId;
+  userId: Types.ObjectId;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date | null;
+  stayDateFrom: string;
+  stayDateTo: string;
+  totalSearches: number;
+  successCount: number;
+  failureCount: number;
+  runErrors: IRunError[];
+  error?: string | null;
+}
+
+
+// ---------------------------- //
+//       SUB-SCHEMAS
+// ---------------------------- //
+
+const runErrorSchema = new Schema<IRunError>({
+  hotelName: String,
+  checkInDate: String,
+  message: String,
+}, { _id: false });
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const scheduledJobRunSchema = new Schema<IScheduledJobRun>(
+  {
+    jobId: { type: Schema.Types.ObjectId, ref: 'ScheduledJob', required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    trigger: { type: String, enum: ['schedule', 'manual'], default: 'schedule' },
+    status: {
+      type: String,
+      enum: ['running', 'succeeded', 'partial', 'failed'],
+      default: 'running',
+    },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, default: null },
+
+    // Stay dates covered by this run (YYYY-MM-DD)
+    stayDateFrom: String,
+    stayDateTo: String,
+
+    totalSearches: { type: Number, default: 0 },
+    successCount: { type: Number, default: 0 },
+    failureCount: { type: Number, default: 0 },
+    runErrors: { type: [runErrorSchema], default: [] },
+
+    // Fatal error that stopped the run
+    error: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+scheduledJobRunSchema.index({ jobId: 1, startedAt: -1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const ScheduledJobRun: Model<IScheduledJobRun> =
+  mongoose.models.ScheduledJobRun ||
+  mongoose.model<IScheduledJobRun>('ScheduledJobRun', scheduledJobRunSchema);
+
+export default ScheduledJobRun;
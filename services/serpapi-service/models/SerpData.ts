@@ -375,6 +375,10 @@ const serpDataSchema = new Schema<ISerpData>(
   { timestamps: true }
 );
 
+// Calendar queries filter by hotel/date and page in check-in order
+serpDataSchema.index({ 'search_parameters.check_in_date': 1, _id: 1 });
+serpDataSchema.index({ name: 1, 'search_parameters.check_in_date': 1 });
+
 
 // ---------------------------- //
 //        MODEL EXPORT
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type QuotaAction = 'reject' | 'queue';
+
+export interface IUsageQuota extends Document {
+  userId: Types.ObjectId;
+  monthlyLimit: number | null; // credits per calendar month (UTC); null = unlimited
+  action: QuotaAction;         // what happens to work once the limit is reached
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const usageQuotaSchema = new Schema<IUsageQuota>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
+    monthlyLimit: { type: Number, min: 0, default: null },
+    action: { type: String, enum: ['reject', 'queue'], default: 'reject' },
+  },
+  { timestamps: true }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const UsageQuota: Model<IUsageQuota> =
+  mongoose.models.UsageQuota ||
+  mongoose.model<IUsageQuota>('UsageQuota', usageQuotaSchema);
+
+export default UsageQuota;
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export type UsageJobType = 'manual' | 'batch' | 'schedule';
+export type UsageOperation = 'rates' | 'property_search';
+
+/**
+ * One outbound call to a rate provider (one paid search for SerpAPI)
+ * Cache hits never reach the provider and are not recorded.
+ */
+export interface IUsageRecord extends Document {
+  userId?: Types.ObjectId | null;
+  compSetId?: Types.ObjectId | null;
+  jobType: UsageJobType;
+  jobId?: Types.ObjectId | null;
+  operation: UsageOperation;
+  provider: string;
+  hotelName: string;
+  hotelQuery: string;
+  checkInDate: string;  // YYYY-MM-DD
+  checkOutDate: string; // YYYY-MM-DD
+  adults: number;
+  credits: number;
+  status: 'success' | 'error';
+  error?: string | null;
+  createdAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const usageRecordSchema = new Schema<IUsageRecord>(
+  {
+    // Attribution
+    userId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    compSetId: { type: Schema.Types.ObjectId, ref: 'CompSet', default: null },
+    jobType: { type: String, enum: ['manual', 'batch', 'schedule'], required: true },
+    jobId: { type: Schema.Types.ObjectId, default: null },
+
+    // Search
+    operation: { type: String, enum: ['rates', 'property_search'], default: 'rates' },
+    provider: { type: String, required: true },
+    hotelName: { type: String, required: true },
+    hotelQuery: { type: String, required: true },
+    checkInDate: { type: String, required: true },
+    checkOutDate: { type: String, required: true },
+    adults: { type: Number, required: true },
+
+    // Cost
+    credits: { type: Number, default: 1 },
+    status: { type: String, enum: ['success', 'error'], required: true },
+    error: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+usageRecordSchema.index({ userId: 1, compSetId: 1, createdAt: -1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const UsageRecord: Model<IUsageRecord> =
+  mongoose.models.UsageRecord ||
+  mongoose.model<IUsageRecord>('UsageRecord', usageRecordSchema);
+
+export default UsageRecord;
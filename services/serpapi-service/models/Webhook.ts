@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+export interface IWebhook extends Document {
+  userId: Types.ObjectId;
+  propertyId?: Types.ObjectId | null; // property the document belongs to (null = the user's personal data)
+  url: string;
+  secret: string; // HMAC-SHA256 signing key, only returned when created
+  description?: string;
+  enabled: boolean;
+  lastDeliveryAt?: Date | null;
+  lastDeliveryStatus?: 'delivered' | 'failed' | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    propertyId: { type: Schema.Types.ObjectId, ref: 'Property', default: null, index: true },
+    url: { type: String, required: [true, 'Webhook URL is required'], trim: true },
+    secret: { type: String, required: true, select: false },
+    description: { type: String, trim: true, maxlength: 200 },
+    enabled: { type: Boolean, default: true },
+    lastDeliveryAt: { type: Date, default: null },
+    lastDeliveryStatus: { type: String, enum: ['delivered', 'failed', null], default: null },
+  },
+  { timestamps: true }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+const Webhook: Model<IWebhook> =
+  mongoose.models.Webhook ||
+  mongoose.model<IWebhook>('Webhook', webhookSchema);
+
+export default Webhook;
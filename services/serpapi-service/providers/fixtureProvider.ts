@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { IFeaturedPrice } from '../models/SerpData';
+import { Clock, systemClock } from '../utils/clock';
+import { formatHotelQuery } from '../utils/formatters';
+import {
+  RateProvider,
+  RateQuery,
+  RateProviderResult,
+  NormalizedRates,
+  PropertySearchQuery,
+  PropertyCandidate,
+} from './types';
+
+export interface FixtureProviderOptions {
+  clock?: Clock;
+  otas?: string[]; // sources to generate prices for (besides the official one)
+}
+
+const DEFAULT_OTAS = ['Booking.com', 'Expedia.com', 'Hotels.com', 'Agoda'];
+const TAX_RATE = 0.12;
+
+/**
+ * Stable pseudo-random integer for a string
+ */
+function hashToInt(value: string): number {
+  return parseInt(crypto.createHash('sha256').update(value).digest('hex').slice(0, 8), 16);
+}
+
+/**
+ * Property token the fixture provider uses for a hotel query
+ */
+function fixtureToken(hotelQuery: string): string {
+  return `fixture-${hashToInt(hotelQuery).toString(16)}`;
+}
+
+/**
+ * Rates generated from the query alone: the same hotel, stay and occupancy
+ * always produce the same prices. No network access, no API key.
+ * Used for tests and local development (RATE_PROVIDER=fixture).
+ */
+export class FixtureProvider implements RateProvider {
+  readonly name = 'fixture';
+  private readonly clock: Clock;
+  private readonly otas: string[];
+
+  constructor(options: FixtureProviderOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.otas = options.otas || DEFAULT_OTAS;
+  }
+
+  async fetchRates(query: RateQuery): Promise<RateProviderResult> {
+    const rates = this.buildRates(query);
+    return { provider: this.name, raw: rates, rates };
+  }
+
+  /**
+   * The property named in the query, plus a same-named one in another town
+   * so resolution flows have something to choose between
+   */
+  async searchProperties(query: PropertySearchQuery): Promise<PropertyCandidate[]> {
+    const name = query.query.trim();
+    const key = formatHotelQuery(name);
+    const hash = hashToInt(key);
+    const latitude = 25 + (hash % 2000) / 100;
+    const longitude = -(70 + (hash % 5000) / 100);
+
+    return [
+      {
+        name,
+        property_token: fixtureToken(key),
+        address: `${100 + (hash % 900)} Main St`,
+        gps_coordinates: { latitude, longitude },
+        type: 'hotel',
+      },
+      {
+        name: `${name} (Airport)`,
+        property_token: fixtureToken(`${key}+airport`),
+        address: `${1 + (hash % 99)} Airport Rd`,
+        gps_coordinates: { latitude: latitude + 0.2, longitude: longitude - 0.2 },
+        type: 'hotel',
+      },
+    ];
+  }
+
+  /**
+   * Generate the normalized rates for a query
+   * @param query - Rate query
+   * @returns Deterministic rates (only the timestamps come from the clock)
+   */
+  buildRates(query: RateQuery): NormalizedRates {
+    const propertyKey = query.hotelQuery || query.hotelName.toLowerCase();
+    const checkIn = new Date(`${query.checkInDate}T00:00:00Z`);
+    const checkOut = new Date(`${query.checkOutDate}T00:00:00Z`);
+
+    // Base rate per property, weekend uplift and extra-guest surcharges
+    const base = 80 + (hashToInt(propertyKey) % 140);
+    const weekend = [5, 6].includes(checkIn.getUTCDay()) ? 1.15 : 1;
+    const children = query.childrenAges?.length ?? 0;
+    const occupancy = 1 + (query.adults - 2) * 0.08 + children * 0.05;
+    const official = Math.round(base * weekend * occupancy);
+
+    const price = (source: string, rate: number, isOfficial = false): IFeaturedPrice => {
+      const beforeTaxes = Math.round(rate / (1 + TAX_RATE));
+      return {
+        source,
+        official: isOfficial,
+        rate_per_night: {
+          lowest: `$${rate}`,
+          extracted_lowest: rate,
+          before_taxes_fees: `$${beforeTaxes}`,
+          extracted_before_taxes_fees: beforeTaxes,
+        },
+      };
+    };
+
+    const featured_prices = [
+      price(query.hotelName, official, true),
+      ...this.otas.map(ota => {
+        // Each OTA sits between 8% below and 7% above the official rate for this stay
+        const offset = (hashToInt(`${propertyKey}|${ota}|${query.checkInDate}|${query.adults}|${children}`) % 16) - 8;
+        return price(ota, Math.round(official * (1 + offset / 100)));
+      }),
+    ];
+
+    const now = this.clock.now();
+
+    return {
+      search_metadata: {
+        id: `fixture_${hashToInt(`${propertyKey}|${query.checkInDate}|${query.checkOutDate}|${query.adults}|${now.getTime()}`).toString(16)}`,
+        status: 'Success',
+        created_at: now,
+        processed_at: now,
+        total_time_taken: 0,
+      },
+      search_parameters: {
+        engine: this.name,
+        q: query.hotelQuery,
+        gl: query.gl,
+        hl: query.hl,
+        currency: query.currency,
+        check_in_date: checkIn,
+        check_out_date: checkOut,
+        adults: query.adults,
+        children,
+      },
+      name: query.hotelName,
+      property_token: query.propertyToken || fixtureToken(propertyKey),
+      featured_prices,
+      prices: [],
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { RateProvider } from './types';
+import { SerpApiProvider } from './serpApiProvider';
+import { FixtureProvider } from './fixtureProvider';
+
+export * from './types';
+export { SerpApiProvider } from './serpApiProvider';
+export { FixtureProvider } from './fixtureProvider';
+
+type RateProviderFactory = () => RateProvider;
+
+const factories = new Map<string, RateProviderFactory>([
+  ['serpapi', () => new SerpApiProvider()],
+  ['fixture', () => new FixtureProvider()],
+]);
+
+const instances = new Map<string, RateProvider>();
+
+/**
+ * Make a provider available by name
+ * @param name - Provider name (used in RATE_PROVIDER)
+ * @param factory - Creates the provider on first use
+ */
+export function registerRateProvider(name: string, factory: RateProviderFactory): void {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+/**
+ * Names of every registered provider
+ */
+export function listRateProviders(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Provider by name, or the one selected by RATE_PROVIDER (default: serpapi)
+ * @param name - Provider name
+ * @returns Rate provider
+ * @throws Error if no provider is registered under the name
+ */
+export function getRateProvider(name: string = process.env.RATE_PROVIDER || 'serpapi'): RateProvider {
+  let provider = instances.get(name);
+  if (provider) return provider;
+
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown rate provider "${name}". Available: ${listRateProviders().join(', ')}`);
+  }
+
+  provider = factory();
+  instances.set(name, provider);
+  return provider;
+}
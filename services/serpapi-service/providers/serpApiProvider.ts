@@ -0,0 +1,64 @@
+import { fetchHotelRates, searchHotelProperties } from '../utils/serpapi';
+import { transformSerpApiResponse, extractPropertyCandidates } from '../utils/transformers';
+import { SerpApiError } from '../utils/serpapiErrors';
+import {
+  RateProvider,
+  RateQuery,
+  RateProviderResult,
+  PropertySearchQuery,
+  PropertyCandidate,
+} from './types';
+
+/**
+ * Google Hotels rates through SerpAPI
+ */
+export class SerpApiProvider implements RateProvider {
+  readonly name = 'serpapi';
+
+  async fetchRates(query: RateQuery): Promise<RateProviderResult> {
+    const raw = await fetchHotelRates({
+      hotelQuery: query.hotelQuery,
+      checkInDate: query.checkInDate,
+      checkOutDate: query.checkOutDate,
+      gl: query.gl,
+      hl: query.hl,
+      currency: query.currency,
+      adults: query.adults,
+      childrenAges: query.childrenAges,
+      propertyToken: query.propertyToken,
+    });
+
+    const rates = transformSerpApiResponse(raw, {
+      hotelQuery: query.hotelQuery,
+      checkInDate: query.checkInDate,
+      checkOutDate: query.checkOutDate,
+      gl: query.gl,
+      hl: query.hl,
+      currency: query.currency,
+      adults: query.adults,
+      childrenAges: query.childrenAges,
+      propertyToken: query.propertyToken,
+    });
+
+    return { provider: this.name, raw, rates };
+  }
+
+  async searchProperties(query: PropertySearchQuery): Promise<PropertyCandidate[]> {
+    try {
+      const raw = await searchHotelProperties({
+        // SerpAPI handles punctuation itself; keep the name as typed
+        hotelQuery: query.query.trim(),
+        checkInDate: query.checkInDate,
+        checkOutDate: query.checkOutDate,
+        gl: query.gl,
+        hl: query.hl,
+        currency: query.currency,
+      });
+      return extractPropertyCandidates(raw);
+    } catch (error) {
+      // Nothing matched: no candidates rather than a failure
+      if (error instanceof SerpApiError && error.kind === 'no_results') return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { IFeaturedPrice } from '../models/SerpData';
+
+/**
+ * What to shop: one property, one stay, one occupancy
+ */
+export interface RateQuery {
+  hotelName: string;
+  hotelQuery: string;    // formatHotelQuery(hotelName)
+  propertyToken?: string; // pinned property: shop exactly this hotel instead of the best name match
+  checkInDate: string;   // YYYY-MM-DD
+  checkOutDate: string;  // YYYY-MM-DD
+  adults: number;
+  childrenAges?: number[]; // one age (0-17) per child
+  gl: string;
+  hl: string;
+  currency: string;
+}
+
+/**
+ * Provider-independent rates for one property and stay
+ * Matches the SerpData document shape, so anything a provider returns can
+ * be stored, snapshotted and reported on without knowing where it came from.
+ * Providers may add further property details (address, images, ...).
+ */
+export interface NormalizedRates {
+  search_metadata: {
+    id: string;
+    created_at: Date;
+    status?: string;
+    processed_at?: Date;
+    total_time_taken?: number;
+    [key: string]: unknown;
+  };
+  search_parameters: {
+    engine: string;        // provider name (or upstream engine)
+    q: string;
+    gl: string;
+    hl: string;
+    currency: string;
+    check_in_date: Date;
+    check_out_date: Date;
+    adults: number;
+    children: number;
+  };
+  name?: string;
+  property_token?: string;
+  featured_prices: IFeaturedPrice[];
+  prices: IFeaturedPrice[];
+  [key: string]: unknown;
+}
+
+/**
+ * What to look up when resolving a hotel name to a property
+ */
+export interface PropertySearchQuery {
+  query: string;         // hotel name as the user typed it
+  checkInDate: string;   // YYYY-MM-DD; some providers need a stay to search
+  checkOutDate: string;  // YYYY-MM-DD
+  gl: string;
+  hl: string;
+  currency: string;
+}
+
+/**
+ * A property a hotel name may refer to, for the user to confirm
+ */
+export interface PropertyCandidate {
+  name: string;
+  property_token: string;
+  address?: string;
+  gps_coordinates?: { latitude?: number; longitude?: number };
+  type?: string;
+  hotel_class?: string;
+  overall_rating?: number;
+  reviews?: number;
+  link?: string;
+}
+
+export interface RateProviderResult {
+  provider: string;
+  raw: unknown;            // the provider's own response, returned to API callers as-is
+  rates: NormalizedRates;
+}
+
+/**
+ * A source of hotel rates (shopping API, CSV upload, PMS export, ...)
+ */
+export interface RateProvider {
+  readonly name: string;
+  fetchRates(query: RateQuery): Promise<RateProviderResult>;
+  searchProperties?(query: PropertySearchQuery): Promise<PropertyCandidate[]>;
+}
@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import AlertRule from '../models/AlertRule';
+import AlertEvent from '../models/AlertEvent';
+import CompSet from '../models/CompSet';
+import Webhook from '../models/Webhook';
+import {
+  validateCreateAlertRule,
+  validateUpdateAlertRule,
+  validateCreateWebhook,
+  validateUpdateWebhook,
+  validateAlertEventsQuery,
+  missingThresholdProblem,
+} from '../validators/alerts';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+// ---------------------------- //
+//          ALERT RULES
+// ---------------------------- //
+
+/**
+ * List the caller's alert rules
+ * GET /api/alerts/rules
+ */
+router.get('/rules', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const rules = await AlertRule.find(scopeFilter(resourceScope(req))).sort({ createdAt: 1 });
+    return res.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('List alert rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create an alert rule
+ * POST /api/alerts/rules
+ */
+router.post('/rules', validateCreateAlertRule, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = resourceScope(req);
+
+    const compSet = await CompSet.exists({ _id: req.body.compSetId, ...scopeFilter(scope) });
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    // Email the account owner unless told otherwise
+    const rule = await AlertRule.create({
+      ...req.body,
+      emails: req.body.emails ?? [req.user!.businessEmail],
+      ...scope,
+    });
+
+    return res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Get an alert rule
+ * GET /api/alerts/rules/:id
+ */
+router.get('/rules/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid alert rule ID' });
+    }
+
+    const rule = await AlertRule.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+
+    return res.json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Get alert rule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update an alert rule
+ * PUT /api/alerts/rules/:id
+ */
+router.put('/rules/:id', validateUpdateAlertRule, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const scope = resourceScope(req);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid alert rule ID' });
+    }
+
+    if (req.body.compSetId) {
+      const compSet = await CompSet.exists({ _id: req.body.compSetId, ...scopeFilter(scope) });
+      if (!compSet) {
+        return res.status(404).json({ success: false, error: 'Comp set not found' });
+      }
+    }
+
+    const rule = await AlertRule.findOne({ _id: id, ...scopeFilter(scope) });
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+
+    // Both thresholds may not end up cleared, whichever the request changed
+    rule.set(req.body);
+    const problem = missingThresholdProblem(rule);
+    if (problem) {
+      return res.status(400).json({ success: false, error: problem });
+    }
+    await rule.save();
+
+    return res.json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Delete an alert rule
+ * DELETE /api/alerts/rules/:id
+ */
+router.delete('/rules/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid alert rule ID' });
+    }
+
+    const rule = await AlertRule.findOneAndDelete({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+
+    return res.json({ success: true, message: 'Alert rule deleted' });
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ---------------------------- //
+//           WEBHOOKS
+// ---------------------------- //
+
+/**
+ * List the caller's webhooks (secrets are never returned here)
+ * GET /api/alerts/webhooks
+ */
+router.get('/webhooks', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const webhooks = await Webhook.find(scopeFilter(resourceScope(req))).sort({ createdAt: 1 });
+    return res.json({ success: true, data: webhooks });
+  } catch (error) {
+    console.error('List webhooks error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Register a webhook; the signing secret is only returned in this response
+ * POST /api/alerts/webhooks
+ */
+router.post('/webhooks', validateCreateWebhook, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    const webhook = await Webhook.create({ ...req.body, secret, ...resourceScope(req) });
+
+    return res.status(201).json({ success: true, data: { ...webhook.toObject(), secret } });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update a webhook
+ * PUT /api/alerts/webhooks/:id
+ */
+router.put('/webhooks/:id', validateUpdateWebhook, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: id, ...scopeFilter(resourceScope(req)) },
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+    if (!webhook) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+
+    return res.json({ success: true, data: webhook });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Delete a webhook
+ * DELETE /api/alerts/webhooks/:id
+ */
+router.delete('/webhooks/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await Webhook.findOneAndDelete({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!webhook) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+
+    return res.json({ success: true, message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ---------------------------- //
+//            EVENTS
+// ---------------------------- //
+
+/**
+ * Recent alerts with their delivery status, newest first
+ * GET /api/alerts/events?ruleId=...&limit=50
+ */
+router.get('/events', validateAlertEventsQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { ruleId, limit } = req.query as unknown as { ruleId?: string; limit: number };
+
+    const events = await AlertEvent.find({ ...scopeFilter(resourceScope(req)), ...(ruleId && { ruleId }) })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    return res.json({ success: true, data: events });
+  } catch (error) {
+    console.error('List alert events error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, resourceScope, AuthenticatedRequest } from '../../../shared';
+import { validateRateIndexQuery } from '../validators/analytics';
+import { findCompSet } from '../utils/compsets';
+import { getRateIndex, resolveStayDateRange, MAX_RANGE_DAYS } from '../utils/rateIndex';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Own rate against the comp set (median, min, max, average, rank) per stay date
+ * Stay dates default to the next 30 days; the comp set to the caller's default.
+ * GET /api/analytics/rate-index?compSetId=...&checkInFrom=2025-12-01&checkInTo=2025-12-31&los=1&adults=2&bandLow=95&bandHigh=105&window=7
+ */
+router.get('/rate-index', validateRateIndexQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { compSetId, checkInFrom, checkInTo, los, adults, displayCurrency, bandLow, bandHigh, window } =
+      req.query as unknown as {
+        compSetId?: string;
+        checkInFrom?: string;
+        checkInTo?: string;
+        los: number;
+        adults: number;
+        displayCurrency?: string;
+        bandLow: number;
+        bandHigh: number;
+        window: number;
+      };
+
+    const compSet = await findCompSet(resourceScope(req), compSetId);
+    if (!compSet) {
+      return res.status(404).json({
+        success: false,
+        error: compSetId ? 'Comp set not found' : 'No comp set configured. Create one via /api/compsets',
+      });
+    }
+
+    // Defaults are filled in here, so the validator only saw one end of the range
+    const range = resolveStayDateRange(checkInFrom, checkInTo);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `checkInTo must be on or after checkInFrom and within ${MAX_RANGE_DAYS} days of it`,
+      });
+    }
+
+    const data = await getRateIndex(compSet, {
+      ...range,
+      los,
+      adults,
+      displayCurrency,
+      band: { low: bandLow, high: bandHigh },
+      window,
+    });
+    return res.json({ success: true, data: { compSetId: compSet._id, compSetName: compSet.name, ...data } });
+  } catch (error) {
+    console.error('Rate index error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to build rate index' });
+  }
+});
+
+export default router;
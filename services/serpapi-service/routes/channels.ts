@@ -0,0 +1,63 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import ChannelConfig from '../models/ChannelConfig';
+import { validateUpdateChannelConfig } from '../validators/channels';
+import { getChannelConfig, listChannels } from '../utils/channels';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Get the caller's channel configuration (defaults if none is saved)
+ * GET /api/channels
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const config = await getChannelConfig(resourceScope(req));
+    return res.json({ success: true, data: { ...config, surfaced: listChannels(config) } });
+  } catch (error) {
+    console.error('Get channel config error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Replace the caller's channel configuration
+ * PUT /api/channels
+ */
+router.put('/', validateUpdateChannelConfig, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = resourceScope(req);
+    const { channels, includeBrand, brandLabel } = req.body;
+
+    await ChannelConfig.findOneAndUpdate(
+      scopeFilter(scope),
+      { $set: { channels, includeBrand, brandLabel }, $setOnInsert: { userId: scope.userId } },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    const config = await getChannelConfig(scope);
+    return res.json({ success: true, data: { ...config, surfaced: listChannels(config) } });
+  } catch (error) {
+    console.error('Update channel config error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Reset the caller's channel configuration to the defaults
+ * DELETE /api/channels
+ */
+router.delete('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await ChannelConfig.deleteOne(scopeFilter(resourceScope(req)));
+    return res.json({ success: true, message: 'Channel configuration reset to defaults' });
+  } catch (error) {
+    console.error('Reset channel config error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import CompSet from '../models/CompSet';
+import { validateCreateCompSet, validateUpdateCompSet, validatePinProperty } from '../validators/compset';
+import { clearOtherDefaults } from '../utils/compsets';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Handle errors shared by the comp set write endpoints
+ */
+const handleWriteError = (error: unknown, res: Response) => {
+  // Handle MongoDB duplicate key error (name within the user or property)
+  if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+    return res.status(409).json({ success: false, error: 'A comp set with this name already exists' });
+  }
+
+  // Handle validation errors
+  if (error && typeof error === 'object' && 'name' in error && error.name === 'ValidationError' && 'errors' in error) {
+    const validationError = error as { errors: Record<string, { message: string }> };
+    const errors = Object.values(validationError.errors).map(err => err.message);
+    return res.status(400).json({ success: false, error: errors.join(', ') });
+  }
+
+  return res.status(500).json({ success: false, error: 'Internal server error' });
+};
+
+/**
+ * List the caller's comp sets
+ * GET /api/compsets
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const compSets = await CompSet.find(scopeFilter(resourceScope(req))).sort({ isDefault: -1, createdAt: 1 });
+    return res.json({ success: true, data: compSets });
+  } catch (error) {
+    console.error('List comp sets error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create a comp set
+ * POST /api/compsets
+ */
+router.post('/', validateCreateCompSet, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = resourceScope(req);
+    const { name, hotel, competitors, market, isDefault } = req.body;
+
+    // The first comp set of a user (or property) becomes the default
+    const existingCount = await CompSet.countDocuments(scopeFilter(scope));
+
+    const compSet = await CompSet.create({
+      ...scope,
+      name,
+      hotel,
+      competitors,
+      market,
+      isDefault: isDefault ?? existingCount === 0,
+    });
+
+    if (compSet.isDefault) {
+      await clearOtherDefaults(scope, compSet.id);
+    }
+
+    return res.status(201).json({ success: true, data: compSet });
+  } catch (error) {
+    console.error('Create comp set error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Get a comp set
+ * GET /api/compsets/:id
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid comp set ID' });
+    }
+
+    const compSet = await CompSet.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    return res.json({ success: true, data: compSet });
+  } catch (error) {
+    console.error('Get comp set error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update a comp set
+ * PUT /api/compsets/:id
+ */
+router.put('/:id', validateUpdateCompSet, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const scope = resourceScope(req);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid comp set ID' });
+    }
+
+    const compSet = await CompSet.findOneAndUpdate(
+      { _id: id, ...scopeFilter(scope) },
+      { $set: req.body },
+      { new: true, runValidators: true }
+    );
+
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    if (req.body.isDefault === true) {
+      await clearOtherDefaults(scope, compSet.id);
+    }
+
+    return res.json({ success: true, data: compSet });
+  } catch (error) {
+    console.error('Update comp set error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Pin a confirmed property (from GET /api/properties/search) on one of the
+ * comp set's hotels; later shops use its property_token instead of the name
+ * POST /api/compsets/:id/pin
+ */
+router.post('/:id/pin', validatePinProperty, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid comp set ID' });
+    }
+
+    const compSet = await CompSet.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    const { hotelName, property_token, address, gps_coordinates } = req.body;
+    const wanted = hotelName.trim().toLowerCase();
+    const hotel = [compSet.hotel, ...compSet.competitors].find(h => h.name.trim().toLowerCase() === wanted);
+    if (!hotel) {
+      return res.status(404).json({ success: false, error: `No hotel named "${hotelName}" in this comp set` });
+    }
+
+    hotel.property_token = property_token;
+    hotel.address = property_token ? address ?? null : null;
+    hotel.gps_coordinates = property_token ? gps_coordinates ?? null : null;
+    compSet.markModified('hotel');
+    compSet.markModified('competitors');
+    await compSet.save();
+
+    return res.json({ success: true, data: compSet });
+  } catch (error) {
+    console.error('Pin property error:', error);
+    return handleWriteError(error, res);
+  }
+});
+
+/**
+ * Delete a comp set
+ * DELETE /api/compsets/:id
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid comp set ID' });
+    }
+
+    const compSet = await CompSet.findOneAndDelete({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    return res.json({ success: true, message: 'Comp set deleted' });
+  } catch (error) {
+    console.error('Delete comp set error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,190 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import MarketEvent from '../models/MarketEvent';
+import {
+  validateCreateEvent,
+  validateUpdateEvent,
+  validateEventsQuery,
+  validateImportEvents,
+} from '../validators/events';
+import {
+  normalizeMarket,
+  parseEventsCsv,
+  parseEventsIcs,
+  importEvents,
+  MAX_IMPORT_EVENTS,
+} from '../utils/events';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * List the caller's events, optionally for some markets and a range of stay dates
+ * GET /api/events?market=waupaca,%20wi&from=2025-12-01&to=2025-12-31
+ */
+router.get('/', validateEventsQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { market, from, to, category, limit } = req.query as unknown as {
+      market?: string[];
+      from?: string;
+      to?: string;
+      category?: string;
+      limit: number;
+    };
+
+    const events = await MarketEvent.find({
+      ...scopeFilter(resourceScope(req)),
+      ...(market?.length && { market: { $in: market.map(normalizeMarket) } }),
+      ...(to && { startDate: { $lte: to } }),
+      ...(from && { endDate: { $gte: from } }),
+      ...(category && { category }),
+    })
+      .sort({ startDate: 1, name: 1 })
+      .limit(limit);
+
+    return res.json({ success: true, data: events });
+  } catch (error) {
+    console.error('List events error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create an event
+ * POST /api/events
+ */
+router.post('/', validateCreateEvent, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { market, startDate, endDate } = req.body;
+
+    const event = await MarketEvent.create({
+      ...req.body,
+      ...resourceScope(req),
+      market: normalizeMarket(market),
+      endDate: endDate || startDate,
+      source: 'manual',
+    });
+
+    return res.status(201).json({ success: true, data: event });
+  } catch (error) {
+    console.error('Create event error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Import events for a market from an ICS feed or CSV file
+ * Rows that fail validation are reported and skipped; the rest are stored.
+ * POST /api/events/import
+ * Body: { market, format: 'ics' | 'csv', content }
+ */
+router.post('/import', validateImportEvents, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { market, format, content } = req.body as { market: string; format: 'ics' | 'csv'; content: string };
+
+    const { events, problems } = format === 'ics' ? parseEventsIcs(content) : parseEventsCsv(content);
+    if (events.length > MAX_IMPORT_EVENTS) {
+      return res.status(400).json({
+        success: false,
+        error: `An import may contain at most ${MAX_IMPORT_EVENTS} events (got ${events.length})`,
+      });
+    }
+
+    const { inserted, updated } = await importEvents(resourceScope(req), market, events, format);
+
+    return res.json({
+      success: true,
+      data: { market: normalizeMarket(market), received: events.length, inserted, updated, problems },
+    });
+  } catch (error) {
+    console.error('Import events error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to import events' });
+  }
+});
+
+/**
+ * Get an event
+ * GET /api/events/:id
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid event ID' });
+    }
+
+    const event = await MarketEvent.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    return res.json({ success: true, data: event });
+  } catch (error) {
+    console.error('Get event error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update an event
+ * PUT /api/events/:id
+ */
+router.put('/:id', validateUpdateEvent, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid event ID' });
+    }
+
+    const event = await MarketEvent.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    const update = { ...req.body };
+    if (update.market) update.market = normalizeMarket(update.market);
+
+    // Dates are checked together, so a change to one is validated against the stored other
+    const startDate: string = update.startDate ?? event.startDate;
+    const endDate: string = update.endDate ?? event.endDate;
+    if (endDate < startDate) {
+      return res.status(400).json({ success: false, error: 'endDate must not be before startDate' });
+    }
+
+    event.set(update);
+    await event.save();
+
+    return res.json({ success: true, data: event });
+  } catch (error) {
+    console.error('Update event error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Delete an event
+ * DELETE /api/events/:id
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid event ID' });
+    }
+
+    const event = await MarketEvent.findOneAndDelete({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    return res.json({ success: true, message: 'Event deleted' });
+  } catch (error) {
+    console.error('Delete event error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticateToken, authorizeProperty, AuthenticatedRequest } from '../../../shared';
+import FxRate from '../models/FxRate';
+import { validateFxRatesQuery, validateUploadFxRates } from '../validators/fx';
+import { parseFxCsv, parseFxJson, importFxRates } from '../utils/fx';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+// Accounts allowed to upload rates (comma-separated business emails)
+const FX_ADMIN_EMAILS = (process.env.FX_ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Only FX admins may change rates
+ */
+function requireFxAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (!FX_ADMIN_EMAILS.includes(req.user!.businessEmail.toLowerCase())) {
+    res.status(403).json({ success: false, error: 'Only FX administrators can upload rates' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Stored daily FX rates, newest first
+ * GET /api/fx/rates?base=USD&quote=EUR&from=2025-12-01&to=2025-12-31
+ */
+router.get('/rates', validateFxRatesQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { base, quote, from, to, limit } = req.query as unknown as {
+      base?: string;
+      quote?: string;
+      from?: string;
+      to?: string;
+      limit: number;
+    };
+
+    const filter: Record<string, any> = {};
+    if (base) filter.base = base;
+    if (quote) filter.quote = quote;
+    if (from || to) {
+      filter.date = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    const rates = await FxRate.find(filter)
+      .select('date base quote rate source updatedAt')
+      .sort({ date: -1, base: 1, quote: 1 })
+      .limit(limit)
+      .lean();
+
+    return res.json({ success: true, data: rates });
+  } catch (error) {
+    console.error('List FX rates error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Upload daily FX rates (replaces rates already stored for the same day and pair)
+ * POST /api/fx/rates
+ * Body: { csv: "date,base,quote,rate\n2025-12-01,USD,EUR,0.92" }
+ *    or { rates: [{ date, base, quote, rate }] | { date, base, rates: { EUR: 0.92 } } }
+ */
+router.post('/rates', requireFxAdmin, validateUploadFxRates, async (req: AuthenticatedRequest, res: Response) => {
+  let rows;
+  try {
+    rows = req.body.csv !== undefined ? parseFxCsv(req.body.csv) : parseFxJson(req.body.rates);
+  } catch (error) {
+    return res.status(400).json({ success: false, error: (error as Error).message });
+  }
+
+  try {
+    const result = await importFxRates(rows, 'upload');
+    return res.status(201).json({ success: true, data: { received: rows.length, ...result } });
+  } catch (error) {
+    console.error('Upload FX rates error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to store FX rates' });
+  }
+});
+
+export default router;
@@ -0,0 +1,186 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import BatchJob, { IBatchJob } from '../models/BatchJob';
+import { batchWorker, summarizeBatchJob } from '../utils/batchWorker';
+import { buildMatrixGrid } from '../utils/matrix';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Job as returned to clients, with a progress summary
+ */
+const toJobResponse = (job: IBatchJob) => ({
+  ...job.toJSON(),
+  progress: summarizeBatchJob(job),
+});
+
+/**
+ * List the caller's recent batch jobs
+ * GET /serpapi/jobs?limit=20
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const jobs = await BatchJob.find(scopeFilter(resourceScope(req)))
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    return res.json({ success: true, data: jobs.map(toJobResponse) });
+  } catch (error) {
+    console.error('List jobs error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Get a batch job with per-hotel progress and results
+ * GET /serpapi/jobs/:id
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await BatchJob.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    return res.json({ success: true, data: toJobResponse(job) });
+  } catch (error) {
+    console.error('Get job error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Results of a matrix job as a grid: rows are hotel x arrival date,
+ * columns are length of stay x occupancy (partial while the job runs)
+ * GET /serpapi/jobs/:id/grid
+ */
+router.get('/:id/grid', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await BatchJob.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    if (job.type !== 'matrix' || !job.params.matrix) {
+      return res.status(400).json({ success: false, error: 'Only matrix jobs have a grid' });
+    }
+
+    const grid = await buildMatrixGrid(job);
+    return res.json({ success: true, data: { ...grid, progress: summarizeBatchJob(job) } });
+  } catch (error) {
+    console.error('Get job grid error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Cancel a batch job
+ * Queued jobs are cancelled at once; running jobs stop before the next hotel
+ * POST /serpapi/jobs/:id/cancel
+ */
+router.post('/:id/cancel', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const scope = resourceScope(req);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    // Not started yet: cancel outright
+    let job = await BatchJob.findOneAndUpdate(
+      { _id: id, ...scopeFilter(scope), status: 'queued' },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelRequested: true,
+          finishedAt: new Date(),
+          'items.$[pending].status': 'cancelled',
+        },
+      },
+      { new: true, arrayFilters: [{ 'pending.status': 'pending' }] }
+    );
+
+    // In progress: ask the worker to stop
+    if (!job) {
+      job = await BatchJob.findOneAndUpdate(
+        { _id: id, ...scopeFilter(scope), status: 'running' },
+        { $set: { cancelRequested: true } },
+        { new: true }
+      );
+    }
+
+    if (!job) {
+      const exists = await BatchJob.exists({ _id: id, ...scopeFilter(scope) });
+      return exists
+        ? res.status(409).json({ success: false, error: 'Job has already finished' })
+        : res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    return res.json({ success: true, data: toJobResponse(job) });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Resume a partially finished batch job
+ * Re-queues hotels that failed, were cancelled or never ran
+ * POST /serpapi/jobs/:id/resume
+ */
+router.post('/:id/resume', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const scope = resourceScope(req);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await BatchJob.findOne({ _id: id, ...scopeFilter(scope) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      return res.status(409).json({ success: false, error: 'Job is still in progress' });
+    }
+
+    const remaining = job.items.filter(item => item.status !== 'succeeded');
+    if (!remaining.length) {
+      return res.status(409).json({ success: false, error: 'Job has no unfinished hotels to resume' });
+    }
+
+    for (const item of remaining) {
+      item.status = 'pending';
+      item.error = null;
+    }
+    job.status = 'queued';
+    job.cancelRequested = false;
+    job.finishedAt = null;
+    job.error = null;
+    await job.save();
+
+    batchWorker.enqueue(job.id);
+
+    return res.status(202).json({ success: true, data: toJobResponse(job) });
+  } catch (error) {
+    console.error('Resume job error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
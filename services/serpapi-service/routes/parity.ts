@@ -0,0 +1,43 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, resourceScope, AuthenticatedRequest } from '../../../shared';
+import { validateParityQuery } from '../validators/parity';
+import { getParityReport } from '../utils/parity';
+import { getChannelConfig } from '../utils/channels';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Rate parity between the official rate and each OTA
+ * GET /api/parity?property=Hotel+Name&checkInFrom=2025-12-01&checkInTo=2025-12-31&tolerancePct=1&displayCurrency=EUR
+ */
+router.get('/', validateParityQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { tolerancePct, toleranceAmount, ...query } = req.query as unknown as {
+      property: string;
+      checkInFrom: string;
+      checkInTo: string;
+      adults: number;
+      children: number;
+      currency?: string;
+      displayCurrency?: string;
+      ota?: string[];
+      tolerancePct: number;
+      toleranceAmount: number;
+    };
+
+    const channelConfig = await getChannelConfig(resourceScope(req));
+    const data = await getParityReport(
+      { ...query, tolerance: { percent: tolerancePct, amount: toleranceAmount } },
+      channelConfig
+    );
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error('Parity report error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to build parity report' });
+  }
+});
+
+export default router;
@@ -0,0 +1,231 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest, ResourceScope } from '../../../shared';
+import PricingRuleSet from '../models/PricingRuleSet';
+import { validateRuleSet, validateRecommendationQuery, validateDryRun } from '../validators/pricing';
+import { findCompSet } from '../utils/compsets';
+import { resolveStayDateRange, MAX_RANGE_DAYS } from '../utils/rateIndex';
+import { getRuleSetVersion, saveRuleSetVersion, recommendRates, dryRunRules, RuleSetDefinition } from '../utils/pricing';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Parse a :version route parameter
+ */
+const parseVersion = (value: string): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+/**
+ * Save a rule set as the next version, answering 409 if another save won the race
+ */
+const saveVersion = async (scope: ResourceScope, definition: Parameters<typeof saveRuleSetVersion>[1], res: Response) => {
+  try {
+    const ruleSet = await saveRuleSetVersion(scope, definition);
+    return res.status(201).json({ success: true, data: ruleSet });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+      return res.status(409).json({ success: false, error: 'Another version was saved at the same time. Reload and try again' });
+    }
+    throw error;
+  }
+};
+
+/**
+ * List the caller's rule set versions, newest first
+ * GET /api/pricing/rules
+ */
+router.get('/rules', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const versions = await PricingRuleSet.find(scopeFilter(resourceScope(req)))
+      .select('version name note floor ceiling currency createdAt rules.name')
+      .sort({ version: -1 })
+      .lean();
+
+    return res.json({ success: true, data: versions });
+  } catch (error) {
+    console.error('List pricing rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Save a new version of the caller's pricing rules
+ * POST /api/pricing/rules
+ */
+router.post('/rules', validateRuleSet, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    return await saveVersion(resourceScope(req), req.body, res);
+  } catch (error) {
+    console.error('Save pricing rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Current (latest) rule set version
+ * GET /api/pricing/rules/current
+ */
+router.get('/rules/current', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const ruleSet = await getRuleSetVersion(resourceScope(req));
+    if (!ruleSet) {
+      return res.status(404).json({ success: false, error: 'No pricing rules saved yet' });
+    }
+    return res.json({ success: true, data: ruleSet });
+  } catch (error) {
+    console.error('Get pricing rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * One rule set version
+ * GET /api/pricing/rules/:version
+ */
+router.get('/rules/:version', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const ruleSet = version ? await getRuleSetVersion(resourceScope(req), version) : null;
+    if (!ruleSet) {
+      return res.status(404).json({ success: false, error: 'Rule set version not found' });
+    }
+    return res.json({ success: true, data: ruleSet });
+  } catch (error) {
+    console.error('Get pricing rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Make an earlier version current again by saving a copy of it as the next version
+ * POST /api/pricing/rules/:version/restore
+ */
+router.post('/rules/:version/restore', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const ruleSet = version ? await getRuleSetVersion(resourceScope(req), version) : null;
+    if (!ruleSet) {
+      return res.status(404).json({ success: false, error: 'Rule set version not found' });
+    }
+
+    const { name, rules, floor, ceiling, currency, rounding } = ruleSet.toObject();
+    return await saveVersion(
+      resourceScope(req),
+      { name, note: `Restored from version ${version}`, rules, floor, ceiling, currency, rounding },
+      res
+    );
+  } catch (error) {
+    console.error('Restore pricing rules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Suggested BAR per stay date from the current (or given) rule set version
+ * GET /api/pricing/recommendations?compSetId=...&checkInFrom=2025-12-01&checkInTo=2025-12-31&los=1&adults=2&version=3
+ */
+router.get('/recommendations', validateRecommendationQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { compSetId, checkInFrom, checkInTo, los, adults, version } = req.query as unknown as {
+      compSetId?: string;
+      checkInFrom?: string;
+      checkInTo?: string;
+      los: number;
+      adults: number;
+      version?: number;
+    };
+    const scope = resourceScope(req);
+
+    const range = resolveStayDateRange(checkInFrom, checkInTo);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `checkInTo must be on or after checkInFrom and within ${MAX_RANGE_DAYS} days of it`,
+      });
+    }
+
+    const ruleSet = await getRuleSetVersion(scope, version);
+    if (!ruleSet) {
+      return res.status(404).json({
+        success: false,
+        error: version ? 'Rule set version not found' : 'No pricing rules saved yet. Create them via /api/pricing/rules',
+      });
+    }
+
+    const compSet = await findCompSet(scope, compSetId);
+    if (!compSet) {
+      return res.status(404).json({
+        success: false,
+        error: compSetId ? 'Comp set not found' : 'No comp set configured. Create one via /api/compsets',
+      });
+    }
+
+    const dates = await recommendRates(ruleSet, compSet, { ...range, los, adults });
+    return res.json({
+      success: true,
+      data: { compSetId: compSet._id, version: ruleSet.version, ...range, los, adults, dates },
+    });
+  } catch (error) {
+    console.error('Rate recommendation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to build rate recommendations' });
+  }
+});
+
+/**
+ * Replay a saved version or a draft rule set against stored shops and compare
+ * its suggestions with the rates the hotel actually had (nothing is saved)
+ * POST /api/pricing/dry-run
+ */
+router.post('/dry-run', validateDryRun, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { compSetId, checkInFrom, checkInTo, los, adults, version, ruleSet: draft } = req.body;
+    const scope = resourceScope(req);
+
+    const range = resolveStayDateRange(checkInFrom, checkInTo);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `checkInTo must be on or after checkInFrom and within ${MAX_RANGE_DAYS} days of it`,
+      });
+    }
+
+    const saved = draft ? null : await getRuleSetVersion(scope, version);
+    const ruleSet: RuleSetDefinition | null = draft || saved;
+    if (!ruleSet) {
+      return res.status(404).json({
+        success: false,
+        error: version ? 'Rule set version not found' : 'No pricing rules saved yet. Send a draft in ruleSet',
+      });
+    }
+
+    const compSet = await findCompSet(scope, compSetId);
+    if (!compSet) {
+      return res.status(404).json({
+        success: false,
+        error: compSetId ? 'Comp set not found' : 'No comp set configured. Create one via /api/compsets',
+      });
+    }
+
+    const result = await dryRunRules(ruleSet, compSet, { ...range, los, adults });
+    return res.json({
+      success: true,
+      data: {
+        compSetId: compSet._id,
+        version: saved?.version ?? null,
+        ...range,
+        los,
+        adults,
+        ...result,
+      },
+    });
+  } catch (error) {
+    console.error('Pricing dry run error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to run pricing rules' });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, AuthenticatedRequest } from '../../../shared';
+import { validatePropertySearch } from '../validators/properties';
+import { searchPropertyCandidates } from '../utils/properties';
+import { QuotaExceededError } from '../utils/usage';
+import { SerpApiError, serpApiErrorStatus } from '../utils/serpapiErrors';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Properties a hotel name may refer to (name, address, GPS, property_token)
+ * Pin the right one on a comp set hotel with POST /api/compsets/:id/pin
+ * GET /api/properties/search?q=Motel+6-Wisconsin+Rapids,+WI
+ */
+router.get('/search', validatePropertySearch, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { q, checkInDate, gl, hl, currency } = req.query as {
+      q: string;
+      checkInDate?: string;
+      gl: string;
+      hl: string;
+      currency: string;
+    };
+
+    const candidates = await searchPropertyCandidates({
+      query: q,
+      checkInDate,
+      gl,
+      hl,
+      currency,
+      usage: { userId: req.user!.id, jobType: 'manual' },
+    });
+
+    return res.json({ success: true, data: { query: q, candidates } });
+  } catch (error) {
+    console.error('Property search error:', error);
+
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ success: false, error: error.message, quota: error.quota });
+    }
+    if (error instanceof SerpApiError) {
+      return res.status(serpApiErrorStatus(error)).json({ success: false, error: error.message, kind: error.kind });
+    }
+    return res.status(500).json({ success: false, error: 'Property search failed' });
+  }
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, AuthenticatedRequest } from '../../../shared';
+import { validateRateHistoryQuery } from '../validators/rates';
+import { getRateHistory } from '../utils/rateHistory';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Rate history and pace for one stay date
+ * GET /api/rates/history?property=Hotel+Name&checkIn=2025-12-01&los=1&adults=2&displayCurrency=EUR
+ */
+router.get('/history', validateRateHistoryQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { property, checkIn, los, adults, children, displayCurrency } = req.query as unknown as {
+      property: string;
+      checkIn: string;
+      los: number;
+      adults: number;
+      children: number;
+      displayCurrency?: string;
+    };
+
+    const data = await getRateHistory({ property, checkIn, los, adults, children, displayCurrency });
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error('Rate history error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch rate history' });
+  }
+});
+
+export default router;
@@ -0,0 +1,192 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, authorizeProperty, resourceScope, scopeFilter, AuthenticatedRequest } from '../../../shared';
+import CompSet from '../models/CompSet';
+import ScheduledJob from '../models/ScheduledJob';
+import ScheduledJobRun from '../models/ScheduledJobRun';
+import { validateCreateSchedule, validateUpdateSchedule } from '../validators/schedule';
+import { getNextRunDate } from '../utils/cron';
+import { scheduler } from '../utils/scheduler';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * List the caller's scheduled jobs
+ * GET /serpapi/schedules
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const jobs = await ScheduledJob.find(scopeFilter(resourceScope(req))).sort({ createdAt: 1 });
+    return res.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('List schedules error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create a scheduled job
+ * POST /serpapi/schedules
+ */
+router.post('/', validateCreateSchedule, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = resourceScope(req);
+
+    const compSet = await CompSet.exists({ _id: req.body.compSetId, ...scopeFilter(scope) });
+    if (!compSet) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    const job = await ScheduledJob.create({
+      ...req.body,
+      ...scope,
+      nextRunAt: req.body.enabled ? getNextRunDate(req.body.cadence, new Date()) : null,
+    });
+
+    return res.status(201).json({ success: true, data: job });
+  } catch (error) {
+    console.error('Create schedule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Get a scheduled job
+ * GET /serpapi/schedules/:id
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await ScheduledJob.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Scheduled job not found' });
+    }
+
+    return res.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Update a scheduled job
+ * PUT /serpapi/schedules/:id
+ */
+router.put('/:id', validateUpdateSchedule, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const scope = resourceScope(req);
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await ScheduledJob.findOne({ _id: id, ...scopeFilter(scope) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Scheduled job not found' });
+    }
+
+    if (req.body.compSetId && !(await CompSet.exists({ _id: req.body.compSetId, ...scopeFilter(scope) }))) {
+      return res.status(404).json({ success: false, error: 'Comp set not found' });
+    }
+
+    job.set(req.body);
+
+    // Re-plan the next run when the cadence changes or the job is switched on/off
+    if (req.body.cadence !== undefined || req.body.enabled !== undefined) {
+      job.nextRunAt = job.enabled ? getNextRunDate(job.cadence, new Date()) : null;
+    }
+
+    await job.save();
+    return res.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Update schedule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Delete a scheduled job and its run history
+ * DELETE /serpapi/schedules/:id
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await ScheduledJob.findOneAndDelete({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Scheduled job not found' });
+    }
+
+    await ScheduledJobRun.deleteMany({ jobId: job._id });
+    return res.json({ success: true, message: 'Scheduled job deleted' });
+  } catch (error) {
+    console.error('Delete schedule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * List a job's runs, newest first
+ * GET /serpapi/schedules/:id/runs?limit=20
+ */
+router.get('/:id/runs', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    // Runs carry the job creator's userId, so access is checked on the job
+    const job = await ScheduledJob.exists({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Scheduled job not found' });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const runs = await ScheduledJobRun.find({ jobId: id })
+      .sort({ startedAt: -1 })
+      .limit(limit);
+
+    return res.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('List schedule runs error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Start a run now, outside the job's cadence
+ * POST /serpapi/schedules/:id/run
+ */
+router.post('/:id/run', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid job ID' });
+    }
+
+    const job = await ScheduledJob.findOne({ _id: id, ...scopeFilter(resourceScope(req)) });
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Scheduled job not found' });
+    }
+
+    const run = await scheduler.runJob(job, 'manual', false);
+    return res.status(202).json({ success: true, data: run });
+  } catch (error) {
+    console.error('Run schedule error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router, Response } from 'express';
+import { authenticateToken, authorizeProperty, AuthenticatedRequest } from '../../../shared';
+import UsageQuota from '../models/UsageQuota';
+import { validateUsageQuery, validateUpdateQuota } from '../validators/usage';
+import { getUsageReport, getQuotaStatus, monthStart } from '../utils/usage';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(authorizeProperty());
+
+/**
+ * Search usage by day, comp set and job type (defaults to the current month)
+ * GET /api/usage?from=2025-12-01&to=2025-12-31
+ */
+router.get('/', validateUsageQuery, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const { from = monthStart(new Date()).toISOString().slice(0, 10), to = today } = req.query as {
+      from?: string;
+      to?: string;
+    };
+
+    const data = await getUsageReport(req.user!.id, from, to);
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to build usage report' });
+  }
+});
+
+/**
+ * Current month's quota and usage
+ * GET /api/usage/quota
+ */
+router.get('/quota', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = await getQuotaStatus(req.user!.id);
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error('Get quota error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Set the monthly limit and what happens once it is reached
+ * PUT /api/usage/quota
+ */
+router.put('/quota', validateUpdateQuota, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    await UsageQuota.findOneAndUpdate(
+      { userId },
+      { $set: req.body },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    const data = await getQuotaStatus(userId);
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error('Update quota error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
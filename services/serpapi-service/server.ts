@@ -2,22 +2,56 @@ import dotenv from 'dotenv';
 dotenv.config({ path: '../../.env' });
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { formatHotelQuery, formatDate } from './utils/formatters';
-import { fetchHotelRates } from './utils/serpapi';
+import { formatHotelQuery, formatDate, addDays } from './utils/formatters';
 import { validateFetchRates, fetchRatesSchema } from './validators/serpapi';
 import { FetchRatesRequestBody } from '../../shared/types';
 import { connectDB } from './config/database';
-import SerpData from './models/SerpData';
-import { transformSerpApiResponse } from './utils/transformers';
-import { fetchSerpDataSummaries } from './utils/serpapi';
-import { hotels } from '../../shared/constants';
+import { saveSerpData } from './utils/rateShop';
+import { checkPropertyMatch } from './utils/properties';
+import { getRateProvider } from './providers';
+import { fetchMeteredRates, getQuotaStatus, QuotaExceededError } from './utils/usage';
+import { fetchSerpDataSummaries, SerpDataSummaryFilters, serpApiBreaker } from './utils/serpapi';
+import { SerpApiError, serpApiErrorStatus } from './utils/serpapiErrors';
+import { validateCalendarQuery, validateCalendarExportQuery } from './validators/calendar';
+import { validateRateMatrix } from './validators/matrix';
+import { countMatrixSearches, expandRateMatrix, countUncachedSearches } from './utils/matrix';
+import {
+  authenticateToken,
+  optionalAuthenticateToken,
+  authorizeProperty,
+  resourceScope,
+  AuthenticatedRequest,
+} from '../../shared';
+import { findCompSet, getCompSetHotels } from './utils/compsets';
+import { getChannelConfig } from './utils/channels';
+import compSetRoutes from './routes/compsets';
+import scheduleRoutes from './routes/schedules';
+import jobRoutes from './routes/jobs';
+import rateRoutes from './routes/rates';
+import channelRoutes from './routes/channels';
+import parityRoutes from './routes/parity';
+import alertRoutes from './routes/alerts';
+import usageRoutes from './routes/usage';
+import propertyRoutes from './routes/properties';
+import fxRoutes from './routes/fx';
+import analyticsRoutes from './routes/analytics';
+import pricingRoutes from './routes/pricing';
+import eventRoutes from './routes/events';
+import BatchJob from './models/BatchJob';
+import { batchWorker } from './utils/batchWorker';
+import { scheduler } from './utils/scheduler';
+import { alertDispatcher } from './utils/alertDispatcher';
+import { loadFxRatesFile } from './utils/fx';
+import { calendarExportRows, CalendarExportFilters, MixedCurrencyExportError } from './utils/calendarExport';
+import { writeCsv, writeXlsx } from './utils/spreadsheet';
+import { annotateWithEvents } from './utils/events';
 
 const app = express();
 const PORT = process.env.SERPAPI_SERVICE_PORT || 3003;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // Same limit as the gateway (event and FX imports)
 app.use(express.urlencoded({ extended: true })); // For query parameters
 
 // Debug middleware to log incoming POST requests
@@ -44,11 +78,50 @@ app.use((req: Request, _res: Response, next) => {
   next();
 });
 
+// Comp set CRUD
+app.use('/api/compsets', compSetRoutes);
+
+// Scheduled rate-shopping jobs
+app.use('/serpapi/schedules', scheduleRoutes);
+
+// Background batch fetch jobs
+app.use('/serpapi/jobs', jobRoutes);
+
+// Rate history and pace
+app.use('/api/rates', rateRoutes);
+
+// Channel configuration (OTA whitelist and source aliases)
+app.use('/api/channels', channelRoutes);
+
+// Rate parity reports
+app.use('/api/parity', parityRoutes);
+
+// Rate change alert rules, webhooks and alert history
+app.use('/api/alerts', alertRoutes);
+
+// Search usage ledger and monthly quota
+app.use('/api/usage', usageRoutes);
+
+// Resolve hotel names to properties before pinning them on a comp set
+app.use('/api/properties', propertyRoutes);
+
+// Daily FX rates used to show rates in a display currency
+app.use('/api/fx', fxRoutes);
+
+// Rate index and market positioning against the comp set
+app.use('/api/analytics', analyticsRoutes);
+
+// Versioned pricing rules, BAR recommendations and dry runs
+app.use('/api/pricing', pricingRoutes);
+
+// Market events (local events and holidays) for demand context
+app.use('/api/events', eventRoutes);
+
 /**
  * Fetch hotel rates endpoint (GET with query parameters)
  * GET /serpapi/fetch-rates?q=hotel+name&check_in_date=2025-11-21&check_out_date=2025-11-22&gl=us&hl=en&currency=USD
  */
-app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
+app.get('/serpapi/fetch-rates', optionalAuthenticateToken, authorizeProperty(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Log the entire req.query object so we can see exactly what comes in
     console.log("[GET /serpapi/fetch-rates] Incoming query params:", req.query);
@@ -59,7 +132,11 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
       gl,
       hl,
       currency,
-      adults
+      adults,
+      maxAge,
+      forceRefresh,
+      property_token,
+      children_ages
     } = req.query;
 
     // Brief explanation for debugging/learning:
@@ -93,10 +170,10 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
     let adultsCount = 2; // default
     if (adults !== undefined) {
       const parsedAdults = Number(adults);
-      if (isNaN(parsedAdults) || parsedAdults < 2 || parsedAdults > 5 || !Number.isInteger(parsedAdults)) {
+      if (isNaN(parsedAdults) || parsedAdults < 1 || parsedAdults > 6 || !Number.isInteger(parsedAdults)) {
         return res.status(400).json({
           error: 'Validation failed',
-          details: ['adults must be an integer between 2 and 5 (default: 2)'],
+          details: ['adults must be an integer between 1 and 6 (default: 2)'],
         });
       }
       adultsCount = parsedAdults;
@@ -110,6 +187,10 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
       gl: (gl as string) || 'us',
       hl: (hl as string) || 'en',
       currency: (currency as string) || 'USD',
+      ...(maxAge !== undefined && { maxAge: Number(maxAge) }),
+      ...(forceRefresh !== undefined && { forceRefresh: forceRefresh === 'true' }),
+      ...(typeof property_token === 'string' && { propertyToken: property_token }),
+      ...(typeof children_ages === 'string' && { childrenAges: children_ages.split(',').map(Number) }),
     };
 
     // Log the "requestBody" as it will be passed to the validator & downstream functions
@@ -137,6 +218,10 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
       gl: validatedGl,
       hl: validatedHl,
       currency: validatedCurrency,
+      maxAge: validatedMaxAge,
+      forceRefresh: validatedForceRefresh,
+      propertyToken: validatedPropertyToken,
+      childrenAges: validatedChildrenAges,
     } = value;
 
     // Here's how we use the data:
@@ -159,31 +244,30 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
     //   currency: validatedCurrency
     // });
 
-    // Fetch rates from SerpAPI
-    const ratesData = await fetchHotelRates({
-      hotelQuery,
-      checkInDate: formattedCheckIn,
-      checkOutDate: formattedCheckOut,
-      gl: validatedGl,
-      hl: validatedHl,
-      currency: validatedCurrency,
-      adults: adultsCount,
-    });
+    // Fetch rates from the configured provider (SerpAPI unless RATE_PROVIDER says otherwise),
+    // reusing a fresh cached result for the same query
+    const { raw: ratesData, rates: transformedData, cached, fetchedAt } = await fetchMeteredRates(
+      getRateProvider(),
+      {
+        hotelName,
+        hotelQuery,
+        propertyToken: validatedPropertyToken,
+        checkInDate: formattedCheckIn,
+        checkOutDate: formattedCheckOut,
+        gl: validatedGl || 'us',
+        hl: validatedHl || 'en',
+        currency: validatedCurrency || 'USD',
+        adults: adultsCount,
+        childrenAges: validatedChildrenAges,
+      },
+      { userId: req.user?.id, jobType: 'manual' },
+      { maxAge: validatedMaxAge, forceRefresh: validatedForceRefresh }
+    );
+    const warning = checkPropertyMatch(validatedPropertyToken, transformedData);
 
-    // Log the raw rates data received from SerpAPI for debug
+    // Log the raw rates data received from the provider for debug
     console.log("[GET /serpapi/fetch-rates] Received ratesData:", ratesData);
 
-    // Transform SerpAPI response to SerpData format (matches our DB model)
-    const transformedData = transformSerpApiResponse(ratesData, {
-      hotelQuery,
-      checkInDate: formattedCheckIn,
-      checkOutDate: formattedCheckOut,
-      gl: validatedGl || 'us',
-      hl: validatedHl || 'en',
-      currency: validatedCurrency || 'USD',
-      adults: adultsCount,
-    });
-
     // Log the data as it will be stored in DB (if at all)
     // console.log("[GET /serpapi/fetch-rates] Data to store in DB (transformedData):", transformedData);
 
@@ -196,42 +280,10 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
         'Type:', typeof transformedData.search_metadata?.total_time_taken
       );
 
-      // Look for existing entry by hotel name, check-in date, check-out date, and adults
-      const checkInDateObj = new Date(formattedCheckIn);
-      const checkOutDateObj = new Date(formattedCheckOut);
-      const checkInStart = new Date(checkInDateObj);
-      checkInStart.setHours(0, 0, 0, 0);
-      const checkInEnd = new Date(checkInDateObj);
-      checkInEnd.setHours(23, 59, 59, 999);
-      const checkOutStart = new Date(checkOutDateObj);
-      checkOutStart.setHours(0, 0, 0, 0);
-      const checkOutEnd = new Date(checkOutDateObj);
-      checkOutEnd.setHours(23, 59, 59, 999);
-      
-      const existingData = await SerpData.findOne({
-        $or: [
-          { property_token: transformedData.property_token },
-          { name: transformedData.name },
-        ],
-        'search_parameters.check_in_date': {
-          $gte: checkInStart,
-          $lte: checkInEnd,
-        },
-        'search_parameters.check_out_date': {
-          $gte: checkOutStart,
-          $lte: checkOutEnd,
-        },
-        'search_parameters.adults': adultsCount,
-      });
-
-      if (existingData) {
-        Object.assign(existingData, transformedData);
-        savedSerpData = await existingData.save();
-        console.log("[GET /serpapi/fetch-rates] Updated existing SerpData, _id:", savedSerpData._id?.toString());
-      } else {
-        savedSerpData = await SerpData.create(transformedData);
-        console.log("[GET /serpapi/fetch-rates] Created new SerpData, _id:", savedSerpData._id?.toString());
-      }
+      // Upsert the latest view; snapshots were already recorded for cached results
+      const { doc, updated, snapshotCount } = await saveSerpData(transformedData, adultsCount, { recordHistory: !cached });
+      savedSerpData = doc;
+      console.log(`[GET /serpapi/fetch-rates] ${updated ? 'Updated existing' : 'Created new'} SerpData, _id:`, savedSerpData._id?.toString(), `(${snapshotCount} snapshots)`);
     } catch (dbError: unknown) {
       console.error('Database save error:', dbError);
       if (dbError instanceof Error) {
@@ -247,13 +299,19 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
     return res.json({
       success: true,
       data: ratesData, // This is the original SerpAPI data
+      cached,
+      fetchedAt,
+      ...(warning && { warnings: [warning] }),
       savedToDatabase: !!savedSerpData,
       databaseId: savedSerpData?._id || null,
       query: {
         hotelName,
         hotelQuery,
+        propertyToken: validatedPropertyToken ?? null,
         checkInDate: formattedCheckIn,
         checkOutDate: formattedCheckOut,
+        adults: adultsCount,
+        childrenAges: validatedChildrenAges ?? [],
         gl: validatedGl,
         hl: validatedHl,
         currency: validatedCurrency,
@@ -262,6 +320,14 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
   } catch (error: unknown) {
     console.error('Fetch rates error:', error);
 
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({
+        error: 'Quota exceeded',
+        message: error.message,
+        quota: error.quota,
+      });
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     // Handle specific error types
@@ -272,6 +338,14 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof SerpApiError) {
+      return res.status(serpApiErrorStatus(error)).json({
+        error: 'Failed to fetch hotel rates',
+        kind: error.kind,
+        message: errorMessage,
+      });
+    }
+
     if (errorMessage.includes('Invalid date')) {
       return res.status(400).json({
         error: 'Invalid date format',
@@ -290,7 +364,7 @@ app.get('/serpapi/fetch-rates', async (req: Request, res: Response) => {
  * Fetch hotel rates endpoint
  * POST /serpapi/fetch-rates
  */
-app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {}, FetchRatesRequestBody>, res: Response) => {
+app.post('/serpapi/fetch-rates', optionalAuthenticateToken, authorizeProperty(), validateFetchRates, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const {
       hotelName,
@@ -300,14 +374,18 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
       hl,
       currency,
       adults,
-    } = req.body;
+      maxAge,
+      forceRefresh,
+      propertyToken,
+      childrenAges,
+    }: FetchRatesRequestBody = req.body;
 
-    // Validate adults (default to 2, accept 2, 3, 4, 5)
+    // Validate adults (default to 2, accept 1 to 6)
     const adultsCount = adults !== undefined ? Number(adults) : 2;
-    if (adults !== undefined && (isNaN(adultsCount) || adultsCount < 2 || adultsCount > 5 || !Number.isInteger(adultsCount))) {
+    if (adults !== undefined && (isNaN(adultsCount) || adultsCount < 1 || adultsCount > 6 || !Number.isInteger(adultsCount))) {
       return res.status(400).json({
         error: 'Validation failed',
-        details: ['adults must be an integer between 2 and 5 (default: 2)'],
+        details: ['adults must be an integer between 1 and 6 (default: 2)'],
       });
     }
 
@@ -318,27 +396,25 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
     const formattedCheckIn = formatDate(checkInDate);
     const formattedCheckOut = formatDate(checkOutDate);
 
-    // Fetch rates from SerpAPI
-    const ratesData = await fetchHotelRates({
-      hotelQuery,
-      checkInDate: formattedCheckIn,
-      checkOutDate: formattedCheckOut,
-      gl,
-      hl,
-      currency,
-      adults: adultsCount,
-    });
-
-    // Transform SerpAPI response to SerpData format
-    const transformedData = transformSerpApiResponse(ratesData, {
-      hotelQuery,
-      checkInDate: formattedCheckIn,
-      checkOutDate: formattedCheckOut,
-      gl: gl || 'us',
-      hl: hl || 'en',
-      currency: currency || 'USD',
-      adults: adultsCount,
-    });
+    // Fetch and normalize rates from the configured provider (or the rate cache)
+    const { raw: ratesData, rates: transformedData, cached, fetchedAt } = await fetchMeteredRates(
+      getRateProvider(),
+      {
+        hotelName,
+        hotelQuery,
+        propertyToken,
+        checkInDate: formattedCheckIn,
+        checkOutDate: formattedCheckOut,
+        gl: gl || 'us',
+        hl: hl || 'en',
+        currency: currency || 'USD',
+        adults: adultsCount,
+        childrenAges,
+      },
+      { userId: req.user?.id, jobType: 'manual' },
+      { maxAge, forceRefresh }
+    );
+    const warning = checkPropertyMatch(propertyToken, transformedData);
 
     // Save to database
     let savedSerpData = null;
@@ -349,44 +425,10 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
         'Type:', typeof transformedData.search_metadata?.total_time_taken
       );
 
-      // Check if data already exists by hotel name, check-in date, check-out date, and adults
-      const checkInDateObj = new Date(formattedCheckIn);
-      const checkOutDateObj = new Date(formattedCheckOut);
-      const checkInStart = new Date(checkInDateObj);
-      checkInStart.setHours(0, 0, 0, 0);
-      const checkInEnd = new Date(checkInDateObj);
-      checkInEnd.setHours(23, 59, 59, 999);
-      const checkOutStart = new Date(checkOutDateObj);
-      checkOutStart.setHours(0, 0, 0, 0);
-      const checkOutEnd = new Date(checkOutDateObj);
-      checkOutEnd.setHours(23, 59, 59, 999);
-      
-      const existingData = await SerpData.findOne({
-        $or: [
-          { property_token: transformedData.property_token },
-          { name: transformedData.name },
-        ],
-        'search_parameters.check_in_date': {
-          $gte: checkInStart,
-          $lte: checkInEnd,
-        },
-        'search_parameters.check_out_date': {
-          $gte: checkOutStart,
-          $lte: checkOutEnd,
-        },
-        'search_parameters.adults': adultsCount,
-      });
-
-      if (existingData) {
-        // Update existing record
-        Object.assign(existingData, transformedData);
-        savedSerpData = await existingData.save();
-        console.log('[POST /serpapi/fetch-rates] Updated existing SerpData, _id:', savedSerpData._id?.toString());
-      } else {
-        // Create new record
-        savedSerpData = await SerpData.create(transformedData);
-        console.log('[POST /serpapi/fetch-rates] Created new SerpData, _id:', savedSerpData._id?.toString());
-      }
+      // Upsert the latest view; snapshots were already recorded for cached results
+      const { doc, updated, snapshotCount } = await saveSerpData(transformedData, adultsCount, { recordHistory: !cached });
+      savedSerpData = doc;
+      console.log(`[POST /serpapi/fetch-rates] ${updated ? 'Updated existing' : 'Created new'} SerpData, _id:`, savedSerpData._id?.toString(), `(${snapshotCount} snapshots)`);
     } catch (dbError: unknown) {
       console.error('Database save error:', dbError);
       if (dbError instanceof Error) {
@@ -403,13 +445,19 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
     return res.json({
       success: true,
       data: ratesData,
+      cached,
+      fetchedAt,
+      ...(warning && { warnings: [warning] }),
       savedToDatabase: !!savedSerpData,
       databaseId: savedSerpData?._id || null,
       query: {
         hotelName,
         hotelQuery,
+        propertyToken: propertyToken ?? null,
         checkInDate: formattedCheckIn,
         checkOutDate: formattedCheckOut,
+        adults: adultsCount,
+        childrenAges: childrenAges ?? [],
         gl,
         hl,
         currency,
@@ -418,6 +466,14 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
   } catch (error: unknown) {
     console.error('Fetch rates error:', error);
 
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({
+        error: 'Quota exceeded',
+        message: error.message,
+        quota: error.quota,
+      });
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     // Handle specific error types
@@ -428,6 +484,14 @@ app.post('/serpapi/fetch-rates', validateFetchRates, async (req: Request<{}, {},
       });
     }
 
+    if (error instanceof SerpApiError) {
+      return res.status(serpApiErrorStatus(error)).json({
+        error: 'Failed to fetch hotel rates',
+        kind: error.kind,
+        message: errorMessage,
+      });
+    }
+
     if (errorMessage.includes('Invalid date')) {
       return res.status(400).json({
         error: 'Invalid date format',
@@ -451,17 +515,23 @@ app.get('/health', (_req: Request, res: Response) => {
     status: 'ok',
     service: 'serpapi-service',
     hasApiKey: !!process.env.SERP_API_KEY,
+    rateProvider: process.env.RATE_PROVIDER || 'serpapi',
+    circuitBreaker: serpApiBreaker.snapshot(),
   });
 });
 
 /**
- * Batch fetch rates for all hotels from constants
+ * Batch fetch rates for every hotel in the caller's comp set
+ * (own property first, then competitors). Uses the default comp set
+ * unless compSetId is given.
+ *
+ * The work runs in the background: the response carries a job ID to poll
+ * with GET /serpapi/jobs/:id.
  * POST /serpapi/batch-fetch-rates
  */
-app.post('/serpapi/batch-fetch-rates', async (req: Request, res: Response) => {
+app.post('/serpapi/batch-fetch-rates', authenticateToken, authorizeProperty(), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { checkInDate, checkOutDate, adults } = req.body;
-    const results: any[] = [];
+    const { checkInDate, checkOutDate, adults, compSetId } = req.body;
 
     // Validate checkInDate
     if (!checkInDate) {
@@ -491,165 +561,154 @@ app.post('/serpapi/batch-fetch-rates', async (req: Request, res: Response) => {
       });
     }
 
-    // Validate adults (default to 2, accept 2, 3, 4, 5)
+    // Validate adults (default to 2, accept 1 to 6)
     const adultsCount = adults !== undefined ? Number(adults) : 2;
-    if (isNaN(adultsCount) || adultsCount < 2 || adultsCount > 5 || !Number.isInteger(adultsCount)) {
+    if (isNaN(adultsCount) || adultsCount < 1 || adultsCount > 6 || !Number.isInteger(adultsCount)) {
       return res.status(400).json({ 
         success: false, 
-        error: "adults must be an integer between 2 and 5 (default: 2)" 
+        error: "adults must be an integer between 1 and 6 (default: 2)" 
       });
     }
 
+    // Resolve the comp set to shop
+    const compSet = await findCompSet(resourceScope(req), compSetId);
+    if (!compSet) {
+      return res.status(404).json({
+        success: false,
+        error: compSetId ? "Comp set not found" : "No comp set configured. Create one via /api/compsets",
+      });
+    }
+    const hotels = getCompSetHotels(compSet);
+
+    // Nothing to queue if the account is out of searches and rejects extra work
+    const quota = await getQuotaStatus(req.user!.id);
+    if (quota.remaining === 0 && quota.action === 'reject') {
+      return res.status(429).json({ success: false, error: 'Monthly search quota exhausted', quota });
+    }
+
     const todayStr = formatDate(today);
     const checkoutStr = formatDate(checkout);
 
-    console.log(`\n[BATCH FETCH] Starting for ${hotels.length} hotels.`);
+    const job = await BatchJob.create({
+      ...resourceScope(req),
+      compSetId: compSet._id,
+      params: {
+        checkInDate: todayStr,
+        checkOutDate: checkoutStr,
+        adults: adultsCount,
+        gl: 'us',
+        hl: 'en',
+        currency: 'USD',
+      },
+      items: hotels.map(hotel => ({ hotelName: hotel.name, propertyToken: hotel.property_token, status: 'pending' })),
+    });
+
+    console.log(`\n[BATCH FETCH] Queued job ${job.id}: ${hotels.length} hotels in comp set "${compSet.name}".`);
     console.log(`[BATCH FETCH] Date range: ${todayStr} → ${checkoutStr}`);
     console.log(`[BATCH FETCH] Adults: ${adultsCount}`);
 
-    for (const hotel of hotels) {
-      const hotelName = hotel.name;
-      console.log(`\n[BATCH FETCH] Processing: ${hotelName}`);
-
-      try {
-        const hotelQuery = formatHotelQuery(hotelName);
-
-        // Fetch SerpAPI Data
-        const ratesData = await fetchHotelRates({
-          hotelQuery,
-          checkInDate: todayStr,
-          checkOutDate: checkoutStr,
-          gl: 'us',
-          hl: 'en',
-          currency: 'USD',
-          adults: adultsCount
-        });
-
-        const transformed = transformSerpApiResponse(ratesData, {
-          hotelQuery,
-          checkInDate: todayStr,
-          checkOutDate: checkoutStr,
-          gl: 'us',
-          hl: 'en',
-          currency: 'USD',
-          adults: adultsCount
-        });
+    batchWorker.enqueue(job.id);
 
-        let savedDoc = null;
-
-        // ------------------------
-        //     SAVE TO DATABASE
-        // ------------------------
-       try {
-  // Check if data already exists by hotel name, check-in date, check-out date, and adults
-  const checkInDateObj = new Date(todayStr);
-  const checkOutDateObj = new Date(checkoutStr);
-  const checkInStart = new Date(checkInDateObj);
-  checkInStart.setHours(0, 0, 0, 0);
-  const checkInEnd = new Date(checkInDateObj);
-  checkInEnd.setHours(23, 59, 59, 999);
-  const checkOutStart = new Date(checkOutDateObj);
-  checkOutStart.setHours(0, 0, 0, 0);
-  const checkOutEnd = new Date(checkOutDateObj);
-  checkOutEnd.setHours(23, 59, 59, 999);
-  
-  const existingData = await SerpData.findOne({
-    $or: [
-      { property_token: transformed.property_token },
-      { name: transformed.name },
-    ],
-    'search_parameters.check_in_date': {
-      $gte: checkInStart,
-      $lte: checkInEnd,
-    },
-    'search_parameters.check_out_date': {
-      $gte: checkOutStart,
-      $lte: checkOutEnd,
-    },
-    'search_parameters.adults': adultsCount,
-  });
+    return res.status(202).json({
+      success: true,
+      message: `Batch fetch queued`,
+      jobId: job._id,
+      statusUrl: `/serpapi/jobs/${job.id}`,
+      compSetId: compSet._id,
+      hotelCount: hotels.length,
+    });
 
-  if (existingData) {
-    // Update existing record
-    Object.assign(existingData, transformed);
-    savedDoc = await existingData.save();
-    console.log(
-      `[DB] Updated existing record for ${hotelName} (${todayStr} -> ${checkoutStr})`
-    );
-  } else {
-    // Create new record
-    savedDoc = await SerpData.create(transformed);
-    console.log(
-      `[DB] Created new record for ${hotelName} (${todayStr} -> ${checkoutStr})`
-    );
+  } catch (fatalError: any) {
+    console.error("\n🔥 FATAL BATCH ERROR:", fatalError);
+    return res.status(500).json({
+      success: false,
+      error: "Fatal server error",
+      message: fatalError.message,
+    });
   }
+});
 
-  results.push({
-    hotelName,
-    checkIn: todayStr,
-    checkOut: checkoutStr,
-    success: true,
-    databaseId: savedDoc?._id || null,
-    updated: !!existingData
-  });
-
-} catch (dbError: any) {
-  console.error(`\n❌ [DB ERROR] FAILED to save ${hotelName}`);
-  console.error(`Message: ${dbError.message}`);
-  console.error(`Code: ${dbError.code}`);
-  console.error("Field Errors:", dbError.errors);
-  console.error("Full Error:", dbError);
-
-  results.push({
-    hotelName,
-    checkIn: todayStr,
-    checkOut: checkoutStr,
-    success: false,
-    error: dbError.message,
-    fieldErrors: dbError.errors,
-  });
-
-  continue; // Move to next hotel
-}
-
+/**
+ * Shop a matrix of stay dates x lengths of stay x occupancies for every
+ * hotel in the caller's comp set. Each cell is one search; cached results
+ * are reused and the rest count against the monthly quota.
+ *
+ * Runs in the background like batch-fetch-rates; poll GET /serpapi/jobs/:id
+ * and read the results with GET /serpapi/jobs/:id/grid.
+ * POST /serpapi/matrix-fetch-rates
+ */
+app.post('/serpapi/matrix-fetch-rates', authenticateToken, authorizeProperty(), validateRateMatrix, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { compSetId, checkInFrom, checkInTo, los, occupancies, gl, hl, currency, maxSearches } = req.body;
+    const matrix = { checkInFrom, checkInTo, los, occupancies };
+
+    const compSet = await findCompSet(resourceScope(req), compSetId);
+    if (!compSet) {
+      return res.status(404).json({
+        success: false,
+        error: compSetId ? 'Comp set not found' : 'No comp set configured. Create one via /api/compsets',
+      });
+    }
+    const hotels = getCompSetHotels(compSet);
 
-      } catch (fetchError: any) {
-        console.error(`\n❌ [FETCH ERROR] Failed to fetch rates for ${hotelName}`);
-        console.error(fetchError);
+    const totalSearches = countMatrixSearches(matrix, hotels.length);
+    if (totalSearches > maxSearches) {
+      return res.status(400).json({
+        success: false,
+        error: `Matrix expands into ${totalSearches} searches; the limit is ${maxSearches}. Narrow the dates, LOS or occupancies.`,
+        totalSearches,
+      });
+    }
 
-        results.push({
-          hotelName,
-          checkIn: todayStr,
-          checkOut: checkoutStr,
-          success: false,
-          error: fetchError.message,
-        });
-      }
+    const items = expandRateMatrix(matrix, hotels);
+    const params = {
+      checkInDate: checkInFrom,
+      checkOutDate: addDays(checkInTo, Math.max(...los)),
+      adults: occupancies[0].adults,
+      gl,
+      hl,
+      currency,
+      matrix,
+    };
 
-      // Rate Limit Protection
-      await new Promise(res => setTimeout(res, 1000));
+    // Only searches the cache can't answer cost anything
+    const billableSearches = countUncachedSearches(items, params, getRateProvider().name);
+    const quota = await getQuotaStatus(req.user!.id);
+    if (quota.remaining !== null && billableSearches > quota.remaining && quota.action === 'reject') {
+      return res.status(429).json({
+        success: false,
+        error: `Matrix needs ${billableSearches} searches but only ${quota.remaining} remain this month`,
+        billableSearches,
+        quota,
+      });
     }
 
-    const successCount = results.filter(r => r.success).length;
-    const failureCount = results.length - successCount;
+    const job = await BatchJob.create({
+      ...resourceScope(req),
+      compSetId: compSet._id,
+      type: 'matrix',
+      params,
+      items,
+    });
 
-    console.log(`\n[BATCH FETCH] Completed: ${successCount} ✓  /  ${failureCount} ✗`);
+    console.log(`\n[MATRIX FETCH] Queued job ${job.id}: ${totalSearches} searches (${billableSearches} not cached) for comp set "${compSet.name}".`);
 
-    return res.json({
-      success: true,
-      message: `Batch fetch completed`,
-      successCount,
-      failureCount,
-      results,
-    });
+    batchWorker.enqueue(job.id);
 
-  } catch (fatalError: any) {
-    console.error("\n🔥 FATAL BATCH ERROR:", fatalError);
-    return res.status(500).json({
-      success: false,
-      error: "Fatal server error",
-      message: fatalError.message,
+    return res.status(202).json({
+      success: true,
+      message: 'Matrix fetch queued',
+      jobId: job._id,
+      statusUrl: `/serpapi/jobs/${job.id}`,
+      gridUrl: `/serpapi/jobs/${job.id}/grid`,
+      compSetId: compSet._id,
+      hotelCount: hotels.length,
+      totalSearches,
+      billableSearches,
     });
+  } catch (error) {
+    console.error('Matrix fetch error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to queue matrix fetch' });
   }
 });
 
@@ -657,6 +716,10 @@ app.post('/serpapi/batch-fetch-rates', async (req: Request, res: Response) => {
 // Connect to database and start server
 const startServer = async () => {
   try {
+    // Fail fast on an unknown RATE_PROVIDER
+    const rateProvider = getRateProvider();
+    console.log(`Rate provider: ${rateProvider.name}`);
+
     // Connect to MongoDB
     await connectDB();
 
@@ -667,6 +730,31 @@ const startServer = async () => {
         console.warn('⚠️  WARNING: SERP_API_KEY is not set in environment variables');
       }
     });
+
+    // Load FX rates from a local file (optional; a bad file doesn't stop the service)
+    if (process.env.FX_RATES_FILE) {
+      try {
+        const { inserted, updated } = await loadFxRatesFile(process.env.FX_RATES_FILE);
+        console.log(`FX rates loaded from ${process.env.FX_RATES_FILE}: ${inserted} new, ${updated} updated`);
+      } catch (error) {
+        console.error('Failed to load FX rates file:', error);
+      }
+    }
+
+    // Pick up batch jobs interrupted by a restart
+    await batchWorker.recover();
+
+    // Start scheduled rate shopping (set SCHEDULER_ENABLED=false to run it elsewhere)
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      // Runs interrupted by a restart are marked failed first
+      await scheduler.recover();
+      scheduler.start();
+    }
+
+    // Deliver alert webhooks and emails (set ALERT_DISPATCHER_ENABLED=false to run it elsewhere)
+    if (process.env.ALERT_DISPATCHER_ENABLED !== 'false') {
+      alertDispatcher.start();
+    }
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -677,13 +765,79 @@ startServer();
 
 export default app;
 
-// GET /api/calendarData
-app.get('/api/calendarData', async (_req: Request, res: Response) => {
+// GET /api/calendarData?hotel=A,B&checkInFrom=2025-12-01&checkInTo=2025-12-31&adults=2&ota=Expedia.com&currency=USD&displayCurrency=EUR&market=waupaca,%20wi&limit=200&cursor=...
+// With market, each row lists the events in those markets that cover its check-in date
+// Without a token, the default channel configuration is used and market events are left out
+app.get('/api/calendarData', optionalAuthenticateToken, authorizeProperty(), validateCalendarQuery, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const data = await fetchSerpDataSummaries();
-    res.json({ success: true, data });
+    const { market, ...filters } = req.query as unknown as SerpDataSummaryFilters & { market?: string[] };
+    const scope = req.user ? resourceScope(req) : undefined;
+    const channelConfig = await getChannelConfig(scope);
+    const { data, nextCursor } = await fetchSerpDataSummaries(filters, channelConfig);
+    if (market?.length && scope) {
+      await annotateWithEvents(data, scope, market);
+    }
+    res.json({
+      success: true,
+      data,
+      pageInfo: {
+        nextCursor,
+        hasMore: !!nextCursor,
+      },
+    });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({ success: false, error: 'Invalid cursor' });
+      return;
+    }
     console.error('Error fetching calendar data:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch calendar data' });
   }
 });
+
+// GET /api/calendarData/export?format=csv|xlsx&hotel=A,B&checkInFrom=2025-12-01&checkInTo=2025-12-31&adults=2&ota=Expedia.com&displayCurrency=EUR
+// One row per stay date, lowest and before-tax rate columns per hotel/channel; streamed as it is read
+app.get('/api/calendarData/export', authenticateToken, authorizeProperty(), validateCalendarExportQuery, async (req: AuthenticatedRequest, res: Response) => {
+  const { format, ...filters } = req.query as unknown as CalendarExportFilters & { format: 'csv' | 'xlsx' };
+
+  try {
+    const channelConfig = await getChannelConfig(resourceScope(req));
+    const rows = calendarExportRows(filters, channelConfig);
+
+    // Read the header before responding so setup errors can still answer with JSON
+    const header = await rows.next();
+    const allRows = (async function* () {
+      if (!header.done) yield header.value;
+      yield* rows;
+    })();
+
+    const range = [filters.checkInFrom, filters.checkInTo].filter(Boolean).join('_to_');
+    const fileName = `rate-calendar${range ? `-${range}` : ''}.${format}`;
+    res.setHeader('Content-Type', format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'xlsx') {
+      await writeXlsx(res, allRows, 'Rate calendar');
+    } else {
+      await writeCsv(res, allRows);
+    }
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      // Part of the file is already out; cut the download so it isn't mistaken for a complete one
+      if (!(error instanceof Error && error.message === 'Export aborted')) {
+        console.error('Calendar export failed mid-stream:', error);
+      }
+      res.destroy();
+      return;
+    }
+    if (error instanceof MixedCurrencyExportError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Error exporting calendar data:', error);
+    res.status(500).json({ success: false, error: 'Failed to export calendar data' });
+  }
+});
@@ -0,0 +1,101 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import RateSnapshot from '../models/RateSnapshot';
+import { detectRateChanges } from '../utils/alerts';
+import { missingThresholdProblem } from '../validators/alerts';
+
+type Snapshot = Parameters<typeof detectRateChanges>[0][number];
+
+const snapshot = (overrides: Partial<Snapshot>): Snapshot => ({
+  property: 'Grand Hotel New York',
+  property_token: 'grand-token',
+  checkInDate: new Date('2026-03-04T00:00:00Z'),
+  checkOutDate: new Date('2026-03-05T00:00:00Z'),
+  los: 1,
+  adults: 2,
+  children: 0,
+  ota: 'Booking.com',
+  currency: 'USD',
+  rate_per_night: { extracted_lowest: 100 },
+  shoppedAt: new Date('2026-03-01T06:00:00Z'),
+  ...overrides,
+});
+
+/**
+ * Whether a stored value satisfies one field of a MongoDB filter
+ */
+function matches(value: unknown, condition: unknown): boolean {
+  if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+    const { $in, $lt, $type } = condition as { $in?: unknown[]; $lt?: Date; $type?: string };
+    if ($in) return $in.includes(value ?? null);
+    if ($lt) return value instanceof Date && value < $lt;
+    if ($type) return typeof value === $type;
+  }
+  if (value instanceof Date && condition instanceof Date) return value.getTime() === condition.getTime();
+  return value === condition;
+}
+
+/**
+ * Serve RateSnapshot.findOne from stored snapshots (latest shop first)
+ */
+function storeSnapshots(stored: Record<string, unknown>[]) {
+  mock.method(RateSnapshot, 'findOne', (filter: Record<string, unknown>) => ({
+    sort: () => ({
+      lean: async () => {
+        const found = stored
+          .filter(doc => Object.entries(filter).every(([path, condition]) => {
+            const value = path.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], doc);
+            return matches(value, condition);
+          }))
+          .sort((a, b) => (b.shoppedAt as Date).getTime() - (a.shoppedAt as Date).getTime());
+        return found[0] ?? null;
+      },
+    }),
+  }));
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('detectRateChanges', () => {
+  it('compares a shop with the previous shop of the same occupancy', async () => {
+    storeSnapshots([{ ...snapshot({}), rate_per_night: { extracted_lowest: 90 } }]);
+
+    const changes = await detectRateChanges([snapshot({ shoppedAt: new Date('2026-03-02T06:00:00Z') })]);
+
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].previousRate, 90);
+    assert.equal(changes[0].change, 10);
+  });
+
+  it('does not compare a stay with children against an adults-only one', async () => {
+    storeSnapshots([{ ...snapshot({}), rate_per_night: { extracted_lowest: 90 } }]);
+
+    const changes = await detectRateChanges([
+      snapshot({ children: 1, rate_per_night: { extracted_lowest: 140 }, shoppedAt: new Date('2026-03-02T06:00:00Z') }),
+    ]);
+
+    assert.deepEqual(changes, []);
+  });
+
+  it('treats snapshots stored without a children count as adults-only', async () => {
+    const older: Record<string, unknown> = snapshot({ rate_per_night: { extracted_lowest: 90 } });
+    delete older.children;
+    storeSnapshots([older]);
+
+    const changes = await detectRateChanges([snapshot({ shoppedAt: new Date('2026-03-02T06:00:00Z') })]);
+
+    assert.equal(changes.length, 1);
+  });
+});
+
+describe('missingThresholdProblem', () => {
+  it('refuses a rule left without any threshold', () => {
+    const stored = { thresholdPct: 10, thresholdAmount: null };
+
+    assert.equal(missingThresholdProblem(stored), null);
+    assert.equal(missingThresholdProblem({ ...stored, thresholdPct: null }), 'Provide thresholdPct, thresholdAmount or both');
+    assert.equal(missingThresholdProblem({ ...stored, thresholdPct: null, thresholdAmount: 15 }), null);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import SerpData from '../models/SerpData';
+import { calendarExportRows, MixedCurrencyExportError } from '../utils/calendarExport';
+import { DEFAULT_CHANNELS, ResolvedChannelConfig } from '../utils/channels';
+
+const config: ResolvedChannelConfig = {
+  channels: DEFAULT_CHANNELS.filter(channel => channel.key === 'booking'),
+  includeBrand: false,
+  brandLabel: 'Brand.com',
+  isDefault: true,
+};
+
+/**
+ * A stored search as the calendar aggregation projects it
+ */
+const search = (checkIn: string, nights: number, rate: number, currency = 'USD') => ({
+  _id: new Types.ObjectId(),
+  name: 'Grand Hotel New York',
+  search_parameters: {
+    check_in_date: new Date(`${checkIn}T00:00:00Z`),
+    check_out_date: new Date(new Date(`${checkIn}T00:00:00Z`).getTime() + nights * 24 * 60 * 60 * 1000),
+    currency,
+    adults: 2,
+  },
+  featured_prices: [{ source: 'Booking.com', rate_per_night: { extracted_lowest: rate, extracted_before_taxes_fees: rate - 10 } }],
+});
+
+function storeSearches(searches: ReturnType<typeof search>[]) {
+  const currencies = Array.from(new Set(searches.map(doc => doc.search_parameters.currency)));
+  mock.method(SerpData, 'distinct', async () => currencies);
+  mock.method(SerpData, 'aggregate', async () => searches);
+}
+
+async function collect(rows: AsyncIterable<unknown[]>) {
+  const collected: unknown[][] = [];
+  for await (const row of rows) collected.push(row);
+  return collected;
+}
+
+const filters = { hotel: ['Grand Hotel New York'], adults: 2, children: 0, los: 1 };
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('calendarExportRows', () => {
+  it('fills each cell from searches of the requested length of stay only', async () => {
+    storeSearches([search('2026-03-04', 1, 120), search('2026-03-04', 3, 95)]);
+
+    const [header, row] = await collect(calendarExportRows(filters, config));
+
+    assert.deepEqual(header, [
+      'Stay date',
+      'Currency',
+      'Grand Hotel New York - Booking.com (lowest)',
+      'Grand Hotel New York - Booking.com (before taxes)',
+    ]);
+    assert.deepEqual(row, ['2026-03-04', 'USD', 120, 110]);
+  });
+
+  it('refuses searches in several currencies without a displayCurrency', async () => {
+    storeSearches([search('2026-03-04', 1, 120, 'USD'), search('2026-03-05', 1, 100, 'EUR')]);
+
+    await assert.rejects(collect(calendarExportRows(filters, config)), (error: unknown) => {
+      assert.ok(error instanceof MixedCurrencyExportError);
+      assert.deepEqual(error.currencies, ['EUR', 'USD']);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ManualClock, sleep } from '../utils/clock';
+
+// Let pending promise callbacks run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ManualClock', () => {
+  it('starts at the given time and only moves when advanced', () => {
+    const clock = new ManualClock(new Date('2026-03-01T10:00:00Z'));
+
+    assert.equal(clock.now().toISOString(), '2026-03-01T10:00:00.000Z');
+    clock.advance(90_000);
+    assert.equal(clock.now().toISOString(), '2026-03-01T10:01:30.000Z');
+  });
+
+  it('fires timers in due order, with now() at each due time', () => {
+    const clock = new ManualClock(new Date(0));
+    const fired: [string, number][] = [];
+
+    clock.setTimeout(() => fired.push(['late', clock.now().getTime()]), 300);
+    clock.setTimeout(() => fired.push(['early', clock.now().getTime()]), 100);
+    clock.setTimeout(() => fired.push(['never', clock.now().getTime()]), 1000);
+
+    clock.advance(500);
+
+    assert.deepEqual(fired, [['early', 100], ['late', 300]]);
+    assert.equal(clock.now().getTime(), 500);
+    assert.equal(clock.pendingTimers(), 1);
+  });
+
+  it('fires timers scheduled by a firing timer within the same advance', () => {
+    const clock = new ManualClock(new Date(0));
+    const fired: number[] = [];
+
+    clock.setTimeout(() => {
+      fired.push(clock.now().getTime());
+      clock.setTimeout(() => fired.push(clock.now().getTime()), 100);
+    }, 100);
+
+    clock.advance(250);
+
+    assert.deepEqual(fired, [100, 200]);
+  });
+
+  it('does not fire cleared timers', () => {
+    const clock = new ManualClock();
+    let fired = false;
+
+    const handle = clock.setTimeout(() => { fired = true; }, 10);
+    clock.clearTimeout(handle);
+    clock.advance(100);
+
+    assert.equal(fired, false);
+    assert.equal(clock.pendingTimers(), 0);
+  });
+});
+
+describe('sleep', () => {
+  it('resolves once the clock has advanced by the given time', async () => {
+    const clock = new ManualClock();
+    let done = false;
+
+    sleep(clock, 1000).then(() => { done = true; });
+
+    clock.advance(999);
+    await flush();
+    assert.equal(done, false);
+
+    clock.advance(1);
+    await flush();
+    assert.equal(done, true);
+  });
+
+  it('resolves right away for zero or negative durations', async () => {
+    const clock = new ManualClock();
+
+    await sleep(clock, 0);
+    await sleep(clock, -5);
+
+    assert.equal(clock.pendingTimers(), 0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextRunDate, isValidCron } from '../utils/cron';
+
+const next = (expression: string, after: string) => getNextRunDate(expression, new Date(after)).toISOString();
+
+describe('getNextRunDate', () => {
+  it('returns the next matching minute, strictly after the reference time', () => {
+    assert.equal(next('*/15 * * * *', '2026-03-01T10:07:42Z'), '2026-03-01T10:15:00.000Z');
+    assert.equal(next('*/15 * * * *', '2026-03-01T10:15:00Z'), '2026-03-01T10:30:00.000Z');
+  });
+
+  it('expands macros', () => {
+    assert.equal(next('@hourly', '2026-03-01T10:07:00Z'), '2026-03-01T11:00:00.000Z');
+    assert.equal(next('@daily', '2026-03-01T10:07:00Z'), '2026-03-02T00:00:00.000Z');
+    assert.equal(next('@monthly', '2026-12-15T00:00:00Z'), '2027-01-01T00:00:00.000Z');
+  });
+
+  it('matches days of the week, with 7 as Sunday', () => {
+    // 2026-03-01 is a Sunday
+    assert.equal(next('0 6 * * 1-5', '2026-03-01T00:00:00Z'), '2026-03-02T06:00:00.000Z');
+    assert.equal(next('30 8 * * 7', '2026-03-02T00:00:00Z'), '2026-03-08T08:30:00.000Z');
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    // The 15th, or any Monday
+    assert.equal(next('0 0 15 * 1', '2026-03-03T00:00:00Z'), '2026-03-09T00:00:00.000Z');
+    assert.equal(next('0 0 15 * 1', '2026-03-09T00:00:00Z'), '2026-03-15T00:00:00.000Z');
+  });
+});
+
+describe('isValidCron', () => {
+  it('accepts lists, ranges and steps', () => {
+    assert.equal(isValidCron('0,30 9-17/2 * 1-6 *'), true);
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.equal(isValidCron('* * * *'), false);
+    assert.equal(isValidCron('60 * * * *'), false);
+    assert.equal(isValidCron('*/0 * * * *'), false);
+    assert.equal(isValidCron('5-1 * * * *'), false);
+  });
+});
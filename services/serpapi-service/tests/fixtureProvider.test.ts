@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixtureProvider, RateQuery, getRateProvider, registerRateProvider, listRateProviders } from '../providers';
+import { ManualClock } from '../utils/clock';
+
+const query = (overrides: Partial<RateQuery> = {}): RateQuery => ({
+  hotelName: 'Grand Hotel New York',
+  hotelQuery: 'grand+hotel+new+york',
+  checkInDate: '2026-03-04', // a Wednesday
+  checkOutDate: '2026-03-05',
+  adults: 2,
+  gl: 'us',
+  hl: 'en',
+  currency: 'USD',
+  ...overrides,
+});
+
+const officialRate = (provider: FixtureProvider, overrides: Partial<RateQuery> = {}) =>
+  provider.buildRates(query(overrides)).featured_prices.find(price => price.official)!.rate_per_night!.extracted_lowest!;
+
+describe('FixtureProvider', () => {
+  it('returns the same prices for the same query', async () => {
+    const first = await new FixtureProvider().fetchRates(query());
+    const second = await new FixtureProvider().fetchRates(query());
+
+    assert.equal(first.provider, 'fixture');
+    assert.deepEqual(first.rates.featured_prices, second.rates.featured_prices);
+    assert.equal(first.rates.property_token, second.rates.property_token);
+  });
+
+  it('takes its timestamps from the injected clock', () => {
+    const clock = new ManualClock(new Date('2026-03-01T06:00:00Z'));
+    const rates = new FixtureProvider({ clock }).buildRates(query());
+
+    assert.equal(rates.search_metadata.created_at.toISOString(), '2026-03-01T06:00:00.000Z');
+    assert.equal(rates.search_parameters.engine, 'fixture');
+    assert.equal(rates.search_parameters.check_in_date.toISOString(), '2026-03-04T00:00:00.000Z');
+  });
+
+  it('prices an official rate plus each OTA within 8% of it', () => {
+    const otas = ['Booking.com', 'Agoda'];
+    const { featured_prices } = new FixtureProvider({ otas }).buildRates(query());
+    const [official, ...others] = featured_prices;
+
+    assert.equal(official.official, true);
+    assert.equal(official.source, 'Grand Hotel New York');
+    assert.deepEqual(others.map(price => price.source), otas);
+
+    for (const price of others) {
+      const ratio = price.rate_per_night!.extracted_lowest! / official.rate_per_night!.extracted_lowest!;
+      assert.ok(ratio >= 0.91 && ratio <= 1.08, `${price.source} at ${ratio}`);
+      assert.ok(price.rate_per_night!.extracted_before_taxes_fees! < price.rate_per_night!.extracted_lowest!);
+    }
+  });
+
+  it('charges more for weekends and extra guests', () => {
+    const provider = new FixtureProvider();
+    const weekday = officialRate(provider);
+
+    assert.ok(officialRate(provider, { checkInDate: '2026-03-06', checkOutDate: '2026-03-07' }) > weekday);
+    assert.ok(officialRate(provider, { adults: 4 }) > weekday);
+    assert.ok(officialRate(provider, { childrenAges: [6, 9] }) > weekday);
+  });
+
+  it('keeps a pinned property token', () => {
+    const rates = new FixtureProvider().buildRates(query({ propertyToken: 'pinned-token' }));
+
+    assert.equal(rates.property_token, 'pinned-token');
+  });
+
+  it('finds the named property and a same-named one elsewhere', async () => {
+    const candidates = await new FixtureProvider().searchProperties({
+      query: 'Grand Hotel New York',
+      checkInDate: '2026-03-04',
+      checkOutDate: '2026-03-05',
+      gl: 'us',
+      hl: 'en',
+      currency: 'USD',
+    });
+
+    assert.deepEqual(candidates.map(candidate => candidate.name), ['Grand Hotel New York', 'Grand Hotel New York (Airport)']);
+    assert.notEqual(candidates[0].property_token, candidates[1].property_token);
+  });
+});
+
+describe('rate provider registry', () => {
+  it('selects the fixture provider by name and reuses the instance', () => {
+    const provider = getRateProvider('fixture');
+
+    assert.ok(provider instanceof FixtureProvider);
+    assert.equal(getRateProvider('fixture'), provider);
+  });
+
+  it('registers additional providers', () => {
+    const custom = new FixtureProvider({ otas: [] });
+    registerRateProvider('custom-test', () => custom);
+
+    assert.ok(listRateProviders().includes('custom-test'));
+    assert.equal(getRateProvider('custom-test'), custom);
+  });
+
+  it('rejects unknown names', () => {
+    assert.throws(() => getRateProvider('nope'), /Unknown rate provider "nope"/);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatHotelQuery, hotelNamePattern } from '../utils/formatters';
+
+describe('hotelNamePattern', () => {
+  it('matches every name that formats to the hotel query', () => {
+    const names = ["O'Hare Inn", 'OHARE INN', ' O’Hare  Inn ', 'Ohare-Inn', 'ohare inn.'];
+
+    for (const name of names) {
+      assert.equal(formatHotelQuery(name), 'ohare+inn', name);
+      assert.match(name, hotelNamePattern('ohare+inn'), name);
+    }
+  });
+
+  it('does not match other hotels', () => {
+    const pattern = hotelNamePattern('motel+6+wisconsin+rapids+wi');
+
+    assert.match('Motel 6-Wisconsin Rapids, WI', pattern);
+    assert.doesNotMatch('Motel 6 Wisconsin Rapids', pattern);
+    assert.doesNotMatch('Motel 66 Wisconsin Rapids WI', pattern);
+    assert.doesNotMatch('Super Motel 6 Wisconsin Rapids WI', pattern);
+  });
+
+  it('treats regular expression characters in the query literally', () => {
+    assert.doesNotMatch('Inn X', hotelNamePattern('inn.x'));
+    assert.match('inn.x', hotelNamePattern('inn.x'));
+  });
+});
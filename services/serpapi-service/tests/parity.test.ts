@@ -0,0 +1,60 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import SerpData from '../models/SerpData';
+import { getParityReport } from '../utils/parity';
+import { DEFAULT_CHANNELS, ResolvedChannelConfig } from '../utils/channels';
+
+const config: ResolvedChannelConfig = {
+  channels: DEFAULT_CHANNELS.filter(channel => channel.key === 'booking'),
+  includeBrand: false,
+  brandLabel: 'Brand.com',
+  isDefault: true,
+};
+
+/**
+ * A stored search as the parity query selects it
+ */
+const search = (checkIn: string, rate: number) => ({
+  _id: new Types.ObjectId(),
+  name: 'Grand Hotel New York',
+  search_parameters: {
+    check_in_date: new Date(`${checkIn}T00:00:00Z`),
+    check_out_date: new Date(new Date(`${checkIn}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000),
+    currency: 'USD',
+    adults: 2,
+  },
+  search_metadata: { created_at: new Date('2026-03-01T06:00:00Z') },
+  featured_prices: [
+    { source: 'Grand Hotel New York', official: true, rate_per_night: { extracted_lowest: 100 } },
+    { source: 'Booking.com', rate_per_night: { extracted_lowest: rate } },
+  ],
+});
+
+function storeSearches(searches: ReturnType<typeof search>[]) {
+  const query = { select: () => query, sort: () => query, lean: async () => searches };
+  mock.method(SerpData, 'find', () => query);
+}
+
+const params = {
+  property: 'Grand Hotel New York',
+  checkInFrom: '2026-03-04',
+  checkInTo: '2026-03-05',
+  adults: 2,
+  tolerance: { percent: 0, amount: 0 },
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('getParityReport', () => {
+  it('counts each stay date once however many searches cover it', async () => {
+    storeSearches([search('2026-03-04', 95), search('2026-03-04', 98), search('2026-03-05', 100)]);
+
+    const report = await getParityReport(params, config);
+
+    assert.equal(report.summary.stayDates, 2);
+    assert.equal(report.summary.undercuts.afterTax, 2);
+  });
+});
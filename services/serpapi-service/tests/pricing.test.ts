@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { recommendRate, RuleSetDefinition, StayDateMarket } from '../utils/pricing';
+import { rateStats } from '../utils/rateIndex';
+
+const ruleSet = {
+  rules: [{ name: 'Median', enabled: true, base: 'median', adjustment: { type: 'amount', value: -5 } }],
+  floor: 90,
+  ceiling: 250,
+  currency: null,
+  rounding: 1,
+} as unknown as RuleSetDefinition;
+
+const market = (overrides: Partial<StayDateMarket> = {}): StayDateMarket => ({
+  date: '2026-03-04',
+  currency: 'USD',
+  ownRate: 104,
+  compSet: rateStats([92, 80, 130, 100]),
+  ...overrides,
+});
+
+describe('recommendRate', () => {
+  it('prices a date from the comp set, held between floor and ceiling', () => {
+    const recommendation = recommendRate(ruleSet, market());
+
+    assert.equal(recommendation.suggestedRate, 91);
+    assert.equal(recommendation.rule?.name, 'Median');
+  });
+
+  it('does not price a date whose rates are in different currencies', () => {
+    const recommendation = recommendRate(ruleSet, market({ currency: null, mixedCurrencies: true }));
+
+    assert.equal(recommendation.suggestedRate, null);
+    assert.equal(recommendation.rule, null);
+    assert.match(recommendation.explanation, /different currencies/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixtureProvider, RateProvider, RateQuery, RateProviderResult } from '../providers';
+import { RateCache } from '../utils/rateCache';
+import { ManualClock } from '../utils/clock';
+
+const query: RateQuery = {
+  hotelName: 'Grand Hotel New York',
+  hotelQuery: 'grand+hotel+new+york',
+  checkInDate: '2026-03-04',
+  checkOutDate: '2026-03-05',
+  adults: 2,
+  gl: 'us',
+  hl: 'en',
+  currency: 'USD',
+};
+
+/**
+ * Provider whose calls only finish when the test says so
+ */
+function deferredProvider() {
+  const fixture = new FixtureProvider();
+  const pending: (() => void)[] = [];
+  let calls = 0;
+
+  const provider: RateProvider = {
+    name: 'fixture',
+    fetchRates: (rateQuery: RateQuery) => {
+      calls++;
+      return new Promise<RateProviderResult>(resolve => {
+        pending.push(() => resolve(fixture.fetchRates(rateQuery)));
+      });
+    },
+  };
+
+  return {
+    provider,
+    calls: () => calls,
+    finish: () => pending.splice(0).forEach(resolve => resolve()),
+  };
+}
+
+const quotaError = () => Promise.reject(new Error('Quota of caller B exhausted'));
+
+describe('RateCache', () => {
+  it('reuses fresh results until the TTL passes', async () => {
+    const clock = new ManualClock(new Date('2026-03-01T00:00:00Z'));
+    const cache = new RateCache({ clock, ttlMs: 60_000 });
+    const { provider, calls, finish } = deferredProvider();
+
+    const first = cache.fetch(provider, query);
+    finish();
+    assert.equal((await first).cached, false);
+
+    assert.equal((await cache.fetch(provider, query)).cached, true);
+    assert.equal(calls(), 1);
+
+    clock.advance(60_001);
+    const refreshed = cache.fetch(provider, query);
+    finish();
+    assert.equal((await refreshed).cached, false);
+    assert.equal(calls(), 2);
+  });
+
+  it('shares one provider call between identical concurrent fetches', async () => {
+    const cache = new RateCache({ clock: new ManualClock() });
+    const { provider, calls, finish } = deferredProvider();
+
+    const first = cache.fetch(provider, query);
+    const second = cache.fetch(provider, query);
+    finish();
+
+    assert.equal((await first).cached, false);
+    assert.equal((await second).cached, true);
+    assert.equal(calls(), 1);
+  });
+
+  it('fails only the caller whose beforeCall throws when joining an in-flight call', async () => {
+    const cache = new RateCache({ clock: new ManualClock() });
+    const { provider, calls, finish } = deferredProvider();
+
+    const callerA = cache.fetch(provider, query, { beforeCall: async () => {} });
+    await new Promise(resolve => setImmediate(resolve));
+    const callerB = cache.fetch(provider, query, { beforeCall: quotaError });
+    const callerC = cache.fetch(provider, query, { beforeCall: async () => {} });
+
+    await assert.rejects(callerB, /caller B/);
+    finish();
+
+    assert.equal((await callerA).cached, false);
+    assert.equal((await callerC).cached, true);
+    assert.equal(calls(), 1);
+  });
+
+  it('does not start a call when beforeCall throws', async () => {
+    const cache = new RateCache({ clock: new ManualClock() });
+    const { provider, calls } = deferredProvider();
+
+    await assert.rejects(cache.fetch(provider, query, { beforeCall: quotaError }), /caller B/);
+    assert.equal(calls(), 0);
+  });
+
+  it('skips beforeCall for fresh cached results', async () => {
+    const cache = new RateCache({ clock: new ManualClock() });
+    const { provider, finish } = deferredProvider();
+
+    const first = cache.fetch(provider, query);
+    finish();
+    await first;
+
+    const result = await cache.fetch(provider, query, { beforeCall: quotaError });
+    assert.equal(result.cached, true);
+  });
+});
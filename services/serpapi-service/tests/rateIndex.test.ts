@@ -0,0 +1,74 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import SerpData from '../models/SerpData';
+import { getRateIndex, RateIndexParams } from '../utils/rateIndex';
+
+const compSet = {
+  hotel: { name: 'Grand Hotel New York' },
+  competitors: [{ name: 'Harbor Inn' }, { name: 'Park Lodge' }],
+};
+
+const params: RateIndexParams = {
+  checkInFrom: '2026-03-04',
+  checkInTo: '2026-03-04',
+  los: 1,
+  adults: 2,
+  band: { low: 95, high: 105 },
+  window: 7,
+};
+
+/**
+ * A stored search of one hotel for 2026-03-04, one night
+ */
+const search = (name: string, rate: number, currency: string) => ({
+  name,
+  search_parameters: {
+    check_in_date: new Date('2026-03-04T00:00:00Z'),
+    check_out_date: new Date('2026-03-05T00:00:00Z'),
+    adults: 2,
+    currency,
+  },
+  search_metadata: { created_at: new Date('2026-03-01T06:00:00Z') },
+  featured_prices: [{ source: 'Booking.com', rate_per_night: { extracted_lowest: rate } }],
+});
+
+function storeSearches(searches: ReturnType<typeof search>[]) {
+  mock.method(SerpData, 'find', () => ({ select: () => ({ sort: () => ({ lean: async () => searches }) }) }));
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('getRateIndex', () => {
+  it('indexes the own rate against the competitor median', async () => {
+    storeSearches([search('Grand Hotel New York', 110, 'USD'), search('Harbor Inn', 90, 'USD'), search('Park Lodge', 110, 'USD')]);
+
+    const [row] = (await getRateIndex(compSet, params)).dates;
+
+    assert.equal(row.currency, 'USD');
+    assert.equal(row.mixedCurrencies, false);
+    assert.equal(row.compSet.median, 100);
+    assert.equal(row.index, 110);
+    assert.equal(row.rank, 2);
+    assert.equal(row.position, 'above');
+  });
+
+  it('leaves out statistics, index, rank and band for rates in different currencies', async () => {
+    storeSearches([search('Grand Hotel New York', 110, 'USD'), search('Harbor Inn', 90, 'EUR'), search('Park Lodge', 110, 'USD')]);
+
+    const { dates, summary } = await getRateIndex(compSet, params);
+    const [row] = dates;
+
+    assert.equal(row.mixedCurrencies, true);
+    assert.equal(row.currency, null);
+    assert.equal(row.ownRate, 110);
+    assert.equal(row.compSet.median, null);
+    assert.equal(row.index, null);
+    assert.equal(row.averageIndex, null);
+    assert.equal(row.rank, null);
+    assert.deepEqual(row.band, { low: null, high: null });
+    assert.equal(row.position, 'unknown');
+    assert.equal(summary.indexedDates, 0);
+  });
+});
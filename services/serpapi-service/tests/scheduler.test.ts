@@ -0,0 +1,163 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import CompSet from '../models/CompSet';
+import ScheduledJob, { IScheduledJob } from '../models/ScheduledJob';
+import ScheduledJobRun from '../models/ScheduledJobRun';
+import { ManualClock } from '../utils/clock';
+import { Scheduler, computeStayDates } from '../utils/scheduler';
+import { ShopHotelParams } from '../utils/rateShop';
+
+// Let pending promise callbacks run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('computeStayDates', () => {
+  it('covers the stay window from the UTC date of the run', () => {
+    const dates = computeStayDates(
+      { stayWindow: { startOffsetDays: 2, nights: 3 } },
+      new Date('2026-03-30T23:30:00Z')
+    );
+
+    assert.deepEqual(dates, ['2026-04-01', '2026-04-02', '2026-04-03']);
+  });
+});
+
+describe('Scheduler', () => {
+  it('polls for due jobs on the injected clock', async () => {
+    const clock = new ManualClock(new Date('2026-03-01T00:00:00Z'));
+    const scheduler = new Scheduler({ clock, pollIntervalMs: 60_000 });
+    const tick = mock.method(scheduler, 'tick', async () => 0);
+    mock.method(console, 'log', () => {});
+
+    scheduler.start();
+    await flush();
+    assert.equal(tick.mock.callCount(), 1);
+
+    clock.advance(59_999);
+    await flush();
+    assert.equal(tick.mock.callCount(), 1);
+
+    clock.advance(1);
+    await flush();
+    assert.equal(tick.mock.callCount(), 2);
+
+    scheduler.stop();
+    assert.equal(clock.pendingTimers(), 0);
+
+    clock.advance(600_000);
+    await flush();
+    assert.equal(tick.mock.callCount(), 2);
+
+    mock.restoreAll();
+  });
+
+  it('keeps polling after a failed tick', async () => {
+    const clock = new ManualClock();
+    const scheduler = new Scheduler({ clock, pollIntervalMs: 1000 });
+    const tick = mock.method(scheduler, 'tick', async () => {
+      throw new Error('database unavailable');
+    });
+    mock.method(console, 'log', () => {});
+    const logError = mock.method(console, 'error', () => {});
+
+    scheduler.start();
+    await flush();
+    clock.advance(1000);
+    await flush();
+
+    assert.equal(tick.mock.callCount(), 2);
+    assert.equal(logError.mock.callCount(), 2);
+
+    scheduler.stop();
+    mock.restoreAll();
+  });
+});
+
+/**
+ * A due job shopping one hotel for one night
+ */
+const dueJob = (hotelName: string) => {
+  const _id = new Types.ObjectId();
+  return {
+    _id,
+    id: _id.toString(),
+    name: hotelName,
+    userId: new Types.ObjectId(),
+    compSetId: new Types.ObjectId(),
+    cadence: '0 6 * * *',
+    nextRunAt: new Date('2026-03-01T06:00:00Z'),
+    stayWindow: { startOffsetDays: 0, nights: 1 },
+    los: 1,
+    adults: 2,
+  } as unknown as IScheduledJob & { name: string };
+};
+
+/**
+ * Serve the due jobs and record runs in memory
+ */
+function stubJobs(jobs: (IScheduledJob & { name: string })[]) {
+  mock.method(ScheduledJob, 'find', (filter: { nextRunAt: unknown }) =>
+    filter.nextRunAt === null ? Promise.resolve([]) : { sort: async () => jobs });
+  const claims = mock.method(ScheduledJob, 'findOneAndUpdate', async (filter: { _id: Types.ObjectId }) =>
+    jobs.find(job => job._id.equals(filter._id)));
+  mock.method(ScheduledJob, 'updateOne', async () => ({}));
+  mock.method(ScheduledJobRun, 'create', async (run: object) =>
+    ({ ...run, id: new Types.ObjectId().toString(), successCount: 0, failureCount: 0, runErrors: [], save: async () => {} }));
+  mock.method(CompSet, 'findOne', async (filter: { _id: Types.ObjectId }) => {
+    const job = jobs.find(candidate => candidate.compSetId.equals(filter._id))!;
+    return { hotel: { name: job.name }, competitors: [] };
+  });
+  return { claims };
+}
+
+describe('Scheduler.tick', () => {
+  it('starts every due job without waiting for a long one', async () => {
+    const clock = new ManualClock(new Date('2026-03-01T06:00:00Z'));
+    const slow = dueJob('Slow Hotel');
+    const quick = dueJob('Quick Hotel');
+    const { claims } = stubJobs([slow, quick]);
+    mock.method(console, 'log', () => {});
+
+    const shopped: string[] = [];
+    const shop = async ({ hotelName }: ShopHotelParams) => {
+      shopped.push(hotelName);
+      if (hotelName === 'Slow Hotel') await new Promise(() => {});
+    };
+    const scheduler = new Scheduler({ clock, shop });
+
+    assert.equal(await scheduler.tick(), 2);
+    await flush();
+    assert.deepEqual(shopped, ['Slow Hotel', 'Quick Hotel']);
+
+    // The slow run is still going: only the quick job is claimed again
+    await scheduler.tick();
+    await flush();
+    const claimed = claims.mock.calls.map(call => String((call.arguments[0] as { _id: Types.ObjectId })._id));
+    assert.deepEqual(claimed, [slow.id, quick.id, quick.id]);
+
+    mock.restoreAll();
+  });
+});
+
+describe('Scheduler.recover', () => {
+  it('marks runs left running by a previous process as failed', async () => {
+    const clock = new ManualClock(new Date('2026-03-01T07:00:00Z'));
+    const run = { _id: new Types.ObjectId(), jobId: new Types.ObjectId() };
+    mock.method(ScheduledJobRun, 'find', () => ({ select: async () => [run] }));
+    const failRuns = mock.method(ScheduledJobRun, 'updateMany', async () => ({}));
+    const failJobs = mock.method(ScheduledJob, 'updateMany', async () => ({}));
+    mock.method(console, 'log', () => {});
+
+    assert.equal(await new Scheduler({ clock }).recover(), 1);
+
+    const [runFilter, runUpdate] = failRuns.mock.calls[0].arguments as unknown as [Record<string, unknown>, { $set: Record<string, unknown> }];
+    assert.deepEqual(runFilter, { _id: { $in: [run._id] }, status: 'running' });
+    assert.equal(runUpdate.$set.status, 'failed');
+    assert.equal((runUpdate.$set.finishedAt as Date).toISOString(), '2026-03-01T07:00:00.000Z');
+
+    const [jobFilter] = failJobs.mock.calls[0].arguments as unknown as [Record<string, unknown>];
+    assert.deepEqual(jobFilter, { _id: { $in: [run.jobId] }, lastRunStatus: 'running' });
+
+    mock.restoreAll();
+  });
+});
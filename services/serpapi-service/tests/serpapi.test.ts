@@ -0,0 +1,62 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+
+// Read when the client module loads; no request leaves the process
+process.env.SERP_API_KEY = 'test-key';
+
+import { fetchHotelRates } from '../utils/serpapi';
+import { SerpApiError, classifySerpApiResponse } from '../utils/serpapiErrors';
+
+const params = {
+  hotelQuery: 'grand+hotel+new+york',
+  checkInDate: '2026-03-04',
+  checkOutDate: '2026-03-05',
+};
+
+// What SerpAPI answers (HTTP 200) for a Google Hotels search that found nothing
+const emptySearch = {
+  search_metadata: { id: 'search-1', status: 'Success' },
+  search_parameters: { engine: 'google_hotels', q: 'grand hotel new york' },
+  search_information: { hotels_results_state: 'Fully empty' },
+  error: "Google Hotels hasn't returned any results for this query.",
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('classifySerpApiResponse', () => {
+  it('classifies an empty search as no_results', () => {
+    const error = classifySerpApiResponse(emptySearch);
+
+    assert.ok(error instanceof SerpApiError);
+    assert.equal(error.kind, 'no_results');
+    assert.equal(error.retryable, false);
+  });
+
+  it('passes answers without an error', () => {
+    assert.equal(classifySerpApiResponse({ properties: [] }), null);
+    assert.equal(classifySerpApiResponse(null), null);
+  });
+});
+
+describe('fetchHotelRates', () => {
+  it('throws no_results for a 2xx answer with an error field, without retrying', async () => {
+    const get = mock.method(axios, 'get', async () => ({ status: 200, data: emptySearch }));
+
+    await assert.rejects(fetchHotelRates(params), (error: unknown) => {
+      assert.ok(error instanceof SerpApiError);
+      assert.equal(error.kind, 'no_results');
+      return true;
+    });
+    assert.equal(get.mock.callCount(), 1);
+  });
+
+  it('returns answers without an error', async () => {
+    const data = { search_metadata: { id: 'search-2' }, name: 'Grand Hotel New York', featured_prices: [] };
+    mock.method(axios, 'get', async () => ({ status: 200, data }));
+
+    assert.deepEqual(await fetchHotelRates(params), data);
+  });
+});
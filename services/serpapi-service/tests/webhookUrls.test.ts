@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPublicAddress, webhookUrlProblem, publicOnlyLookup } from '../utils/webhookUrls';
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses', () => {
+    assert.equal(isPublicAddress('93.184.216.34'), true);
+    assert.equal(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946'), true);
+  });
+
+  it('rejects loopback, private, link-local and mapped addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('judges IPv4-compatible addresses (::/96) by the IPv4 address inside', () => {
+    for (const address of ['::127.0.0.1', '::a9fe:a9fe', '0:0:0:0:0:0:a00:1', '::c0a8:101']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+    assert.equal(isPublicAddress('::93.184.216.34'), true);
+  });
+});
+
+describe('webhookUrlProblem', () => {
+  it('allows public hosts', () => {
+    assert.equal(webhookUrlProblem('https://hooks.example.com/axlrate'), null);
+    assert.equal(webhookUrlProblem('http://93.184.216.34:8080/hook'), null);
+  });
+
+  it('refuses internal IP literals, however they are written', () => {
+    for (const url of [
+      'http://127.0.0.1/hook',
+      'http://2130706433/hook',
+      'http://0x7f.1/hook',
+      'http://[::1]:3000/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::ffff:10.0.0.1]/hook',
+      'http://[::127.0.0.1]/',
+      'http://[::a9fe:a9fe]/latest/meta-data',
+    ]) {
+      assert.match(webhookUrlProblem(url) || '', /private, loopback or link-local/, url);
+    }
+  });
+
+  it('refuses internal host names', () => {
+    for (const url of ['http://localhost:3001/hook', 'http://api.localhost/', 'http://metadata.google.internal/', 'http://printer.local./']) {
+      assert.equal(webhookUrlProblem(url), 'url must not point to an internal host', url);
+    }
+  });
+});
+
+describe('publicOnlyLookup', () => {
+  it('fails for host names resolving to internal addresses', async () => {
+    const error = await new Promise<Error | null>(resolve => {
+      publicOnlyLookup('localhost', {}, err => resolve(err));
+    });
+
+    assert.match(error?.message || '', /resolves to a non-public address/);
+  });
+});
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import axios from 'axios';
+import AlertEvent, { IAlertEvent, IAlertDelivery } from '../models/AlertEvent';
+import Webhook from '../models/Webhook';
+import { EmailTransport, getMailTransport } from '../../../shared';
+import { Clock, systemClock } from './clock';
+import { webhookUrlProblem, publicOnlyLookup } from './webhookUrls';
+
+export type WebhookPost = (
+  url: string,
+  body: string,
+  headers: Record<string, string>
+) => Promise<{ status: number }>;
+
+export interface AlertDispatcherOptions {
+  clock?: Clock;
+  pollIntervalMs?: number; // how often to look for due deliveries
+  maxAttempts?: number;    // give up on a delivery after this many tries
+  retryBaseMs?: number;    // first retry delay; doubles with each attempt
+  mailer?: () => EmailTransport;
+  post?: WebhookPost;
+}
+
+/**
+ * Sign a webhook body
+ * Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare
+ * it with the X-Axlrate-Signature header
+ * @param secret - Webhook signing secret
+ * @param timestamp - Unix seconds sent in X-Axlrate-Timestamp
+ * @param body - Raw JSON body
+ * @returns Signature header value ("sha256=<hex>")
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Webhook and email payload for an alert event
+ * @param event - Alert event
+ * @returns JSON-serializable payload
+ */
+export function buildAlertPayload(event: IAlertEvent) {
+  return {
+    id: event.id as string,
+    type: 'rate.changed',
+    createdAt: event.createdAt,
+    rule: { id: event.ruleId.toString(), name: event.ruleName },
+    compSetId: event.compSetId.toString(),
+    change: event.change,
+  };
+}
+
+// Webhook connections only go to public addresses, whatever the host name resolves to now
+const webhookHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const webhookHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+const defaultPost: WebhookPost = async (url, body, headers) => {
+  // URLs saved before the check existed
+  const problem = webhookUrlProblem(url);
+  if (problem) {
+    throw new Error(`Webhook ${problem}`);
+  }
+
+  const response = await axios.post(url, body, {
+    headers,
+    timeout: 10_000,
+    maxRedirects: 0,
+    httpAgent: webhookHttpAgent,
+    httpsAgent: webhookHttpsAgent,
+    proxy: false,
+    validateStatus: () => true,
+  });
+  return { status: response.status };
+};
+
+/**
+ * Delivers alert events from the AlertEvent outbox
+ * Each pending delivery is tried when due; failures are retried with
+ * exponential backoff until maxAttempts is reached
+ */
+export class AlertDispatcher {
+  private readonly clock: Clock;
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly mailer: () => EmailTransport;
+  private readonly post: WebhookPost;
+  private timer: unknown = null;
+  private running = false;
+  private ticking = false;
+
+  constructor(options: AlertDispatcherOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 30_000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryBaseMs = options.retryBaseMs ?? 30_000;
+    this.mailer = options.mailer || getMailTransport;
+    this.post = options.post || defaultPost;
+  }
+
+  /**
+   * Start polling for due deliveries
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`[ALERT DISPATCHER] Started (poll every ${this.pollIntervalMs}ms)`);
+    this.loop();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver new events now instead of waiting for the next poll
+   */
+  notify(): void {
+    if (!this.running) return;
+    this.tick().catch(error => console.error('[ALERT DISPATCHER] Tick failed:', error));
+  }
+
+  private loop(): void {
+    this.tick()
+      .catch(error => console.error('[ALERT DISPATCHER] Tick failed:', error))
+      .finally(() => {
+        if (this.running) {
+          this.timer = this.clock.setTimeout(() => this.loop(), this.pollIntervalMs);
+        }
+      });
+  }
+
+  /**
+   * Attempt every delivery that is due now
+   * @returns Number of delivery attempts made
+   */
+  async tick(): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+      const events = await AlertEvent.find({
+        deliveries: { $elemMatch: { status: 'pending', nextAttemptAt: { $lte: now } } },
+      })
+        .sort({ createdAt: 1 })
+        .limit(100);
+
+      let attempts = 0;
+      for (const event of events) {
+        for (const delivery of event.deliveries) {
+          if (delivery.status !== 'pending' || (delivery.nextAttemptAt && delivery.nextAttemptAt > now)) continue;
+          await this.attempt(event, delivery);
+          attempts++;
+        }
+        await event.save();
+      }
+
+      return attempts;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async attempt(event: IAlertEvent, delivery: IAlertDelivery): Promise<void> {
+    delivery.attempts++;
+
+    try {
+      if (delivery.type === 'webhook') {
+        await this.sendWebhook(event, delivery);
+      } else {
+        await this.sendEmail(event, delivery);
+      }
+      delivery.status = 'delivered';
+      delivery.deliveredAt = this.clock.now();
+      delivery.nextAttemptAt = null;
+      delivery.lastError = null;
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+
+      if (delivery.attempts >= this.maxAttempts) {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = null;
+        console.error(`[ALERT DISPATCHER] ✗ ${delivery.type} for event ${event.id} gave up: ${delivery.lastError}`);
+      } else {
+        const delay = this.retryBaseMs * 2 ** (delivery.attempts - 1);
+        delivery.nextAttemptAt = new Date(this.clock.now().getTime() + delay);
+      }
+    }
+
+    if (delivery.type === 'webhook' && delivery.webhookId && delivery.status !== 'pending') {
+      await Webhook.updateOne(
+        { _id: delivery.webhookId },
+        { $set: { lastDeliveryAt: this.clock.now(), lastDeliveryStatus: delivery.status } }
+      );
+    }
+  }
+
+  private async sendWebhook(event: IAlertEvent, delivery: IAlertDelivery): Promise<void> {
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+    if (!webhook || !webhook.enabled) {
+      // Nothing left to deliver to; don't keep retrying
+      delivery.attempts = this.maxAttempts;
+      throw new Error('Webhook was removed or disabled');
+    }
+
+    const body = JSON.stringify(buildAlertPayload(event));
+    const timestamp = Math.floor(this.clock.now().getTime() / 1000);
+
+    const { status } = await this.post(webhook.url, body, {
+      'Content-Type': 'application/json',
+      'X-Axlrate-Event': 'rate.changed',
+      'X-Axlrate-Delivery': delivery._id?.toString() || event.id,
+      'X-Axlrate-Timestamp': String(timestamp),
+      'X-Axlrate-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+    });
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with HTTP ${status}`);
+    }
+  }
+
+  private async sendEmail(event: IAlertEvent, delivery: IAlertDelivery): Promise<void> {
+    const { change } = event;
+    const verb = change.change > 0 ? 'up' : 'down';
+    const checkIn = change.checkInDate.toISOString().slice(0, 10);
+
+    await this.mailer().send({
+      to: delivery.to!,
+      subject: `[AxlRate] ${change.property} on ${change.ota} ${verb} ${Math.abs(change.changePct)}% for ${checkIn}`,
+      text: [
+        `Alert rule: ${event.ruleName}`,
+        '',
+        `${change.property} on ${change.ota}`,
+        `Stay: ${checkIn} (${change.los} night(s), ${change.adults} adult(s))`,
+        `Rate: ${change.previousRate} → ${change.currentRate} ${change.currency} (${change.change > 0 ? '+' : ''}${change.change}, ${change.changePct}%)`,
+        `Shopped: ${change.previousShoppedAt.toISOString()} → ${change.shoppedAt.toISOString()}`,
+        ...(change.events?.length ? [`Events: ${change.events.join(', ')}`] : []),
+      ].join('\n'),
+    });
+  }
+}
+
+// Dispatcher used by the running service
+export const alertDispatcher = new AlertDispatcher({
+  pollIntervalMs: Number(process.env.ALERT_DISPATCHER_POLL_INTERVAL_MS) || undefined,
+  maxAttempts: Number(process.env.ALERT_MAX_ATTEMPTS) || undefined,
+});
@@ -0,0 +1,217 @@
+import { Types } from 'mongoose';
+import { documentScope, scopeFilter } from '../../../shared';
+import AlertRule, { IAlertRule } from '../models/AlertRule';
+import AlertEvent, { IAlertEvent, IAlertDelivery, IRateChange } from '../models/AlertEvent';
+import CompSet from '../models/CompSet';
+import RateSnapshot, { IRateSnapshot } from '../models/RateSnapshot';
+import Webhook from '../models/Webhook';
+import { getCompSetHotels } from './compsets';
+import { formatHotelQuery, hotelNamePattern } from './formatters';
+import { getChannelConfig, buildChannelResolver } from './channels';
+import { alertDispatcher } from './alertDispatcher';
+import { findEvents, eventsByDate, EventSummary } from './events';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare freshly recorded snapshots with the previous shop of the same stay
+ * @param snapshots - Snapshots just written for one shop
+ * @returns Rate changes (extracted_lowest) against the previous shop
+ */
+export async function detectRateChanges(
+  snapshots: Pick<IRateSnapshot, 'property' | 'property_token' | 'checkInDate' | 'checkOutDate' | 'los' | 'adults' | 'children' | 'ota' | 'currency' | 'rate_per_night' | 'shoppedAt'>[]
+): Promise<IRateChange[]> {
+  const changes: IRateChange[] = [];
+
+  for (const snapshot of snapshots) {
+    const currentRate = snapshot.rate_per_night?.extracted_lowest;
+    if (typeof currentRate !== 'number') continue;
+
+    const previous = await RateSnapshot.findOne({
+      property: snapshot.property,
+      checkInDate: snapshot.checkInDate,
+      los: snapshot.los,
+      adults: snapshot.adults,
+      // Snapshots from before children were recorded have no count: treat as none
+      children: snapshot.children || { $in: [0, null] },
+      ota: snapshot.ota,
+      currency: snapshot.currency,
+      shoppedAt: { $lt: snapshot.shoppedAt },
+      'rate_per_night.extracted_lowest': { $type: 'number' },
+    })
+      .sort({ shoppedAt: -1 })
+      .lean();
+
+    const previousRate = previous?.rate_per_night?.extracted_lowest;
+    if (!previous || typeof previousRate !== 'number' || previousRate === currentRate) continue;
+
+    const change = round(currentRate - previousRate);
+    changes.push({
+      property: snapshot.property,
+      property_token: snapshot.property_token,
+      ota: snapshot.ota,
+      checkInDate: snapshot.checkInDate,
+      checkOutDate: snapshot.checkOutDate,
+      los: snapshot.los,
+      adults: snapshot.adults,
+      currency: snapshot.currency,
+      previousRate,
+      currentRate,
+      change,
+      changePct: previousRate ? round((change / previousRate) * 100) : 0,
+      previousShoppedAt: previous.shoppedAt,
+      shoppedAt: snapshot.shoppedAt,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Whether a rate change is big enough (and in the right direction) to fire a rule
+ * The move must exceed thresholdPct percent or thresholdAmount currency units
+ * @param rule - Alert rule
+ * @param change - Rate change
+ * @returns True if the rule fires
+ */
+export function exceedsThreshold(
+  rule: Pick<IAlertRule, 'thresholdPct' | 'thresholdAmount' | 'direction'>,
+  change: Pick<IRateChange, 'change' | 'changePct'>
+): boolean {
+  if (rule.direction === 'increase' && change.change <= 0) return false;
+  if (rule.direction === 'decrease' && change.change >= 0) return false;
+
+  const overPct = rule.thresholdPct != null && Math.abs(change.changePct) > rule.thresholdPct;
+  const overAmount = rule.thresholdAmount != null && Math.abs(change.change) > rule.thresholdAmount;
+  return overPct || overAmount;
+}
+
+/**
+ * Fire matching alert rules for a set of rate changes
+ * A rule matches when the changed property is in its comp set (competitors
+ * only unless configured otherwise), the channel is watched, the check-in
+ * date passes the rule's eventDates setting (events come from the comp set's
+ * market) and the move exceeds the threshold. Each firing is stored as an AlertEvent with one
+ * pending delivery per webhook and email address, then handed to the dispatcher.
+ * @param changes - Rate changes from one shop
+ * @param query - Hotel query the shop was made for (matches comp set names that differ from the SerpAPI name)
+ * @returns Alert events created
+ */
+export async function evaluateAlertRules(changes: IRateChange[], query?: string): Promise<IAlertEvent[]> {
+  if (!changes.length) return [];
+
+  const propertyKeys = new Set(changes.map(change => formatHotelQuery(change.property)));
+  if (query) propertyKeys.add(query);
+
+  // Only comp sets listing a shopped hotel, and only rules in the same scope as their comp set
+  const namePatterns = Array.from(propertyKeys).map(hotelNamePattern);
+  const compSets = await CompSet.find({
+    $or: [{ 'hotel.name': { $in: namePatterns } }, { 'competitors.name': { $in: namePatterns } }],
+  });
+  if (!compSets.length) return [];
+
+  const rules = await AlertRule.find({
+    enabled: true,
+    $or: compSets.map(compSet => ({ compSetId: compSet._id, ...scopeFilter(documentScope(compSet)) })),
+  });
+  if (!rules.length) return [];
+
+  const compSetsById = new Map(compSets.map(compSet => [compSet.id as string, compSet]));
+
+  const resolvers = new Map<string, ReturnType<typeof buildChannelResolver>>();
+  const marketEvents = new Map<string, Map<string, EventSummary[]>>();
+  const events: IAlertEvent[] = [];
+
+  const checkInDay = (change: IRateChange) => new Date(change.checkInDate).toISOString().slice(0, 10);
+  const checkInDays = changes.map(checkInDay).sort();
+
+  for (const rule of rules) {
+    const compSet = compSetsById.get(rule.compSetId.toString());
+    if (!compSet) continue;
+
+    // Does this shop belong to one of the rule's hotels?
+    const hotels = getCompSetHotels(compSet)
+      .filter(hotel => !rule.competitorsOnly || hotel.name !== compSet.hotel.name)
+      .map(hotel => formatHotelQuery(hotel.name));
+    if (!hotels.some(hotel => propertyKeys.has(hotel))) continue;
+
+    // Channel config and events belong to the rule's property (or its owner)
+    const scope = documentScope(rule);
+    const scopeKey = scope.propertyId || scope.userId;
+    let resolveChannel = resolvers.get(scopeKey);
+    if (!resolveChannel) {
+      resolveChannel = buildChannelResolver(await getChannelConfig(scope));
+      resolvers.set(scopeKey, resolveChannel);
+    }
+
+    // Events in the comp set's market, by stay date (one lookup per scope and market)
+    let eventsByDay = new Map<string, EventSummary[]>();
+    if (compSet.market) {
+      const key = `${scopeKey}:${compSet.market}`;
+      if (!marketEvents.has(key)) {
+        marketEvents.set(key, eventsByDate(
+          await findEvents(scope, [compSet.market], checkInDays[0], checkInDays[checkInDays.length - 1])
+        ));
+      }
+      eventsByDay = marketEvents.get(key)!;
+    }
+
+    const fired = changes
+      .map(change => ({ ...change, channel: resolveChannel!({ source: change.ota, official: false })?.key ?? null }))
+      .map(change => (compSet.market
+        ? { ...change, events: (eventsByDay.get(checkInDay(change)) || []).map(event => event.name) }
+        : change))
+      .filter(change => !rule.channels.length || (change.channel && rule.channels.includes(change.channel)))
+      .filter(change => {
+        const onEventDate = !!change.events?.length;
+        return rule.eventDates === 'only' ? onEventDate : rule.eventDates === 'exclude' ? !onEventDate : true;
+      })
+      .filter(change => exceedsThreshold(rule, change));
+    if (!fired.length) continue;
+
+    const webhooks = rule.notifyWebhooks
+      ? await Webhook.find({ ...scopeFilter(scope), enabled: true }).select('_id')
+      : [];
+
+    for (const change of fired) {
+      const deliveries: Partial<IAlertDelivery>[] = [
+        ...webhooks.map(webhook => ({ type: 'webhook' as const, webhookId: webhook._id as Types.ObjectId })),
+        ...rule.emails.map(to => ({ type: 'email' as const, to })),
+      ];
+
+      events.push(await AlertEvent.create({
+        userId: rule.userId,
+        propertyId: rule.propertyId,
+        ruleId: rule._id,
+        compSetId: rule.compSetId,
+        ruleName: rule.name,
+        change,
+        deliveries,
+      }));
+    }
+
+    rule.lastTriggeredAt = new Date();
+    await rule.save();
+  }
+
+  if (events.length) {
+    console.log(`[ALERTS] ${events.length} alert(s) fired`);
+    alertDispatcher.notify();
+  }
+
+  return events;
+}
+
+/**
+ * Detect rate changes for a shop and fire matching alert rules
+ * @param snapshots - Snapshots just written for one shop
+ * @param query - Hotel query the shop was made for
+ * @returns Alert events created
+ */
+export async function checkRateAlerts(
+  snapshots: Parameters<typeof detectRateChanges>[0],
+  query?: string
+): Promise<IAlertEvent[]> {
+  const changes = await detectRateChanges(snapshots);
+  return evaluateAlertRules(changes, query);
+}
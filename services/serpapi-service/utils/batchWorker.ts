@@ -0,0 +1,275 @@
+import BatchJob, { IBatchJob, IBatchJobItem } from '../models/BatchJob';
+import { Clock, systemClock, sleep } from './clock';
+import { shopHotel, ShopHotelParams, ShopHotelResult } from './rateShop';
+import { QuotaExceededError } from './usage';
+
+export interface BatchWorkerOptions {
+  clock?: Clock;
+  requestDelayMs?: number; // pause between SerpAPI calls (rate limit protection)
+  shop?: (params: ShopHotelParams) => Promise<ShopHotelResult>;
+}
+
+export interface BatchJobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  percentComplete: number;
+}
+
+/**
+ * Count a batch job's items by status
+ * @param job - Batch job
+ * @returns Per-status counts and the share of items that are finished
+ */
+export function summarizeBatchJob(job: Pick<IBatchJob, 'items'>): BatchJobProgress {
+  const progress: BatchJobProgress = {
+    total: job.items.length,
+    pending: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    percentComplete: 0,
+  };
+
+  for (const item of job.items) {
+    progress[item.status]++;
+  }
+
+  const finished = progress.succeeded + progress.failed + progress.cancelled;
+  progress.percentComplete = progress.total ? Math.round((finished / progress.total) * 100) : 100;
+
+  return progress;
+}
+
+/**
+ * Hotel, plus stay and occupancy for matrix items, for log lines
+ */
+function describeItem(item: IBatchJobItem): string {
+  if (!item.checkInDate) return item.hotelName;
+  const children = item.childrenAges?.length ? ` + ${item.childrenAges.length} children` : '';
+  return `${item.hotelName} ${item.checkInDate} (${item.los}n, ${item.adults} adults${children})`;
+}
+
+/**
+ * Processes queued batch fetch jobs one at a time, in the background
+ */
+export class BatchWorker {
+  private readonly clock: Clock;
+  private readonly requestDelayMs: number;
+  private readonly shop: (params: ShopHotelParams) => Promise<ShopHotelResult>;
+  private readonly queue: string[] = [];
+  private draining = false;
+
+  constructor(options: BatchWorkerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.requestDelayMs = options.requestDelayMs ?? 1000;
+    this.shop = options.shop || shopHotel;
+  }
+
+  /**
+   * Queue a job for processing
+   * @param jobId - Batch job ID
+   */
+  enqueue(jobId: string): void {
+    if (!this.queue.includes(jobId)) {
+      this.queue.push(jobId);
+    }
+    this.drain().catch(error => console.error('[BATCH WORKER] Drain failed:', error));
+  }
+
+  /**
+   * Re-queue jobs left unfinished by a previous process (e.g. after a restart)
+   */
+  async recover(): Promise<void> {
+    const interrupted = await BatchJob.find({ status: 'running' });
+    for (const job of interrupted) {
+      for (const item of job.items) {
+        if (item.status === 'running') item.status = 'pending';
+      }
+      job.status = 'queued';
+      await job.save();
+    }
+
+    const queued = await BatchJob.find({ status: 'queued' }).sort({ createdAt: 1 }).select('_id');
+    if (queued.length) {
+      console.log(`[BATCH WORKER] Recovering ${queued.length} queued job(s)`);
+    }
+    queued.forEach(job => this.enqueue(job.id));
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.queue.length) {
+        const jobId = this.queue.shift()!;
+        try {
+          await this.process(jobId);
+        } catch (error) {
+          console.error(`[BATCH WORKER] Job ${jobId} failed:`, error);
+          await BatchJob.updateOne(
+            { _id: jobId },
+            {
+              $set: {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                finishedAt: this.clock.now(),
+              },
+            }
+          );
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Run a queued job's pending items
+   * @param jobId - Batch job ID
+   */
+  async process(jobId: string): Promise<void> {
+    // Jobs waiting for quota are picked up again once their time comes
+    const waiting = await BatchJob.findOne({ _id: jobId, status: 'queued', notBefore: { $gt: this.clock.now() } })
+      .select('notBefore')
+      .lean();
+    if (waiting) {
+      this.deferUntil(jobId, waiting.notBefore!);
+      return;
+    }
+
+    // Claim the job; it may have been cancelled while waiting in the queue
+    const job = await BatchJob.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      { $set: { status: 'running', finishedAt: null, error: null, notBefore: null } },
+      { new: true }
+    );
+    if (!job) return;
+
+    if (!job.startedAt) {
+      job.startedAt = this.clock.now();
+      await job.save();
+    }
+
+    const { params } = job;
+    console.log(`\n[BATCH WORKER] Job ${jobId}: ${job.items.length} searches, ${params.checkInDate} → ${params.checkOutDate}`);
+
+    let cancelled = false;
+    let first = true;
+
+    for (const item of job.items) {
+      if (item.status !== 'pending') continue;
+
+      if (!first) await sleep(this.clock, this.requestDelayMs);
+      first = false;
+
+      // Stop between hotels if cancellation was requested
+      const latest = await BatchJob.findById(job._id).select('cancelRequested').lean();
+      if (!latest || latest.cancelRequested) {
+        cancelled = true;
+        break;
+      }
+
+      item.status = 'running';
+      item.startedAt = this.clock.now();
+      item.error = null;
+      await job.save();
+
+      try {
+        const result = await this.shop({
+          hotelName: item.hotelName,
+          propertyToken: item.propertyToken,
+          checkInDate: item.checkInDate || params.checkInDate,
+          checkOutDate: item.checkOutDate || params.checkOutDate,
+          adults: item.adults ?? params.adults,
+          childrenAges: item.childrenAges,
+          gl: params.gl,
+          hl: params.hl,
+          currency: params.currency,
+          usage: { userId: job.userId, compSetId: job.compSetId, jobType: 'batch', jobId: job.id },
+        });
+        item.status = 'succeeded';
+        item.databaseId = result.databaseId;
+        item.updated = result.updated;
+        item.cached = result.cached;
+        item.warning = result.warning;
+        console.log(`[BATCH WORKER] ✓ ${describeItem(item)}`);
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          await this.handleQuotaExceeded(job, error);
+          return;
+        }
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+        console.error(`[BATCH WORKER] ✗ ${describeItem(item)}: ${item.error}`);
+      }
+
+      item.finishedAt = this.clock.now();
+      await job.save();
+    }
+
+    if (cancelled) {
+      for (const item of job.items) {
+        if (item.status === 'pending') item.status = 'cancelled';
+      }
+    }
+
+    job.status = cancelled ? 'cancelled' : 'completed';
+    job.finishedAt = this.clock.now();
+    await job.save();
+
+    const progress = summarizeBatchJob(job);
+    console.log(`[BATCH WORKER] Job ${jobId} ${job.status}: ${progress.succeeded} ✓  /  ${progress.failed} ✗`);
+  }
+  /**
+   * Stop a job whose account ran out of searches
+   * With the "queue" quota action the remaining hotels wait and the job is
+   * retried later; with "reject" they fail.
+   */
+  private async handleQuotaExceeded(job: IBatchJob, error: QuotaExceededError): Promise<void> {
+    const { quota } = error;
+
+    if (quota.action === 'queue') {
+      for (const item of job.items) {
+        if (item.status === 'running') {
+          item.status = 'pending';
+          item.startedAt = null;
+        }
+      }
+      job.status = 'queued';
+      job.notBefore = quota.retryAt;
+      await job.save();
+
+      console.log(`[BATCH WORKER] Job ${job.id} waiting for quota until ${quota.retryAt.toISOString()}`);
+      this.deferUntil(job.id, quota.retryAt);
+      return;
+    }
+
+    for (const item of job.items) {
+      if (item.status === 'running' || item.status === 'pending') {
+        item.status = 'failed';
+        item.error = error.message;
+        item.finishedAt = this.clock.now();
+      }
+    }
+    job.status = 'failed';
+    job.error = error.message;
+    job.finishedAt = this.clock.now();
+    await job.save();
+
+    console.error(`[BATCH WORKER] Job ${job.id} failed: ${error.message}`);
+  }
+
+  private deferUntil(jobId: string, until: Date): void {
+    const delay = Math.max(0, until.getTime() - this.clock.now().getTime());
+    this.clock.setTimeout(() => this.enqueue(jobId), delay);
+  }
+}
+
+// Worker used by the running service
+export const batchWorker = new BatchWorker();
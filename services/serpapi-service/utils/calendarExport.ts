@@ -0,0 +1,130 @@
+import SerpData from '../models/SerpData';
+import { ResolvedChannelConfig, ResolvedChannel, getChannelConfig, selectChannels, listChannels } from './channels';
+import { SerpDataSummaryFilters, buildCalendarFilter, fetchSerpDataSummaries } from './serpapi';
+import { SpreadsheetRow } from './spreadsheet';
+import { lengthOfStay } from './snapshots';
+
+// Stored searches read per calendar page while exporting
+const EXPORT_PAGE_SIZE = 500;
+
+export interface CalendarExportFilters extends SerpDataSummaryFilters {
+  los?: number; // nights; searches for other lengths of stay are left out
+}
+
+export interface CalendarExportColumn {
+  hotel: string;
+  channel: ResolvedChannel;
+}
+
+interface ExportCell {
+  lowest: number | null;
+  beforeTax: number | null;
+}
+
+/**
+ * Thrown before exporting when the matching searches are in several
+ * currencies and no displayCurrency or currency puts them in one
+ */
+export class MixedCurrencyExportError extends Error {
+  constructor(public readonly currencies: string[]) {
+    super(`Stored searches are in ${currencies.join(', ')}; pass displayCurrency (or currency) to export comparable rates`);
+    this.name = 'MixedCurrencyExportError';
+  }
+}
+
+/**
+ * Hotel x channel columns of an export
+ * Hotels are the requested ones, or every hotel with a stored search matching
+ * the filters; channels follow the account's channel configuration.
+ * @param filters - Calendar filters
+ * @param channelConfig - Channel configuration
+ * @returns Columns, hotels in name order
+ */
+export async function calendarExportColumns(
+  filters: SerpDataSummaryFilters,
+  channelConfig: ResolvedChannelConfig
+): Promise<CalendarExportColumn[]> {
+  const hotels: string[] = filters.hotel?.length
+    ? filters.hotel
+    : (await SerpData.distinct('name', buildCalendarFilter(filters))).filter(Boolean).sort();
+  const channels = listChannels(selectChannels(channelConfig, filters.ota));
+
+  return hotels.flatMap(hotel => channels.map(channel => ({ hotel, channel })));
+}
+
+/**
+ * Calendar rows for a spreadsheet: a header, then one row per stay date with
+ * the lowest and before-tax rate of each hotel/channel
+ * Stored searches are read a page at a time in check-in order, so only one
+ * stay date is held in memory. Cells only compare rates in one currency,
+ * occupancy and length of stay; when several searches still fill the same
+ * cell (re-shops of the stay) the lowest rate wins.
+ * @param filters - Calendar filters and length of stay (limit and cursor are ignored)
+ * @param channelConfig - Channel configuration (defaults when omitted)
+ * @returns Async iterable of spreadsheet rows
+ * @throws MixedCurrencyExportError when rates in several currencies would share cells
+ */
+export async function* calendarExportRows(
+  filters: CalendarExportFilters,
+  channelConfig?: ResolvedChannelConfig
+): AsyncGenerator<SpreadsheetRow> {
+  if (!filters.displayCurrency && !filters.currency) {
+    const currencies = (await SerpData.distinct('search_parameters.currency', buildCalendarFilter(filters))).filter(Boolean);
+    if (currencies.length > 1) throw new MixedCurrencyExportError(currencies.sort());
+  }
+
+  const config = channelConfig || await getChannelConfig();
+  const columns = await calendarExportColumns(filters, config);
+  const columnIndex = new Map(columns.map((column, index) => [`${column.hotel}|${column.channel.key}`, index]));
+
+  yield [
+    'Stay date',
+    'Currency',
+    ...columns.flatMap(({ hotel, channel }) => [
+      `${hotel} - ${channel.label} (lowest)`,
+      `${hotel} - ${channel.label} (before taxes)`,
+    ]),
+  ];
+
+  let stayDate: string | null = null;
+  let cells: (ExportCell | undefined)[] = [];
+  let currencies = new Set<string>();
+
+  const toRow = (): SpreadsheetRow => [
+    stayDate,
+    Array.from(currencies).sort().join('/') || null,
+    ...columns.flatMap((_, index) => [cells[index]?.lowest ?? null, cells[index]?.beforeTax ?? null]),
+  ];
+
+  let cursor: string | undefined;
+  do {
+    const page = await fetchSerpDataSummaries({ ...filters, limit: EXPORT_PAGE_SIZE, cursor }, config);
+
+    for (const row of page.data as any[]) {
+      const date = row.check_in_date ? new Date(row.check_in_date).toISOString().slice(0, 10) : null;
+      if (!date) continue;
+
+      if (date !== stayDate) {
+        if (stayDate) yield toRow();
+        stayDate = date;
+        cells = [];
+        currencies = new Set();
+      }
+
+      const index = columnIndex.get(`${row.hotel_name}|${row.channel}`);
+      if (index === undefined) continue;
+      if (filters.los && row.check_out_date && lengthOfStay(new Date(row.check_in_date), new Date(row.check_out_date)) !== filters.los) continue;
+
+      const lowest = row.rate?.extracted_lowest ?? null;
+      const current = cells[index];
+      if (!current || (lowest !== null && (current.lowest === null || lowest < current.lowest))) {
+        cells[index] = { lowest, beforeTax: row.rate?.extracted_before_tax_fees ?? null };
+      }
+      if (row.currency) currencies.add(row.currency);
+    }
+
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  if (stayDate) yield toRow();
+}
@@ -0,0 +1,134 @@
+import { ResourceScope, scopeFilter } from '../../../shared';
+import ChannelConfig, { IChannel } from '../models/ChannelConfig';
+import { IFeaturedPrice } from '../models/SerpData';
+
+// Channel key reserved for the hotel's own (official: true) price
+export const BRAND_CHANNEL_KEY = 'brand';
+
+export const DEFAULT_CHANNELS: IChannel[] = [
+  { key: 'booking', label: 'Booking.com', aliases: ['Booking.com', 'Booking'], enabled: true },
+  { key: 'expedia', label: 'Expedia.com', aliases: ['Expedia.com', 'Expedia'], enabled: true },
+  { key: 'hotels', label: 'Hotels.com', aliases: ['Hotels.com', 'Hotels'], enabled: true },
+  { key: 'agoda', label: 'Agoda', aliases: ['Agoda', 'Agoda.com'], enabled: true },
+];
+
+export interface ResolvedChannelConfig {
+  channels: IChannel[];
+  includeBrand: boolean;
+  brandLabel: string;
+  isDefault: boolean;
+}
+
+export interface ResolvedChannel {
+  key: string;
+  label: string;
+}
+
+/**
+ * Normalize an OTA source name for alias matching
+ * @param source - featured_prices[].source value
+ * @returns Lowercase, trimmed source with single spaces
+ */
+export function normalizeSource(source: string): string {
+  return source.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Load the channel configuration of a scope (property or personal), falling back to the defaults
+ * @param scope - Resource scope
+ * @returns Channel configuration
+ */
+export async function getChannelConfig(scope?: ResourceScope): Promise<ResolvedChannelConfig> {
+  const config = scope ? await ChannelConfig.findOne(scopeFilter(scope)).lean() : null;
+
+  if (!config) {
+    return { channels: DEFAULT_CHANNELS, includeBrand: true, brandLabel: 'Brand.com', isDefault: true };
+  }
+
+  return {
+    channels: config.channels,
+    includeBrand: config.includeBrand,
+    brandLabel: config.brandLabel,
+    isDefault: false,
+  };
+}
+
+/**
+ * Restrict a configuration to the requested channels
+ * @param config - Channel configuration
+ * @param requested - Channel keys, labels or aliases (case-insensitive)
+ * @returns Configuration with only the matching channels
+ */
+export function selectChannels(config: ResolvedChannelConfig, requested?: string[]): ResolvedChannelConfig {
+  if (!requested?.length) return config;
+
+  const wanted = new Set(requested.map(normalizeSource));
+  const matches = (channel: { key: string; label: string; aliases?: string[] }) =>
+    [channel.key, channel.label, ...(channel.aliases || [])].some(name => wanted.has(normalizeSource(name)));
+
+  return {
+    ...config,
+    channels: config.channels.filter(matches),
+    includeBrand: config.includeBrand && matches({ key: BRAND_CHANNEL_KEY, label: config.brandLabel }),
+  };
+}
+
+/**
+ * Every normalized source name that maps to an enabled channel
+ * (useful for narrowing prices in a database query)
+ * @param config - Channel configuration
+ * @returns Normalized aliases
+ */
+export function channelAliases(config: ResolvedChannelConfig): string[] {
+  const aliases = new Set<string>();
+  for (const channel of config.channels) {
+    if (!channel.enabled) continue;
+    [channel.label, ...channel.aliases].forEach(alias => aliases.add(normalizeSource(alias)));
+  }
+  return Array.from(aliases);
+}
+
+/**
+ * Build a function that maps a price to its canonical channel
+ * Official prices map to the brand channel when it is included
+ * @param config - Channel configuration
+ * @returns Resolver returning the channel, or null if the price isn't surfaced
+ */
+export function buildChannelResolver(config: ResolvedChannelConfig) {
+  const byAlias = new Map<string, ResolvedChannel>();
+  for (const channel of config.channels) {
+    if (!channel.enabled) continue;
+    for (const alias of [channel.label, ...channel.aliases]) {
+      const normalized = normalizeSource(alias);
+      if (!byAlias.has(normalized)) {
+        byAlias.set(normalized, { key: channel.key, label: channel.label });
+      }
+    }
+  }
+
+  const brand: ResolvedChannel = { key: BRAND_CHANNEL_KEY, label: config.brandLabel };
+
+  return (price: Pick<IFeaturedPrice, 'source' | 'official'>): ResolvedChannel | null => {
+    if (price.official) {
+      return config.includeBrand ? brand : null;
+    }
+    if (!price.source) return null;
+    return byAlias.get(normalizeSource(price.source)) || null;
+  };
+}
+
+/**
+ * Channels in display order (configured channels, then brand)
+ * @param config - Channel configuration
+ * @returns Enabled channels
+ */
+export function listChannels(config: ResolvedChannelConfig): ResolvedChannel[] {
+  const channels: ResolvedChannel[] = config.channels
+    .filter(channel => channel.enabled)
+    .map(({ key, label }) => ({ key, label }));
+
+  if (config.includeBrand) {
+    channels.push({ key: BRAND_CHANNEL_KEY, label: config.brandLabel });
+  }
+  return channels;
+}
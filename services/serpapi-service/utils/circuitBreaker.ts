@@ -0,0 +1,136 @@
+import { Clock, systemClock } from './clock';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  clock?: Clock;
+  failureThreshold?: number; // consecutive failures that open the circuit
+  resetTimeoutMs?: number;   // how long to stay open before letting a trial call through
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: Date | null;
+  nextAttemptAt: Date | null;
+  lastFailure: string | null;
+}
+
+/**
+ * Thrown instead of calling a dependency that is known to be down
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Closed: calls go through and failures are counted.
+ * Open: calls fail immediately until resetTimeoutMs has passed.
+ * Half-open: one trial call decides between closed and open again.
+ */
+export class CircuitBreaker {
+  private readonly clock: Clock;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private lastFailure: string | null = null;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  }
+
+  /**
+   * Run an operation through the breaker
+   * @param operation - Call to protect
+   * @param isFailure - Which errors count as the dependency being down (default: all)
+   * @returns The operation's result
+   * @throws CircuitOpenError while the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure(error);
+      } else {
+        // The dependency answered; it just didn't like the request
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current state for health reporting
+   */
+  snapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      openedAt: this.openedAt,
+      nextAttemptAt: this.state === 'open' ? this.nextAttemptAt() : null,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  private nextAttemptAt(): Date {
+    return new Date((this.openedAt?.getTime() ?? 0) + this.resetTimeoutMs);
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && this.clock.now() >= this.nextAttemptAt()) {
+      this.state = 'half_open';
+    }
+  }
+
+  private beforeCall(): void {
+    this.refreshState();
+
+    if (this.state === 'open') {
+      throw new CircuitOpenError(this.nextAttemptAt());
+    }
+    if (this.state === 'half_open') {
+      // Only one trial call at a time; everyone else keeps failing fast
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(new Date(this.clock.now().getTime() + this.resetTimeoutMs));
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.openedAt = null;
+  }
+
+  private onFailure(error: unknown): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`[CIRCUIT] Opening after ${this.consecutiveFailures} failure(s): ${this.lastFailure}`);
+      }
+      this.state = 'open';
+      this.openedAt = this.clock.now();
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Source of time for the scheduler
+ * Lets tests drive schedules forward without waiting in real time
+ */
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by the system time and Node timers
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+interface PendingTimer {
+  id: number;
+  fireAt: number;
+  callback: () => void;
+}
+
+/**
+ * Clock that only moves when told to
+ * Timers fire in order as advance() passes their due time
+ */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: PendingTimer[] = [];
+  private nextId = 1;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { id: this.nextId++, fireAt: this.current + Math.max(0, ms), callback };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  /**
+   * Move time forward, firing every timer that becomes due
+   * @param ms - Milliseconds to advance
+   */
+  advance(ms: number): void {
+    const target = this.current + ms;
+
+    for (;;) {
+      const due = this.timers
+        .filter(timer => timer.fireAt <= target)
+        .sort((a, b) => a.fireAt - b.fireAt || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter(timer => timer.id !== due.id);
+      this.current = due.fireAt;
+      due.callback();
+    }
+
+    this.current = target;
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+}
+
+/**
+ * Wait for the given time on a clock
+ * @param clock - Clock to wait on
+ * @param ms - Milliseconds to wait
+ */
+export const sleep = (clock: Clock, ms: number): Promise<void> =>
+  new Promise(resolve => {
+    if (ms <= 0) return resolve();
+    clock.setTimeout(resolve, ms);
+  });
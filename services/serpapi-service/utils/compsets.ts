@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import { ResourceScope, scopeFilter } from '../../../shared';
+import CompSet, { ICompSet, ICompSetHotel } from '../models/CompSet';
+
+/**
+ * Find a comp set in the caller's scope (selected property or personal)
+ * Falls back to the scope's default (or oldest) comp set when no ID is given
+ * @param scope - Resource scope
+ * @param compSetId - Optional comp set ID
+ * @returns Comp set or null if none matches
+ */
+export async function findCompSet(scope: ResourceScope, compSetId?: string): Promise<ICompSet | null> {
+  if (compSetId) {
+    if (!mongoose.isValidObjectId(compSetId)) return null;
+    return CompSet.findOne({ _id: compSetId, ...scopeFilter(scope) });
+  }
+
+  return CompSet.findOne(scopeFilter(scope)).sort({ isDefault: -1, createdAt: 1 });
+}
+
+/**
+ * Hotels to shop for a comp set: the own property first, then its competitors
+ * Duplicates (same pinned property token, or same name case-insensitively) are dropped
+ * @param compSet - Comp set to expand
+ * @returns Hotels in shopping order
+ */
+export function getCompSetHotels(compSet: Pick<ICompSet, 'hotel' | 'competitors'>): ICompSetHotel[] {
+  const seen = new Set<string>();
+  const hotels: ICompSetHotel[] = [];
+
+  for (const hotel of [compSet.hotel, ...(compSet.competitors || [])]) {
+    const key = hotel?.property_token || hotel?.name?.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    hotels.push(hotel);
+  }
+
+  return hotels;
+}
+
+/**
+ * Make the given comp set the only default in its scope
+ * @param scope - Resource scope
+ * @param compSetId - Comp set that keeps the default flag
+ */
+export async function clearOtherDefaults(scope: ResourceScope, compSetId: string): Promise<void> {
+  await CompSet.updateMany(
+    { ...scopeFilter(scope), _id: { $ne: compSetId }, isDefault: true },
+    { $set: { isDefault: false } }
+  );
+}
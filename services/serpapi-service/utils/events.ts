@@ -0,0 +1,306 @@
+import { Types } from 'mongoose';
+import { ResourceScope, scopeFilter } from '../../../shared';
+import MarketEvent, { EventCategory, EventImpact, EventSource } from '../models/MarketEvent';
+import { addDays } from './formatters';
+import { parseCsv } from './spreadsheet';
+
+export const EVENT_CATEGORIES: EventCategory[] = ['holiday', 'conference', 'sports', 'concert', 'festival', 'other'];
+export const EVENT_IMPACTS: EventImpact[] = ['low', 'medium', 'high'];
+
+// Most events one import may contain
+export const MAX_IMPORT_EVENTS = 5000;
+
+// Longest event, in days
+export const MAX_EVENT_DAYS = 366;
+
+export interface EventInput {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD, inclusive
+  category: EventCategory;
+  impact: EventImpact;
+  notes?: string | null;
+  externalId?: string | null;
+}
+
+export interface EventSummary {
+  _id: Types.ObjectId;
+  market: string;
+  name: string;
+  category: EventCategory;
+  impact: EventImpact;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ImportProblem {
+  row: number; // CSV line or ICS event number
+  error: string;
+}
+
+/**
+ * Whether a string is a real YYYY-MM-DD date
+ */
+const isDay = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(`${date}T00:00:00Z`));
+
+/**
+ * Normalize a market name for storage and matching
+ * @param market - e.g. " Waupaca, WI "
+ * @returns e.g. "waupaca, wi"
+ */
+export function normalizeMarket(market: string): string {
+  return market.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Check an imported event, filling in defaults
+ * @returns Event, or an error message
+ */
+function toEventInput(raw: Partial<Record<keyof EventInput, string | null | undefined>>): EventInput | string {
+  const name = raw.name?.trim();
+  const startDate = raw.startDate?.trim() || '';
+  const endDate = raw.endDate?.trim() || startDate;
+  const category = (raw.category?.trim().toLowerCase() || 'other') as EventCategory;
+  const impact = (raw.impact?.trim().toLowerCase() || 'medium') as EventImpact;
+
+  if (!name) return 'name is required';
+  if (!isDay(startDate)) return 'startDate must be in YYYY-MM-DD format';
+  if (!isDay(endDate)) return 'endDate must be in YYYY-MM-DD format';
+  if (endDate < startDate) return 'endDate must not be before startDate';
+  if (addDays(startDate, MAX_EVENT_DAYS) <= endDate) return `Events may last at most ${MAX_EVENT_DAYS} days`;
+  if (!EVENT_CATEGORIES.includes(category)) return `category must be one of ${EVENT_CATEGORIES.join(', ')}`;
+  if (!EVENT_IMPACTS.includes(impact)) return `impact must be one of ${EVENT_IMPACTS.join(', ')}`;
+
+  return {
+    name: name.slice(0, 200),
+    startDate,
+    endDate,
+    category,
+    impact,
+    notes: raw.notes?.trim() || null,
+    externalId: raw.externalId?.trim() || null,
+  };
+}
+
+/**
+ * Parse events from CSV
+ * Header row required with name and startDate; endDate, category, impact and
+ * notes are optional (column names are case-insensitive, "_" and spaces ignored)
+ * @param csv - CSV content
+ * @returns Parsed events and per-row problems
+ */
+export function parseEventsCsv(csv: string): { events: EventInput[]; problems: ImportProblem[] } {
+  const [header, ...lines] = parseCsv(csv);
+  if (!header) return { events: [], problems: [] };
+
+  const columns = header.map(column => column.trim().toLowerCase().replace(/[\s_]/g, ''));
+  const column = (name: string) => columns.indexOf(name.toLowerCase());
+  if (column('name') === -1 || column('startDate') === -1) {
+    return { events: [], problems: [{ row: 1, error: 'CSV header must include name and startDate' }] };
+  }
+
+  const events: EventInput[] = [];
+  const problems: ImportProblem[] = [];
+  lines.forEach((values, index) => {
+    const value = (name: string) => (column(name) === -1 ? undefined : values[column(name)]);
+    const event = toEventInput({
+      name: value('name'),
+      startDate: value('startDate'),
+      endDate: value('endDate'),
+      category: value('category'),
+      impact: value('impact'),
+      notes: value('notes'),
+    });
+    if (typeof event === 'string') problems.push({ row: index + 2, error: event });
+    else events.push(event);
+  });
+
+  return { events, problems };
+}
+
+/**
+ * Undo iCalendar text escaping
+ */
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Stay date of an iCalendar DATE or DATE-TIME value (date part as written)
+ * @returns YYYY-MM-DD and whether the value had a time, or null if unparseable
+ */
+function icsDate(value: string): { date: string; time: string | null } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{6})Z?)?$/.exec(value.trim());
+  return match ? { date: `${match[1]}-${match[2]}-${match[3]}`, time: match[4] ?? null } : null;
+}
+
+/**
+ * Parse events from an iCalendar (.ics) feed
+ * All-day events end the day before DTEND (which is exclusive); timed events
+ * end on DTEND's date, or the day before when they end at midnight. UID is
+ * kept so importing the same feed again updates events instead of duplicating
+ * them. Recurring events (RRULE) are imported as their first occurrence.
+ * @param ics - iCalendar content
+ * @returns Parsed events and per-event problems
+ */
+export function parseEventsIcs(ics: string): { events: EventInput[]; problems: ImportProblem[] } {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: EventInput[] = [];
+  const problems: ImportProblem[] = [];
+
+  let current: Record<string, string> | null = null;
+  let count = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      count++;
+      continue;
+    }
+    if (!current) continue;
+
+    if (line === 'END:VEVENT') {
+      const start = icsDate(current.DTSTART || '');
+      const end = current.DTEND ? icsDate(current.DTEND) : null;
+
+      let endDate = end?.date ?? start?.date;
+      if (start && end && isDay(end.date) && end.date > start.date && (!end.time || end.time === '000000')) {
+        endDate = addDays(end.date, -1);
+      }
+
+      const event = toEventInput({
+        name: unescapeIcsText(current.SUMMARY || ''),
+        startDate: start?.date ?? current.DTSTART,
+        endDate,
+        category: EVENT_CATEGORIES.find(category =>
+          unescapeIcsText(current!.CATEGORIES || '').toLowerCase().split(',').map(value => value.trim()).includes(category)
+        ),
+        notes: current.DESCRIPTION ? unescapeIcsText(current.DESCRIPTION) : null,
+        externalId: current.UID,
+      });
+
+      if (typeof event === 'string') problems.push({ row: count, error: event });
+      else {
+        events.push(event);
+        if (current.RRULE) problems.push({ row: count, error: 'Recurring event imported as its first occurrence only' });
+      }
+      current = null;
+      continue;
+    }
+
+    // NAME;PARAM=...:VALUE (the value starts after the first colon outside quotes)
+    let quoted = false;
+    let split = -1;
+    for (let i = 0; i < line.length && split === -1; i++) {
+      if (line[i] === '"') quoted = !quoted;
+      else if (line[i] === ':' && !quoted) split = i;
+    }
+    if (split === -1) continue;
+
+    const property = line.slice(0, split).split(';')[0].toUpperCase();
+    current[property] = line.slice(split + 1);
+  }
+
+  return { events, problems };
+}
+
+/**
+ * Store imported events for a market
+ * Events with an externalId (ICS UID) are matched on it, others on name and
+ * start date, so importing the same file twice updates instead of duplicating.
+ * @param scope - Scope (property or personal) the events belong to
+ * @param market - Market the events belong to
+ * @param events - Parsed events
+ * @param source - Import format
+ * @returns Number of events inserted and updated
+ */
+export async function importEvents(scope: ResourceScope, market: string, events: EventInput[], source: EventSource) {
+  if (!events.length) return { inserted: 0, updated: 0 };
+
+  // bulkWrite filters are not cast, so IDs are converted here
+  const owner = scope.propertyId
+    ? { propertyId: new Types.ObjectId(scope.propertyId) }
+    : { userId: new Types.ObjectId(scope.userId), propertyId: null };
+  const marketKey = normalizeMarket(market);
+
+  const result = await MarketEvent.bulkWrite(
+    events.map(event => ({
+      updateOne: {
+        filter: event.externalId
+          ? { ...owner, market: marketKey, externalId: event.externalId }
+          : { ...owner, market: marketKey, name: event.name, startDate: event.startDate, externalId: null },
+        update: {
+          $set: { ...event, source },
+          $setOnInsert: { userId: new Types.ObjectId(scope.userId), propertyId: owner.propertyId },
+        },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  return { inserted: result.upsertedCount, updated: result.modifiedCount };
+}
+
+/**
+ * A scope's events in some markets that overlap a range of stay dates
+ * @param scope - Resource scope (property or personal)
+ * @param markets - Market names
+ * @param from - First stay date (YYYY-MM-DD)
+ * @param to - Last stay date (YYYY-MM-DD)
+ * @returns Events, earliest first
+ */
+export async function findEvents(scope: ResourceScope, markets: string[], from: string, to: string): Promise<EventSummary[]> {
+  if (!markets.length) return [];
+
+  return MarketEvent.find({
+    ...scopeFilter(scope),
+    market: { $in: markets.map(normalizeMarket) },
+    startDate: { $lte: to },
+    endDate: { $gte: from },
+  })
+    .select('market name category impact startDate endDate')
+    .sort({ startDate: 1, name: 1 })
+    .lean<EventSummary[]>();
+}
+
+/**
+ * Index events by each stay date they cover
+ * @param events - Events
+ * @returns Map of YYYY-MM-DD to the events on that date
+ */
+export function eventsByDate(events: EventSummary[]): Map<string, EventSummary[]> {
+  const byDate = new Map<string, EventSummary[]>();
+  for (const event of events) {
+    for (let date = event.startDate; date <= event.endDate; date = addDays(date, 1)) {
+      if (!byDate.has(date)) byDate.set(date, []);
+      byDate.get(date)!.push(event);
+    }
+  }
+  return byDate;
+}
+
+/**
+ * Attach overlapping events to calendar rows (rows.events, by check-in date)
+ * @param rows - Calendar rows with check_in_date
+ * @param scope - Scope the events belong to
+ * @param markets - Markets to take events from
+ */
+export async function annotateWithEvents(
+  rows: { check_in_date: Date | string | null; events?: EventSummary[] }[],
+  scope: ResourceScope,
+  markets: string[]
+): Promise<void> {
+  const dates = rows
+    .map(row => (row.check_in_date ? new Date(row.check_in_date).toISOString().slice(0, 10) : null))
+    .filter((date): date is string => !!date)
+    .sort();
+  const byDate = dates.length
+    ? eventsByDate(await findEvents(scope, markets, dates[0], dates[dates.length - 1]))
+    : new Map<string, EventSummary[]>();
+
+  for (const row of rows) {
+    const date = row.check_in_date ? new Date(row.check_in_date).toISOString().slice(0, 10) : null;
+    row.events = (date && byDate.get(date)) || [];
+  }
+}
@@ -2,15 +2,35 @@ import { format } from 'date-fns';
 
 /**
  * Formats hotel name to query string format
+ * Punctuation separates words ("Motel 6-Wisconsin Rapids, WI" -> "motel+6+wisconsin+rapids+wi");
+ * apostrophes are dropped ("O'Hare" -> "ohare")
  * @param hotelName - The hotel name to format
  * @returns Formatted hotel query string
  */
 export function formatHotelQuery(hotelName: string): string {
   return hotelName
     .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
     .trim()
-    .replace(/\s+/g, '+')
-    .replace(/[^a-z0-9+]/g, '');
+    .replace(/\s+/g, '+');
+}
+
+/**
+ * Case-insensitive pattern for hotel names that format to a hotel query
+ * Lets MongoDB find stored names by their formatHotelQuery key (e.g. "ohare+inn"
+ * matches "O'Hare Inn" and "OHARE INN"); compare keys afterwards to be exact.
+ * @param hotelQuery - Formatted hotel query
+ * @returns Pattern for stored hotel names
+ */
+export function hotelNamePattern(hotelQuery: string): RegExp {
+  const escape = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const words = hotelQuery
+    .split('+')
+    .filter(Boolean)
+    .map(word => Array.from(word, escape).join("['’]*"));
+
+  return new RegExp(`^[^a-z0-9]*${words.join('[^a-z0-9]+')}[^a-z0-9]*$`, 'i');
 }
 
 /**
@@ -30,3 +50,20 @@ export function formatDate(date: Date | string): string {
   return format(dateObj, 'yyyy-MM-dd');
 }
 
+
+/**
+ * Adds days to a YYYY-MM-DD date string (calendar arithmetic in UTC)
+ * @param date - Date string in YYYY-MM-DD format
+ * @param days - Number of days to add (may be negative)
+ * @returns Shifted date in YYYY-MM-DD format
+ */
+export function addDays(date: string, days: number): string {
+  const dateObj = new Date(`${date}T00:00:00Z`);
+
+  if (isNaN(dateObj.getTime())) {
+    throw new Error('Invalid date provided');
+  }
+
+  dateObj.setUTCDate(dateObj.getUTCDate() + days);
+  return dateObj.toISOString().slice(0, 10);
+}
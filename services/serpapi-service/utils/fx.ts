@@ -0,0 +1,263 @@
+import fs from 'fs/promises';
+import path from 'path';
+import FxRate, { FxRateSource } from '../models/FxRate';
+import { addDays } from './formatters';
+import { parseCsv } from './spreadsheet';
+
+// How far back a rate may be reused when a day has none (weekends, holidays)
+const FX_MAX_AGE_DAYS = parseInt(process.env.FX_MAX_AGE_DAYS || '7', 10);
+
+export interface FxRateRow {
+  date: string;  // YYYY-MM-DD
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+/**
+ * How an amount was brought into the display currency
+ * rate and date are null when no rate was available (the amount is then null too)
+ */
+export interface FxConversion {
+  from: string;
+  to: string;
+  rate: number | null;
+  date: string | null; // day of the FX rate used
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Check and normalize one parsed rate
+ * @throws Error describing the first invalid field
+ */
+function toFxRateRow(row: { date?: unknown; base?: unknown; quote?: unknown; rate?: unknown }, where: string): FxRateRow {
+  const date = String(row.date ?? '').trim();
+  const base = String(row.base ?? '').trim().toUpperCase();
+  const quote = String(row.quote ?? '').trim().toUpperCase();
+  const rate = Number(row.rate);
+
+  if (!DATE_PATTERN.test(date)) throw new Error(`${where}: date must be YYYY-MM-DD`);
+  if (!CURRENCY_PATTERN.test(base) || !CURRENCY_PATTERN.test(quote)) throw new Error(`${where}: base and quote must be 3-letter currency codes`);
+  if (!Number.isFinite(rate) || rate <= 0) throw new Error(`${where}: rate must be a positive number`);
+
+  return { date, base, quote, rate };
+}
+
+/**
+ * Parse FX rates from CSV text
+ * Header row required: date,base,quote,rate (any column order)
+ * @param csv - CSV content
+ * @returns Rates
+ * @throws Error on a missing column or invalid row
+ */
+export function parseFxCsv(csv: string): FxRateRow[] {
+  const [header, ...lines] = parseCsv(csv);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  for (const column of ['date', 'base', 'quote', 'rate']) {
+    if (!columns.includes(column)) throw new Error(`CSV header is missing "${column}"`);
+  }
+
+  return lines.map((values, index) => {
+    const row = Object.fromEntries(columns.map((column, i) => [column, values[i]]));
+    return toFxRateRow(row, `Line ${index + 2}`);
+  });
+}
+
+/**
+ * Parse FX rates from JSON
+ * Accepts a list of { date, base, quote, rate } and/or daily tables
+ * { date, base, rates: { EUR: 0.92, GBP: 0.79 } }, or a single daily table
+ * @param input - Parsed JSON
+ * @returns Rates
+ * @throws Error on an invalid entry
+ */
+export function parseFxJson(input: unknown): FxRateRow[] {
+  const entries = Array.isArray(input) ? input : [input];
+
+  return entries.flatMap((entry, index) => {
+    if (!entry || typeof entry !== 'object') throw new Error(`Entry ${index + 1}: expected an object`);
+    const { date, base, quote, rate, rates } = entry as Record<string, unknown>;
+
+    if (rates && typeof rates === 'object') {
+      return Object.entries(rates as Record<string, unknown>).map(([code, value]) =>
+        toFxRateRow({ date, base, quote: code, rate: value }, `Entry ${index + 1} (${code})`)
+      );
+    }
+    return [toFxRateRow({ date, base, quote, rate }, `Entry ${index + 1}`)];
+  });
+}
+
+/**
+ * Store rates, replacing any already stored for the same day and pair
+ * @param rows - Rates to store
+ * @param source - Where they came from
+ * @returns Number of rates inserted and updated
+ */
+export async function importFxRates(rows: FxRateRow[], source: FxRateSource) {
+  if (!rows.length) return { inserted: 0, updated: 0 };
+
+  const result = await FxRate.bulkWrite(
+    rows.map(row => ({
+      updateOne: {
+        filter: { date: row.date, base: row.base, quote: row.quote },
+        update: { $set: { rate: row.rate, source } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  return { inserted: result.upsertedCount, updated: result.modifiedCount };
+}
+
+/**
+ * Load rates from a local .csv or .json file (FX_RATES_FILE)
+ * @param file - Path to the file
+ * @returns Number of rates inserted and updated
+ */
+export async function loadFxRatesFile(file: string) {
+  const content = await fs.readFile(file, 'utf-8');
+  const rows = path.extname(file).toLowerCase() === '.csv'
+    ? parseFxCsv(content)
+    : parseFxJson(JSON.parse(content));
+  return importFxRates(rows, 'file');
+}
+
+/**
+ * Apply a conversion to an amount
+ * @param amount - Amount in the conversion's source currency
+ * @param conversion - Conversion from FxConverter.describe
+ * @returns Converted amount rounded to cents, or null without an amount or rate
+ */
+export function applyConversion(amount: number | null | undefined, conversion: FxConversion): number | null {
+  if (amount == null || conversion.rate === null) return null;
+  return Math.round(amount * conversion.rate * 100) / 100;
+}
+
+/**
+ * Day (UTC) an amount was quoted on
+ * @returns YYYY-MM-DD, or null for an unparseable date
+ */
+function toDay(date: Date | string): string | null {
+  if (typeof date === 'string' && DATE_PATTERN.test(date)) return date;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts amounts into one display currency using stored daily rates
+ * Each amount uses the rate of the day it was quoted, or the latest earlier
+ * rate up to FX_MAX_AGE_DAYS old. Pairs without a direct rate are inverted or
+ * crossed through any currency both sides are quoted against on that day.
+ */
+export class FxConverter {
+  // day -> base -> quote -> rate
+  private readonly byDay = new Map<string, Map<string, Map<string, number>>>();
+  private readonly memo = new Map<string, { rate: number; date: string } | null>();
+
+  constructor(readonly displayCurrency: string, rows: FxRateRow[]) {
+    for (const { date, base, quote, rate } of rows) {
+      let day = this.byDay.get(date);
+      if (!day) this.byDay.set(date, day = new Map());
+      let quotes = day.get(base);
+      if (!quotes) day.set(base, quotes = new Map());
+      quotes.set(quote, rate);
+    }
+  }
+
+  /**
+   * Rate to multiply an amount in `from` by
+   * @param from - Currency the amount is in
+   * @param on - When the amount was quoted
+   * @returns Rate and the day it is from, or null if none is stored (or the date is invalid)
+   */
+  rateFor(from: string, on: Date | string): { rate: number; date: string } | null {
+    const to = this.displayCurrency;
+    const quotedOn = toDay(on);
+    if (!quotedOn) return null;
+    if (from === to) return { rate: 1, date: quotedOn };
+
+    const key = `${from}|${quotedOn}`;
+    if (this.memo.has(key)) return this.memo.get(key)!;
+
+    let found: { rate: number; date: string } | null = null;
+    for (let age = 0, day = quotedOn; age <= FX_MAX_AGE_DAYS && !found; age++, day = addDays(day, -1)) {
+      const rate = this.rateOnDay(day, from, to);
+      if (rate !== null) found = { rate, date: day };
+    }
+
+    this.memo.set(key, found);
+    return found;
+  }
+
+  /**
+   * Convert an amount
+   * @param amount - Amount in `from` (null/undefined passes through)
+   * @param from - Currency the amount is in
+   * @param on - When the amount was quoted
+   * @returns Converted amount (null when no rate is available) and the conversion used
+   */
+  convert(amount: number | null | undefined, from: string, on: Date | string) {
+    const conversion = this.describe(from, on);
+    return { amount: applyConversion(amount, conversion), conversion };
+  }
+
+  /**
+   * The conversion that applies to amounts in `from` quoted on `on`
+   */
+  describe(from: string, on: Date | string): FxConversion {
+    const found = this.rateFor(from, on);
+    return { from, to: this.displayCurrency, rate: found?.rate ?? null, date: found?.date ?? null };
+  }
+
+  private rateOnDay(day: string, from: string, to: string): number | null {
+    const rates = this.byDay.get(day);
+    if (!rates) return null;
+
+    const direct = rates.get(from)?.get(to);
+    if (direct) return direct;
+    const inverse = rates.get(to)?.get(from);
+    if (inverse) return 1 / inverse;
+
+    // Cross through a shared base: base->to / base->from
+    for (const quotes of rates.values()) {
+      const toRate = quotes.get(to);
+      const fromRate = quotes.get(from);
+      if (toRate && fromRate) return toRate / fromRate;
+    }
+    return null;
+  }
+}
+
+/**
+ * Build a converter with every rate needed for a set of amounts
+ * @param displayCurrency - Currency to convert into
+ * @param needs - Currency and quote date of each amount
+ * @returns Converter
+ */
+export async function createFxConverter(
+  displayCurrency: string,
+  needs: { currency: string; date: Date | string }[]
+): Promise<FxConverter> {
+  const foreign = needs.filter(need => need.currency !== displayCurrency);
+
+  const days = foreign
+    .map(need => toDay(need.date))
+    .filter((day): day is string => !!day)
+    .sort();
+  if (!days.length) return new FxConverter(displayCurrency, []);
+  const currencies = Array.from(new Set([displayCurrency, ...foreign.map(need => need.currency)]));
+
+  const rows = await FxRate.find({
+    date: { $gte: addDays(days[0], -FX_MAX_AGE_DAYS), $lte: days[days.length - 1] },
+    $or: [{ base: { $in: currencies } }, { quote: { $in: currencies } }],
+  })
+    .select('date base quote rate')
+    .lean();
+
+  return new FxConverter(displayCurrency, rows);
+}
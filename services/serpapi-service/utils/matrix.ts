@@ -0,0 +1,208 @@
+import { Types } from 'mongoose';
+import SerpData, { IFeaturedPrice } from '../models/SerpData';
+import { IBatchJob, IBatchJobItem, IBatchJobParams, IOccupancy, IRateMatrix, BatchItemStatus } from '../models/BatchJob';
+import { ICompSetHotel } from '../models/CompSet';
+import { addDays } from './formatters';
+import { toRateQuery } from './rateShop';
+import { rateCache } from './rateCache';
+
+// Largest matrix a single request may expand into
+export const MAX_MATRIX_SEARCHES = parseInt(process.env.MAX_MATRIX_SEARCHES || '500', 10);
+
+export interface MatrixColumn {
+  key: string; // e.g. "3n:2a+1c"
+  los: number;
+  adults: number;
+  childrenAges: number[];
+}
+
+export interface MatrixCell {
+  status: BatchItemStatus;
+  checkOutDate: string;
+  lowest: { rate: number; source: string } | null;
+  official: number | null;
+  currency: string | null;
+  cached: boolean | null;
+  warning: string | null;
+  error: string | null;
+}
+
+export interface MatrixRow {
+  hotelName: string;
+  checkInDate: string;
+  cells: Record<string, MatrixCell>;
+}
+
+/**
+ * Short label for an occupancy
+ * @param occupancy - Adults and children ages
+ * @returns e.g. "2a", or "2a+2c" with children
+ */
+export function occupancyKey({ adults, childrenAges }: IOccupancy): string {
+  return childrenAges.length ? `${adults}a+${childrenAges.length}c` : `${adults}a`;
+}
+
+/**
+ * Every arrival date in a matrix
+ * @param matrix - Matrix definition
+ * @returns YYYY-MM-DD dates from checkInFrom to checkInTo
+ */
+export function matrixCheckInDates({ checkInFrom, checkInTo }: Pick<IRateMatrix, 'checkInFrom' | 'checkInTo'>): string[] {
+  const dates: string[] = [];
+  for (let date = checkInFrom; date <= checkInTo; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Grid columns: each length of stay x occupancy
+ * @param matrix - Matrix definition
+ * @returns Columns in request order (LOS first)
+ */
+export function matrixColumns(matrix: Pick<IRateMatrix, 'los' | 'occupancies'>): MatrixColumn[] {
+  return matrix.los.flatMap(los =>
+    matrix.occupancies.map(occupancy => ({
+      key: `${los}n:${occupancyKey(occupancy)}`,
+      los,
+      adults: occupancy.adults,
+      childrenAges: occupancy.childrenAges,
+    }))
+  );
+}
+
+/**
+ * Number of searches a matrix expands into
+ * @param matrix - Matrix definition
+ * @param hotelCount - Hotels to shop
+ * @returns Stay dates x columns x hotels
+ */
+export function countMatrixSearches(matrix: IRateMatrix, hotelCount: number): number {
+  return matrixCheckInDates(matrix).length * matrix.los.length * matrix.occupancies.length * hotelCount;
+}
+
+/**
+ * Expand a matrix into one batch job item per search
+ * Ordered by arrival date, so the nearest stays are shopped first
+ * @param matrix - Matrix definition
+ * @param hotels - Comp set hotels
+ * @returns Pending items
+ */
+export function expandRateMatrix(matrix: IRateMatrix, hotels: ICompSetHotel[]): IBatchJobItem[] {
+  const columns = matrixColumns(matrix);
+  const items: IBatchJobItem[] = [];
+
+  for (const checkInDate of matrixCheckInDates(matrix)) {
+    for (const hotel of hotels) {
+      for (const column of columns) {
+        items.push({
+          hotelName: hotel.name,
+          propertyToken: hotel.property_token,
+          checkInDate,
+          checkOutDate: addDays(checkInDate, column.los),
+          los: column.los,
+          adults: column.adults,
+          childrenAges: column.childrenAges,
+          status: 'pending',
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * How many of a job's searches would need a provider call right now
+ * (the rest are answered from the rate cache and cost nothing)
+ * @param items - Expanded items
+ * @param params - Job locale settings
+ * @param providerName - Provider the searches will go to
+ * @returns Searches not currently cached
+ */
+export function countUncachedSearches(
+  items: IBatchJobItem[],
+  params: Pick<IBatchJobParams, 'gl' | 'hl' | 'currency'>,
+  providerName: string
+): number {
+  return items.filter(item => !rateCache.has(providerName, toRateQuery({
+    hotelName: item.hotelName,
+    propertyToken: item.propertyToken,
+    checkInDate: item.checkInDate!,
+    checkOutDate: item.checkOutDate!,
+    adults: item.adults!,
+    childrenAges: item.childrenAges,
+    gl: params.gl,
+    hl: params.hl,
+    currency: params.currency,
+  }))).length;
+}
+
+/**
+ * Lowest and official nightly rate in a stored shop
+ */
+function summarizePrices(prices: IFeaturedPrice[]) {
+  let lowest: MatrixCell['lowest'] = null;
+  let official: number | null = null;
+
+  for (const price of prices) {
+    const rate = price.rate_per_night?.extracted_lowest;
+    if (typeof rate !== 'number') continue;
+    if (price.official && official === null) official = rate;
+    if (!lowest || rate < lowest.rate) lowest = { rate, source: price.source || 'unknown' };
+  }
+
+  return { lowest, official };
+}
+
+/**
+ * Lay a matrix job's results out as a grid
+ * Rows are hotel x arrival date; columns are length of stay x occupancy
+ * @param job - Matrix batch job
+ * @returns Columns and rows, each cell holding the search status and rates
+ */
+export async function buildMatrixGrid(job: IBatchJob) {
+  const matrix = job.params.matrix!;
+  const columns = matrixColumns(matrix);
+
+  const databaseIds = job.items
+    .map(item => item.databaseId)
+    .filter((id): id is Types.ObjectId => !!id);
+  const docs = await SerpData.find({ _id: { $in: databaseIds } })
+    .select('featured_prices prices search_parameters.currency')
+    .lean();
+  const docsById = new Map(docs.map(doc => [String(doc._id), doc]));
+
+  const rows = new Map<string, MatrixRow>();
+  for (const item of job.items) {
+    const rowKey = `${item.hotelName}|${item.checkInDate}`;
+    let row = rows.get(rowKey);
+    if (!row) {
+      row = { hotelName: item.hotelName, checkInDate: item.checkInDate!, cells: {} };
+      rows.set(rowKey, row);
+    }
+
+    const doc = item.databaseId ? docsById.get(item.databaseId.toString()) : undefined;
+    const { lowest, official } = summarizePrices(doc ? [...(doc.featured_prices || []), ...(doc.prices || [])] : []);
+
+    const columnKey = `${item.los}n:${occupancyKey({ adults: item.adults!, childrenAges: item.childrenAges || [] })}`;
+    row.cells[columnKey] = {
+      status: item.status,
+      checkOutDate: item.checkOutDate!,
+      lowest,
+      official,
+      currency: doc?.search_parameters?.currency ?? null,
+      cached: item.cached ?? null,
+      warning: item.warning ?? null,
+      error: item.error ?? null,
+    };
+  }
+
+  return {
+    jobId: job._id,
+    status: job.status,
+    matrix,
+    columns,
+    rows: Array.from(rows.values()),
+  };
+}
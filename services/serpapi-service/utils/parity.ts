@@ -0,0 +1,220 @@
+import SerpData, { IFeaturedPrice } from '../models/SerpData';
+import { ResolvedChannelConfig, getChannelConfig, selectChannels, buildChannelResolver } from './channels';
+import { createFxConverter, applyConversion, FxConversion } from './fx';
+
+export type ParityStatus = 'parity' | 'undercut' | 'above' | 'unknown';
+
+export interface ParityTolerance {
+  percent: number; // allowed undercut as a percentage of the official rate
+  amount: number;  // allowed undercut in currency units
+}
+
+export interface ParityComparison {
+  rate: number | null;
+  official: number | null;
+  difference: number | null;    // OTA rate minus official rate
+  differencePct: number | null; // difference as a percentage of the official rate
+  status: ParityStatus;
+}
+
+export interface ParityReportParams {
+  property: string;    // hotel name or property_token
+  checkInFrom: string; // YYYY-MM-DD
+  checkInTo: string;   // YYYY-MM-DD
+  adults: number;
+  children?: number; // default: adults-only stays
+  currency?: string;
+  displayCurrency?: string; // compare in this currency, converted at each search's shop date
+  ota?: string[];
+  tolerance: ParityTolerance;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare one OTA rate with the official rate
+ * The OTA undercuts when it is cheaper by more than the tolerance, which is
+ * the larger of the percentage and the absolute amount.
+ * @param rate - OTA rate
+ * @param official - Official (brand.com) rate
+ * @param tolerance - Allowed undercut
+ * @returns Difference and parity status
+ */
+export function compareRates(
+  rate: number | null | undefined,
+  official: number | null | undefined,
+  tolerance: ParityTolerance
+): ParityComparison {
+  if (rate == null || official == null) {
+    return { rate: rate ?? null, official: official ?? null, difference: null, differencePct: null, status: 'unknown' };
+  }
+
+  const difference = round(rate - official);
+  const allowed = Math.max((official * tolerance.percent) / 100, tolerance.amount);
+
+  let status: ParityStatus = 'parity';
+  if (difference < -allowed) status = 'undercut';
+  else if (difference > allowed) status = 'above';
+
+  return {
+    rate,
+    official,
+    difference,
+    differencePct: official ? round((difference / official) * 100) : null,
+    status,
+  };
+}
+
+/**
+ * Lowest price in a list by one rate_per_night field
+ */
+function lowestBy(prices: IFeaturedPrice[], field: 'extracted_lowest' | 'extracted_before_taxes_fees') {
+  const rates = prices
+    .map(price => price.rate_per_night?.[field])
+    .filter((rate): rate is number => typeof rate === 'number');
+  return rates.length ? Math.min(...rates) : null;
+}
+
+/**
+ * Copy of a price with its nightly rates converted
+ */
+function convertPrice(price: IFeaturedPrice, conversion: FxConversion): IFeaturedPrice {
+  if (!price.rate_per_night) return price;
+  return {
+    ...price,
+    rate_per_night: {
+      ...price.rate_per_night,
+      extracted_lowest: applyConversion(price.rate_per_night.extracted_lowest, conversion) ?? undefined,
+      extracted_before_taxes_fees: applyConversion(price.rate_per_night.extracted_before_taxes_fees, conversion) ?? undefined,
+    },
+  };
+}
+
+/**
+ * Parity report for one property over a range of stay dates
+ * Every stored search in the range is compared with its own official price,
+ * separately for the after-tax (extracted_lowest) and before-tax
+ * (extracted_before_taxes_fees) rate. OTA sources are grouped into channels
+ * using the account's channel configuration. With a displayCurrency, every
+ * rate is converted before comparing, so toleranceAmount is in that currency.
+ * @param params - Property, date range, occupancy, OTA filter, display currency and tolerance
+ * @param channelConfig - Channel configuration (defaults when omitted)
+ * @returns Parity report with a row per stay date and a summary
+ */
+export async function getParityReport(params: ParityReportParams, channelConfig?: ResolvedChannelConfig) {
+  const { property, checkInFrom, checkInTo, adults, children = 0, currency, displayCurrency, ota, tolerance } = params;
+  const config = selectChannels(channelConfig || await getChannelConfig(), ota);
+  const resolveChannel = buildChannelResolver({ ...config, includeBrand: false });
+
+  const docs = await SerpData.find({
+    $or: [{ name: property }, { property_token: property }],
+    'search_parameters.check_in_date': {
+      $gte: new Date(`${checkInFrom}T00:00:00Z`),
+      $lte: new Date(`${checkInTo}T23:59:59.999Z`),
+    },
+    'search_parameters.adults': adults,
+    // Searches from before children could be requested have no count: treat as none
+    'search_parameters.children': children || { $in: [0, null] },
+    ...(currency && { 'search_parameters.currency': currency }),
+  })
+    .select('name property_token search_parameters search_metadata.created_at featured_prices prices updatedAt')
+    .sort({ 'search_parameters.check_in_date': 1, _id: 1 })
+    .lean();
+
+  const shoppedAt = (doc: typeof docs[number]) => doc.search_metadata?.created_at ?? doc.updatedAt ?? new Date();
+  const fx = displayCurrency
+    ? await createFxConverter(displayCurrency, docs.map(doc => ({ currency: doc.search_parameters?.currency || 'USD', date: shoppedAt(doc) })))
+    : null;
+
+  // Several searches (hotels matched by token, repeated shops) can share a stay date
+  const stayDates = new Set(docs
+    .map(doc => doc.search_parameters?.check_in_date)
+    .filter((date): date is Date => date instanceof Date)
+    .map(date => date.toISOString().slice(0, 10)));
+
+  const summary = {
+    stayDates: stayDates.size,
+    withOfficialRate: 0,
+    comparisons: 0,
+    undercuts: { afterTax: 0, beforeTax: 0 },
+  };
+
+  const dates = docs.map(doc => {
+    // featured_prices win over prices when a source appears in both
+    const bySource = new Map<string, IFeaturedPrice>();
+    for (const price of [...(doc.featured_prices || []), ...(doc.prices || [])]) {
+      const key = price?.source?.trim().toLowerCase();
+      if (!key || bySource.has(key)) continue;
+      bySource.set(key, price);
+    }
+
+    // The same shop time is reported and used for FX conversion
+    const shopped = shoppedAt(doc);
+    const conversion = fx ? fx.describe(doc.search_parameters?.currency || 'USD', shopped) : null;
+    const prices = Array.from(bySource.values())
+      .map(price => conversion ? convertPrice(price, conversion) : price);
+
+    const officialPrices = prices.filter(price => price.official);
+    const official = {
+      source: officialPrices[0]?.source ?? null,
+      afterTax: lowestBy(officialPrices, 'extracted_lowest'),
+      beforeTax: lowestBy(officialPrices, 'extracted_before_taxes_fees'),
+    };
+    if (officialPrices.length) summary.withOfficialRate++;
+
+    const byChannel = new Map<string, { channel: string; label: string; sources: IFeaturedPrice[] }>();
+    for (const price of prices) {
+      if (price.official) continue;
+      const channel = resolveChannel(price);
+      if (!channel) continue;
+
+      const entry = byChannel.get(channel.key) || { channel: channel.key, label: channel.label, sources: [] };
+      entry.sources.push(price);
+      byChannel.set(channel.key, entry);
+    }
+
+    const channels = Array.from(byChannel.values()).map(({ channel, label, sources }) => {
+      const afterTax = compareRates(lowestBy(sources, 'extracted_lowest'), official.afterTax, tolerance);
+      const beforeTax = compareRates(lowestBy(sources, 'extracted_before_taxes_fees'), official.beforeTax, tolerance);
+
+      if (afterTax.status !== 'unknown' || beforeTax.status !== 'unknown') summary.comparisons++;
+      if (afterTax.status === 'undercut') summary.undercuts.afterTax++;
+      if (beforeTax.status === 'undercut') summary.undercuts.beforeTax++;
+
+      return {
+        channel,
+        label,
+        sources: sources.map(price => price.source),
+        afterTax,
+        beforeTax,
+        undercut: afterTax.status === 'undercut' || beforeTax.status === 'undercut',
+      };
+    });
+
+    return {
+      _id: doc._id,
+      check_in_date: doc.search_parameters?.check_in_date ?? null,
+      check_out_date: doc.search_parameters?.check_out_date ?? null,
+      adults: doc.search_parameters?.adults ?? null,
+      currency: conversion ? conversion.to : doc.search_parameters?.currency ?? null,
+      shoppedAt: shopped,
+      ...(conversion && { conversion }),
+      official,
+      channels,
+    };
+  });
+
+  return {
+    property: docs[0]?.name ?? property,
+    property_token: docs[0]?.property_token ?? null,
+    checkInFrom,
+    checkInTo,
+    adults,
+    children,
+    currency: currency ?? null,
+    displayCurrency: displayCurrency ?? null,
+    tolerance,
+    summary,
+    dates,
+  };
+}
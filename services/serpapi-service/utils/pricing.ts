@@ -0,0 +1,270 @@
+import { Types } from 'mongoose';
+import { ResourceScope, scopeFilter, documentScope } from '../../../shared';
+import PricingRuleSet, { IPricingRuleSet, IPricingRule, IPricingConditions, PricingBase } from '../models/PricingRuleSet';
+import { ICompSet } from '../models/CompSet';
+import { EventImpact } from '../models/MarketEvent';
+import { getRateIndex, CompSetStats } from './rateIndex';
+import { findEvents, eventsByDate, EventSummary } from './events';
+
+export type RuleSetDefinition = Pick<IPricingRuleSet, 'rules' | 'floor' | 'ceiling' | 'currency' | 'rounding'>;
+
+export interface RecommendationParams {
+  checkInFrom: string; // YYYY-MM-DD
+  checkInTo: string;   // YYYY-MM-DD
+  los: number;
+  adults: number;
+}
+
+export interface StayDateMarket {
+  date: string;
+  currency: string | null;
+  mixedCurrencies?: boolean; // hotels shopped in different currencies, not converted
+  ownRate: number | null;
+  compSet: CompSetStats;
+  events?: EventSummary[]; // market events covering the date
+}
+
+export interface RateRecommendation {
+  date: string;
+  suggestedRate: number | null;
+  currency: string | null;
+  ownRate: number | null;
+  compSet: CompSetStats;
+  events: string[]; // names of market events covering the date
+  rule: { index: number; name: string } | null; // rule that priced the date
+  constrainedBy: 'floor' | 'ceiling' | null;
+  explanation: string;
+}
+
+const BASE_LABELS: Record<PricingBase, string> = {
+  median: 'comp median',
+  min: 'comp min',
+  max: 'comp max',
+  average: 'comp average',
+  own: 'own rate',
+};
+
+const IMPACT_LEVELS: Record<EventImpact, number> = { low: 1, medium: 2, high: 3 };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether a rule's conditions hold for a stay date
+ * @param conditions - Rule conditions (none = every date)
+ * @param date - Stay date (YYYY-MM-DD)
+ * @param events - Market events covering the date
+ */
+export function conditionsMatch(
+  conditions: IPricingConditions | undefined,
+  date: string,
+  events: Pick<EventSummary, 'impact'>[] = []
+): boolean {
+  if (!conditions) return true;
+  const { daysOfWeek, dates, dateFrom, dateTo, onEventDates, minEventImpact } = conditions;
+
+  if (daysOfWeek?.length && !daysOfWeek.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) return false;
+  if (dates?.length && !dates.includes(date)) return false;
+  if (dateFrom && date < dateFrom) return false;
+  if (dateTo && date > dateTo) return false;
+  if (onEventDates !== undefined && onEventDates !== null) {
+    const minimum = IMPACT_LEVELS[minEventImpact || 'low'];
+    const hasEvent = events.some(event => IMPACT_LEVELS[event.impact] >= minimum);
+    if (hasEvent !== onEventDates) return false;
+  }
+  return true;
+}
+
+/**
+ * Statistic a rule prices from
+ */
+function baseValue(base: PricingBase, market: StayDateMarket): number | null {
+  return base === 'own' ? market.ownRate : market.compSet[base];
+}
+
+/**
+ * Human-readable form of a rule's adjustment, e.g. "- 5" or "+ 10%"
+ */
+function describeAdjustment({ type, value }: IPricingRule['adjustment']): string {
+  if (!value) return '';
+  const sign = value < 0 ? '-' : '+';
+  return ` ${sign} ${Math.abs(value)}${type === 'percent' ? '%' : ''}`;
+}
+
+/**
+ * Suggest a BAR for one stay date
+ * Enabled rules are tried in order; the first whose conditions hold and whose
+ * base statistic is known prices the date. The result is rounded, then held
+ * between the floor and ceiling. Dates with rates in mixed currencies are not
+ * priced.
+ * @param ruleSet - Rules and constraints
+ * @param market - Own rate and comp set statistics for the date
+ * @returns Suggested rate and an explanation of how it was reached
+ */
+export function recommendRate(ruleSet: RuleSetDefinition, market: StayDateMarket): RateRecommendation {
+  const result: RateRecommendation = {
+    date: market.date,
+    suggestedRate: null,
+    currency: market.currency,
+    ownRate: market.ownRate,
+    compSet: market.compSet,
+    events: (market.events || []).map(event => event.name),
+    rule: null,
+    constrainedBy: null,
+    explanation: 'No rule matched this date',
+  };
+
+  if (market.mixedCurrencies) {
+    result.explanation = 'Hotels were shopped in different currencies for this date; set a currency on the rule set to compare them';
+    return result;
+  }
+
+  const skipped: string[] = [];
+  const index = ruleSet.rules.findIndex(rule => {
+    if (!rule.enabled || !conditionsMatch(rule.conditions, market.date, market.events)) return false;
+    if (baseValue(rule.base, market) === null) {
+      skipped.push(`"${rule.name}" (no ${BASE_LABELS[rule.base]})`);
+      return false;
+    }
+    return true;
+  });
+
+  if (index === -1) {
+    if (skipped.length) result.explanation = `Matching rules had no data: ${skipped.join(', ')}`;
+    return result;
+  }
+
+  const rule = ruleSet.rules[index];
+  const base = baseValue(rule.base, market)!;
+  const { type, value } = rule.adjustment;
+
+  let rate = type === 'percent' ? base * (1 + value / 100) : base + value;
+  if (ruleSet.rounding) rate = Math.round(rate / ruleSet.rounding) * ruleSet.rounding;
+  rate = round(rate);
+
+  let explanation = `"${rule.name}": ${BASE_LABELS[rule.base]} ${base}${describeAdjustment(rule.adjustment)} = ${rate}`;
+  if (rule.conditions?.onEventDates && result.events.length) {
+    explanation += ` (event: ${result.events.join(', ')})`;
+  }
+
+  if (ruleSet.floor != null && rate < ruleSet.floor) {
+    rate = ruleSet.floor;
+    result.constrainedBy = 'floor';
+    explanation += `, raised to floor ${ruleSet.floor}`;
+  } else if (ruleSet.ceiling != null && rate > ruleSet.ceiling) {
+    rate = ruleSet.ceiling;
+    result.constrainedBy = 'ceiling';
+    explanation += `, lowered to ceiling ${ruleSet.ceiling}`;
+  }
+
+  return { ...result, suggestedRate: rate, rule: { index, name: rule.name }, explanation };
+}
+
+/**
+ * Suggested BAR per stay date for a comp set
+ * Market data comes from the stored shops (see getRateIndex), converted to the
+ * rule set's currency when it has one. Events come from the comp set's market.
+ * @param ruleSet - Rules and constraints
+ * @param compSet - Comp set (owner, market, own hotel and competitors)
+ * @param params - Stay dates and occupancy
+ * @returns One recommendation per stay date
+ */
+export async function recommendRates(
+  ruleSet: RuleSetDefinition,
+  compSet: Pick<ICompSet, 'userId' | 'propertyId' | 'market' | 'hotel' | 'competitors'>,
+  params: RecommendationParams
+): Promise<RateRecommendation[]> {
+  const [index, events] = await Promise.all([
+    getRateIndex(compSet, {
+      ...params,
+      displayCurrency: ruleSet.currency ?? undefined,
+      band: { low: 100, high: 100 },
+      window: 1,
+    }),
+    compSet.market
+      ? findEvents(documentScope(compSet), [compSet.market], params.checkInFrom, params.checkInTo)
+      : Promise.resolve([]),
+  ]);
+  const byDate = eventsByDate(events);
+
+  return index.dates.map(row => recommendRate(ruleSet, { ...row, events: byDate.get(row.date) || [] }));
+}
+
+/**
+ * Replay rules against stored (historical) shops and compare the suggestions
+ * with the rate the hotel actually had
+ * @param ruleSet - Rules and constraints (saved or draft)
+ * @param compSet - Comp set (owner, market, own hotel and competitors)
+ * @param params - Stay dates and occupancy
+ * @returns Recommendations with the difference to the actual rate, and a summary
+ */
+export async function dryRunRules(
+  ruleSet: RuleSetDefinition,
+  compSet: Pick<ICompSet, 'userId' | 'propertyId' | 'market' | 'hotel' | 'competitors'>,
+  params: RecommendationParams
+) {
+  const recommendations = await recommendRates(ruleSet, compSet, params);
+
+  const dates = recommendations.map(recommendation => ({
+    ...recommendation,
+    difference: recommendation.suggestedRate !== null && recommendation.ownRate !== null
+      ? round(recommendation.suggestedRate - recommendation.ownRate)
+      : null,
+  }));
+
+  const compared = dates.filter(date => date.difference !== null);
+  const ruleUsage = new Map<string, number>();
+  for (const date of dates) {
+    if (date.rule) ruleUsage.set(date.rule.name, (ruleUsage.get(date.rule.name) || 0) + 1);
+  }
+
+  return {
+    summary: {
+      stayDates: dates.length,
+      priced: dates.filter(date => date.suggestedRate !== null).length,
+      compared: compared.length,
+      higher: compared.filter(date => date.difference! > 0).length,
+      lower: compared.filter(date => date.difference! < 0).length,
+      same: compared.filter(date => date.difference === 0).length,
+      averageDifference: compared.length
+        ? round(compared.reduce((sum, date) => sum + date.difference!, 0) / compared.length)
+        : null,
+      constrained: {
+        floor: dates.filter(date => date.constrainedBy === 'floor').length,
+        ceiling: dates.filter(date => date.constrainedBy === 'ceiling').length,
+      },
+      rules: Array.from(ruleUsage, ([name, count]) => ({ name, dates: count })),
+    },
+    dates,
+  };
+}
+
+/**
+ * A rule set version of a scope (property or personal)
+ * @param scope - Resource scope
+ * @param version - Version number (latest when omitted)
+ * @returns Rule set or null
+ */
+export async function getRuleSetVersion(scope: ResourceScope, version?: number) {
+  return PricingRuleSet.findOne({ ...scopeFilter(scope), ...(version !== undefined && { version }) }).sort({ version: -1 });
+}
+
+/**
+ * Save rules as the scope's next version (earlier versions are kept unchanged)
+ * @param scope - Resource scope; its user is recorded as the author
+ * @param definition - Rules, constraints, name and note
+ * @returns The new version
+ * @throws MongoServerError 11000 if another version was saved at the same time
+ */
+export async function saveRuleSetVersion(
+  scope: ResourceScope,
+  definition: RuleSetDefinition & Partial<Pick<IPricingRuleSet, 'name' | 'note'>>
+) {
+  const latest = await PricingRuleSet.findOne(scopeFilter(scope)).sort({ version: -1 }).select('version').lean();
+
+  return PricingRuleSet.create({
+    ...definition,
+    userId: new Types.ObjectId(scope.userId),
+    propertyId: scope.propertyId ? new Types.ObjectId(scope.propertyId) : null,
+    version: (latest?.version ?? 0) + 1,
+  });
+}
@@ -0,0 +1,61 @@
+import { RateProvider, PropertyCandidate, NormalizedRates, getRateProvider } from '../providers';
+import { UsageContext, meteredProvider } from './usage';
+import { addDays } from './formatters';
+
+export interface PropertySearchParams {
+  query: string;
+  checkInDate?: string; // YYYY-MM-DD; defaults to tomorrow
+  gl?: string;
+  hl?: string;
+  currency?: string;
+  usage?: UsageContext;
+}
+
+/**
+ * Properties a hotel name may refer to, for the user to pick the right one
+ * The chosen property_token is then pinned on the comp set hotel
+ * @param params - Hotel name, optional stay date, locale settings and usage context
+ * @param provider - Rate source (defaults to the one selected by RATE_PROVIDER)
+ * @returns Candidates in the provider's result order
+ * @throws Error if the provider can't search for properties
+ */
+export async function searchPropertyCandidates(
+  {
+    query,
+    checkInDate = addDays(new Date().toISOString().slice(0, 10), 1),
+    gl = 'us',
+    hl = 'en',
+    currency = 'USD',
+    usage = { jobType: 'manual' },
+  }: PropertySearchParams,
+  provider: RateProvider = getRateProvider()
+): Promise<PropertyCandidate[]> {
+  const metered = meteredProvider(provider, usage);
+  if (!metered.searchProperties) {
+    throw new Error(`Rate provider "${provider.name}" does not support property search`);
+  }
+
+  return metered.searchProperties({
+    query,
+    checkInDate,
+    checkOutDate: addDays(checkInDate, 1),
+    gl,
+    hl,
+    currency,
+  });
+}
+
+/**
+ * Warn when a shop pinned to one property came back for another
+ * @param propertyToken - Pinned token (nothing to check if unset)
+ * @param rates - Normalized rates the provider returned
+ * @returns Warning message, or null if the property matches
+ */
+export function checkPropertyMatch(propertyToken: string | null | undefined, rates: NormalizedRates): string | null {
+  if (!propertyToken || rates.property_token === propertyToken) return null;
+
+  const warning = `Expected property ${propertyToken} but the response was for ` +
+    `${rates.name ?? 'an unknown property'} (${rates.property_token ?? 'no token'})`;
+  console.warn(`[PROPERTY] ${warning}`);
+  return warning;
+}
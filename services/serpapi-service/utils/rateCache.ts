@@ -0,0 +1,166 @@
+import { RateProvider, RateQuery, RateProviderResult } from '../providers';
+import { Clock, systemClock } from './clock';
+
+export interface RateCacheOptions {
+  clock?: Clock;
+  ttlMs?: number;      // how long a result stays fresh
+  maxEntries?: number; // oldest entries are evicted beyond this
+}
+
+export interface RateFetchOptions {
+  maxAge?: number;        // seconds; accept cached data up to this old (capped by the TTL)
+  forceRefresh?: boolean; // always call the provider (and refresh the cache)
+  // Runs for this caller only, before it joins an in-flight call or starts one (not for fresh cached results);
+  // throwing fails this caller without touching calls other callers share
+  beforeCall?: () => Promise<void>;
+}
+
+export interface CachedRateResult extends RateProviderResult {
+  cached: boolean;    // served from the cache (or joined an identical in-flight call)
+  fetchedAt: Date;    // when the provider was actually called
+}
+
+interface CacheEntry {
+  result: RateProviderResult;
+  fetchedAt: Date;
+}
+
+/**
+ * Cache key for a query: provider plus the normalized search parameters
+ * @param provider - Provider name
+ * @param query - Rate query
+ * @returns Key shared by every equivalent query
+ */
+export function rateCacheKey(provider: string, query: RateQuery): string {
+  return [
+    provider,
+    query.propertyToken || query.hotelQuery.trim().toLowerCase(),
+    query.checkInDate,
+    query.checkOutDate,
+    query.gl.toLowerCase(),
+    query.hl.toLowerCase(),
+    query.currency.toUpperCase(),
+    query.adults,
+    (query.childrenAges || []).join(','),
+  ].join('|');
+}
+
+/**
+ * In-memory TTL cache in front of rate providers
+ * Each provider call costs a credit, so fresh results are reused and
+ * identical concurrent requests share a single call.
+ */
+export class RateCache {
+  private readonly clock: Clock;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<CacheEntry>>();
+
+  constructor(options: RateCacheOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.ttlMs = options.ttlMs ?? 15 * 60_000;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Fetch rates, using a fresh cached result when there is one
+   * @param provider - Rate provider to call on a miss
+   * @param query - Rate query
+   * @param options - maxAge / forceRefresh / beforeCall
+   * @returns Provider result with cache metadata
+   */
+  async fetch(provider: RateProvider, query: RateQuery, options: RateFetchOptions = {}): Promise<CachedRateResult> {
+    const key = rateCacheKey(provider.name, query);
+
+    if (!this.inFlight.has(key)) {
+      const entry = this.freshEntry(key, options);
+      if (entry) return { ...entry.result, cached: true, fetchedAt: entry.fetchedAt };
+    }
+
+    if (options.beforeCall) {
+      await options.beforeCall();
+
+      // Another caller may have started or finished the same call meanwhile
+      const entry = this.inFlight.has(key) ? null : this.freshEntry(key, options);
+      if (entry) return { ...entry.result, cached: true, fetchedAt: entry.fetchedAt };
+    }
+
+    // An identical call is already running: its result is as fresh as it gets
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const entry = await pending;
+      return { ...entry.result, cached: true, fetchedAt: entry.fetchedAt };
+    }
+
+    const call = provider.fetchRates(query).then(result => {
+      const entry = { result, fetchedAt: this.clock.now() };
+      this.store(key, entry);
+      return entry;
+    });
+
+    this.inFlight.set(key, call);
+    try {
+      const entry = await call;
+      return { ...entry.result, cached: false, fetchedAt: entry.fetchedAt };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Whether a fetch with these options would be answered without calling the provider
+   * @param providerName - Provider the result would come from
+   * @param query - Rate query
+   * @param options - maxAge / forceRefresh
+   * @returns True if a fresh result is cached or the same call is in flight
+   */
+  has(providerName: string, query: RateQuery, options: RateFetchOptions = {}): boolean {
+    const key = rateCacheKey(providerName, query);
+    return this.inFlight.has(key) || !!this.freshEntry(key, options);
+  }
+
+  /**
+   * Drop every cached result
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of cached results (fresh or not yet pruned)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Cached result young enough for the options (never when forcing a refresh)
+   */
+  private freshEntry(key: string, options: RateFetchOptions): CacheEntry | null {
+    if (options.forceRefresh) return null;
+
+    const entry = this.entries.get(key);
+    const maxAgeMs = Math.min(this.ttlMs, options.maxAge !== undefined ? options.maxAge * 1000 : Infinity);
+    return entry && this.clock.now().getTime() - entry.fetchedAt.getTime() <= maxAgeMs ? entry : null;
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    // Re-insert so the Map's order stays oldest-first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const now = this.clock.now().getTime();
+    for (const [cachedKey, cached] of this.entries) {
+      if (this.entries.size <= this.maxEntries && now - cached.fetchedAt.getTime() <= this.ttlMs) break;
+      this.entries.delete(cachedKey);
+    }
+  }
+}
+
+// Cache used by the running service
+export const rateCache = new RateCache({
+  ttlMs: process.env.RATE_CACHE_TTL_SECONDS !== undefined
+    ? Number(process.env.RATE_CACHE_TTL_SECONDS) * 1000
+    : undefined,
+});
@@ -0,0 +1,172 @@
+import RateSnapshot from '../models/RateSnapshot';
+import { createFxConverter, applyConversion, FxConversion } from './fx';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days-before-arrival buckets used for pace reporting
+export const DBA_BUCKETS: { label: string; minDays: number; maxDays: number }[] = [
+  { label: '0-1', minDays: 0, maxDays: 1 },
+  { label: '2-3', minDays: 2, maxDays: 3 },
+  { label: '4-7', minDays: 4, maxDays: 7 },
+  { label: '8-14', minDays: 8, maxDays: 14 },
+  { label: '15-30', minDays: 15, maxDays: 30 },
+  { label: '31-60', minDays: 31, maxDays: 60 },
+  { label: '61-90', minDays: 61, maxDays: 90 },
+  { label: '91+', minDays: 91, maxDays: Infinity },
+];
+
+export interface RateHistoryPoint {
+  shoppedAt: Date;
+  daysBeforeArrival: number;
+  extracted_lowest: number | null;
+  extracted_before_taxes_fees: number | null;
+  conversion?: FxConversion; // set when converted to a display currency
+}
+
+export interface PaceBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+  observations: number;
+  averageRate: number | null;
+  lastRate: number | null;
+}
+
+export interface RatePace {
+  firstSeen: RateHistoryPoint | null;
+  lastSeen: RateHistoryPoint | null;
+  changes: number;
+  minRate: number | null;
+  maxRate: number | null;
+  buckets: PaceBucket[];
+}
+
+export interface RateHistoryParams {
+  property: string;  // hotel name or property_token
+  checkIn: string;   // YYYY-MM-DD
+  los: number;
+  adults: number;
+  children?: number; // default: adults-only stays
+  displayCurrency?: string; // convert each point at the FX rate of its shop date
+}
+
+/**
+ * Whole days between the shop date and the arrival date (UTC)
+ * @param shoppedAt - When the rate was shopped
+ * @param checkIn - Arrival date
+ * @returns Days before arrival (0 = shopped on the arrival day)
+ */
+export function daysBeforeArrival(shoppedAt: Date, checkIn: Date): number {
+  const shopDay = Date.UTC(shoppedAt.getUTCFullYear(), shoppedAt.getUTCMonth(), shoppedAt.getUTCDate());
+  return Math.max(0, Math.floor((checkIn.getTime() - shopDay) / DAY_MS));
+}
+
+/**
+ * Pace metrics for one OTA's time series (points in shop order)
+ * @param points - Rate observations, oldest first
+ * @returns First/last seen rates, number of changes, range and DBA buckets
+ */
+export function computePace(points: RateHistoryPoint[]): RatePace {
+  const priced = points.filter(point => point.extracted_lowest !== null);
+
+  let changes = 0;
+  for (let i = 1; i < priced.length; i++) {
+    if (priced[i].extracted_lowest !== priced[i - 1].extracted_lowest) changes++;
+  }
+
+  const rates = priced.map(point => point.extracted_lowest as number);
+
+  const buckets = DBA_BUCKETS.map(({ label, minDays, maxDays }) => {
+    const inBucket = priced.filter(
+      point => point.daysBeforeArrival >= minDays && point.daysBeforeArrival <= maxDays
+    );
+    const bucketRates = inBucket.map(point => point.extracted_lowest as number);
+
+    return {
+      label,
+      minDays,
+      maxDays: Number.isFinite(maxDays) ? maxDays : null,
+      observations: inBucket.length,
+      averageRate: bucketRates.length
+        ? Math.round((bucketRates.reduce((sum, rate) => sum + rate, 0) / bucketRates.length) * 100) / 100
+        : null,
+      lastRate: bucketRates.length ? bucketRates[bucketRates.length - 1] : null,
+    };
+  });
+
+  return {
+    firstSeen: priced[0] || null,
+    lastSeen: priced[priced.length - 1] || null,
+    changes,
+    minRate: rates.length ? Math.min(...rates) : null,
+    maxRate: rates.length ? Math.max(...rates) : null,
+    buckets,
+  };
+}
+
+/**
+ * Time series of each OTA's rate for one stay, with pace metrics
+ * With a displayCurrency, every point is converted before pace is computed.
+ * @param params - Property, arrival date, length of stay, occupancy and display currency
+ * @returns Rate history grouped by OTA
+ */
+export async function getRateHistory({ property, checkIn, los, adults, children = 0, displayCurrency }: RateHistoryParams) {
+  const checkInStart = new Date(`${checkIn}T00:00:00Z`);
+  const checkInEnd = new Date(checkInStart.getTime() + DAY_MS);
+
+  const snapshots = await RateSnapshot.find({
+    $or: [{ property }, { property_token: property }],
+    checkInDate: { $gte: checkInStart, $lt: checkInEnd },
+    los,
+    adults,
+    // Snapshots from before children were recorded have no count: treat as none
+    children: children || { $in: [0, null] },
+  })
+    .sort({ shoppedAt: 1 })
+    .lean();
+
+  const fx = displayCurrency
+    ? await createFxConverter(displayCurrency, snapshots.map(snapshot => ({ currency: snapshot.currency, date: snapshot.shoppedAt })))
+    : null;
+
+  const byOta = new Map<string, { ota: string; official: boolean; currency: string; series: RateHistoryPoint[] }>();
+
+  for (const snapshot of snapshots) {
+    let entry = byOta.get(snapshot.ota);
+    if (!entry) {
+      entry = { ota: snapshot.ota, official: !!snapshot.official, currency: fx?.displayCurrency ?? snapshot.currency, series: [] };
+      byOta.set(snapshot.ota, entry);
+    }
+
+    const point: RateHistoryPoint = {
+      shoppedAt: snapshot.shoppedAt,
+      daysBeforeArrival: daysBeforeArrival(snapshot.shoppedAt, checkInStart),
+      extracted_lowest: snapshot.rate_per_night?.extracted_lowest ?? null,
+      extracted_before_taxes_fees: snapshot.rate_per_night?.extracted_before_taxes_fees ?? null,
+    };
+
+    if (fx) {
+      const conversion = fx.describe(snapshot.currency, snapshot.shoppedAt);
+      point.extracted_lowest = applyConversion(point.extracted_lowest, conversion);
+      point.extracted_before_taxes_fees = applyConversion(point.extracted_before_taxes_fees, conversion);
+      point.conversion = conversion;
+    }
+
+    entry.series.push(point);
+  }
+
+  return {
+    property: snapshots[0]?.property ?? property,
+    property_token: snapshots[0]?.property_token ?? null,
+    checkIn,
+    los,
+    adults,
+    children,
+    displayCurrency: displayCurrency ?? null,
+    snapshotCount: snapshots.length,
+    otas: Array.from(byOta.values()).map(entry => ({
+      ...entry,
+      pace: computePace(entry.series),
+    })),
+  };
+}
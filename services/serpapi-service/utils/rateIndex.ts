@@ -0,0 +1,250 @@
+import SerpData, { IFeaturedPrice } from '../models/SerpData';
+import { ICompSet, ICompSetHotel } from '../models/CompSet';
+import { getCompSetHotels } from './compsets';
+import { lengthOfStay } from './snapshots';
+import { matrixCheckInDates } from './matrix';
+import { createFxConverter, applyConversion } from './fx';
+import { addDays } from './formatters';
+
+// Longest stay date range one request may cover
+export const MAX_RANGE_DAYS = 366;
+
+export type MarketPosition = 'below' | 'within' | 'above' | 'unknown';
+
+export interface PositionBand {
+  low: number;  // lowest recommended index, e.g. 95 (% of the comp set median)
+  high: number; // highest recommended index, e.g. 105
+}
+
+export interface RateIndexParams {
+  checkInFrom: string; // YYYY-MM-DD
+  checkInTo: string;   // YYYY-MM-DD
+  los: number;
+  adults: number;
+  displayCurrency?: string;
+  band: PositionBand;
+  window: number;      // stay dates in the trailing averages
+}
+
+export interface CompSetStats {
+  count: number;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  average: number | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Fill in a stay date range (default: the next 30 days) and check its length
+ * @param checkInFrom - First stay date (default: today)
+ * @param checkInTo - Last stay date (default: 29 days after checkInFrom)
+ * @returns Range, or null when it is reversed or longer than MAX_RANGE_DAYS
+ */
+export function resolveStayDateRange(checkInFrom?: string, checkInTo?: string) {
+  const from = checkInFrom || new Date().toISOString().slice(0, 10);
+  const to = checkInTo || addDays(from, 29);
+  if (to < from || addDays(from, MAX_RANGE_DAYS) <= to) return null;
+  return { checkInFrom: from, checkInTo: to };
+}
+
+/**
+ * Median, min, max and average of a list of rates
+ * @param rates - Rates (any order)
+ * @returns Statistics, null when the list is empty
+ */
+export function rateStats(rates: number[]): CompSetStats {
+  if (!rates.length) return { count: 0, median: null, min: null, max: null, average: null };
+
+  const sorted = [...rates].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  return {
+    count: sorted.length,
+    median: round(median),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    average: round(sorted.reduce((sum, rate) => sum + rate, 0) / sorted.length),
+  };
+}
+
+/**
+ * Where an index sits relative to the recommended band
+ * @param index - Own rate as a percentage of the comp set median
+ * @param band - Recommended band
+ * @returns below, within or above the band (unknown without an index)
+ */
+export function marketPosition(index: number | null, band: PositionBand): MarketPosition {
+  if (index === null) return 'unknown';
+  if (index < band.low) return 'below';
+  if (index > band.high) return 'above';
+  return 'within';
+}
+
+/**
+ * Lowest nightly rate offered on any channel
+ */
+function lowestRate(prices: IFeaturedPrice[]): number | null {
+  const rates = prices
+    .map(price => price.rate_per_night?.extracted_lowest)
+    .filter((rate): rate is number => typeof rate === 'number');
+  return rates.length ? Math.min(...rates) : null;
+}
+
+/**
+ * Average of the non-null values
+ */
+function averageOf(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length ? round(present.reduce((sum, value) => sum + value, 0) / present.length) : null;
+}
+
+/**
+ * Rate index of a comp set's own hotel against its competitors, per stay date
+ * Each hotel's rate is the lowest nightly rate on any channel in its latest
+ * stored search. The index is the own rate as a percentage of the competitor
+ * median (100 = at the median); rank 1 is the cheapest hotel in the set.
+ * Each date also carries trailing averages over the last `window` stay dates.
+ * @param compSet - Comp set (own hotel and competitors)
+ * @param params - Stay dates, occupancy, display currency, band and window
+ * @returns Index rows per stay date and a summary of the range
+ */
+export async function getRateIndex(compSet: Pick<ICompSet, 'hotel' | 'competitors'>, params: RateIndexParams) {
+  const { checkInFrom, checkInTo, los, adults, displayCurrency, band, window } = params;
+  const hotels = getCompSetHotels(compSet);
+  const own = hotels[0];
+
+  const docs = await SerpData.find({
+    $or: [
+      { name: { $in: hotels.map(hotel => hotel.name) } },
+      { property_token: { $in: hotels.map(hotel => hotel.property_token).filter(Boolean) } },
+    ],
+    'search_parameters.check_in_date': {
+      $gte: new Date(`${checkInFrom}T00:00:00Z`),
+      $lte: new Date(`${checkInTo}T23:59:59.999Z`),
+    },
+    'search_parameters.adults': adults,
+    'search_parameters.children': { $in: [0, null] },
+  })
+    .select('name property_token search_parameters search_metadata.created_at featured_prices prices updatedAt')
+    .sort({ updatedAt: 1 })
+    .lean();
+
+  const shoppedAt = (doc: typeof docs[number]) => doc.search_metadata?.created_at ?? doc.updatedAt ?? new Date();
+  const fx = displayCurrency
+    ? await createFxConverter(displayCurrency, docs.map(doc => ({ currency: doc.search_parameters?.currency || 'USD', date: shoppedAt(doc) })))
+    : null;
+
+  // Pinned tokens identify a hotel first; names are matched case-insensitively
+  const hotelFor = (doc: typeof docs[number]): ICompSetHotel | undefined =>
+    hotels.find(hotel => hotel.property_token && hotel.property_token === doc.property_token) ||
+    hotels.find(hotel => !hotel.property_token && hotel.name.trim().toLowerCase() === doc.name?.trim().toLowerCase());
+
+  // date -> hotel -> latest rate (docs are in shop order, so later ones win)
+  const rates = new Map<string, Map<ICompSetHotel, { rate: number | null; currency: string | null }>>();
+  for (const doc of docs) {
+    const checkIn = new Date(doc.search_parameters.check_in_date);
+    const checkOut = new Date(doc.search_parameters.check_out_date);
+    if (lengthOfStay(checkIn, checkOut) !== los) continue;
+
+    const hotel = hotelFor(doc);
+    if (!hotel) continue;
+
+    let rate = lowestRate([...(doc.featured_prices || []), ...(doc.prices || [])]);
+    let currency: string | null = doc.search_parameters?.currency ?? null;
+    if (fx) {
+      rate = applyConversion(rate, fx.describe(currency || 'USD', shoppedAt(doc)));
+      currency = fx.displayCurrency;
+    }
+
+    const date = checkIn.toISOString().slice(0, 10);
+    if (!rates.has(date)) rates.set(date, new Map());
+    rates.get(date)!.set(hotel, { rate, currency });
+  }
+
+  const rows = matrixCheckInDates({ checkInFrom, checkInTo }).map(date => {
+    const byHotel = rates.get(date) || new Map();
+    const ownRate = byHotel.get(own)?.rate ?? null;
+    const competitors = hotels.slice(1).map(hotel => ({
+      name: hotel.name,
+      property_token: hotel.property_token ?? null,
+      rate: byHotel.get(hotel)?.rate ?? null,
+    }));
+    const currencies = Array.from(new Set(Array.from(byHotel.values()).map(entry => entry.currency).filter(Boolean)));
+    // Rates in different currencies can't be compared: no statistics, index, rank or band for the date
+    const comparable = currencies.length <= 1;
+    const compRates = comparable
+      ? competitors.map(hotel => hotel.rate).filter((rate): rate is number => rate !== null)
+      : [];
+    const comp = rateStats(compRates);
+
+    const index = ownRate !== null && comp.median ? round((ownRate / comp.median) * 100) : null;
+
+    return {
+      date,
+      currency: currencies.length === 1 ? currencies[0] : null,
+      mixedCurrencies: !comparable,
+      ownRate,
+      compSet: comp,
+      index,
+      averageIndex: ownRate !== null && comp.average ? round((ownRate / comp.average) * 100) : null,
+      rank: ownRate !== null && comparable ? 1 + compRates.filter(rate => rate < ownRate).length : null,
+      rankOf: comparable ? compRates.length + (ownRate !== null ? 1 : 0) : null,
+      band: {
+        low: comp.median !== null ? round((comp.median * band.low) / 100) : null,
+        high: comp.median !== null ? round((comp.median * band.high) / 100) : null,
+      },
+      position: marketPosition(index, band),
+      competitors,
+    };
+  });
+
+  // Trailing averages over the last `window` stay dates (including this one)
+  const dates = rows.map((row, i) => {
+    const span = rows.slice(Math.max(0, i - window + 1), i + 1);
+    return {
+      ...row,
+      trailing: {
+        index: averageOf(span.map(entry => entry.index)),
+        ownRate: averageOf(span.map(entry => entry.ownRate)),
+        compMedian: averageOf(span.map(entry => entry.compSet.median)),
+      },
+    };
+  });
+
+  const indexed = dates.filter(row => row.index !== null);
+  const latest = indexed.slice(-window);
+
+  return {
+    hotel: { name: own.name, property_token: own.property_token ?? null },
+    competitors: hotels.slice(1).map(hotel => ({ name: hotel.name, property_token: hotel.property_token ?? null })),
+    checkInFrom,
+    checkInTo,
+    los,
+    adults,
+    displayCurrency: displayCurrency ?? null,
+    band,
+    window,
+    summary: {
+      stayDates: dates.length,
+      indexedDates: indexed.length,
+      averageIndex: averageOf(indexed.map(row => row.index)),
+      averageRank: averageOf(indexed.map(row => row.rank)),
+      positions: {
+        below: indexed.filter(row => row.position === 'below').length,
+        within: indexed.filter(row => row.position === 'within').length,
+        above: indexed.filter(row => row.position === 'above').length,
+      },
+      // The last `window` stay dates with an index
+      trailing: {
+        dates: latest.length,
+        averageIndex: averageOf(latest.map(row => row.index)),
+        averageRank: averageOf(latest.map(row => row.rank)),
+        position: marketPosition(averageOf(latest.map(row => row.index)), band),
+      },
+    },
+    dates,
+  };
+}
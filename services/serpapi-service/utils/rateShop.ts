@@ -0,0 +1,166 @@
+import { Types } from 'mongoose';
+import SerpData from '../models/SerpData';
+import { formatHotelQuery } from './formatters';
+import { recordRateSnapshots } from './snapshots';
+import { checkRateAlerts } from './alerts';
+import { RateProvider, RateQuery, NormalizedRates, getRateProvider } from '../providers';
+import { UsageContext, fetchMeteredRates } from './usage';
+import { checkPropertyMatch } from './properties';
+
+export interface ShopHotelParams {
+  hotelName: string;
+  propertyToken?: string | null; // pinned property; shops it instead of the best name match
+  checkInDate: string;  // YYYY-MM-DD
+  checkOutDate: string; // YYYY-MM-DD
+  adults: number;
+  childrenAges?: number[];
+  gl?: string;
+  hl?: string;
+  currency?: string;
+  maxAge?: number;        // seconds; accept a cached result up to this old
+  forceRefresh?: boolean; // bypass the cache
+  usage?: UsageContext;   // who the search is for (usage ledger and quota)
+}
+
+export interface ShopHotelResult {
+  ratesData: any;
+  databaseId: Types.ObjectId | null;
+  updated: boolean;
+  cached: boolean;
+  warning: string | null; // set when the response was for a different property than the pinned one
+}
+
+export interface SaveSerpDataOptions {
+  recordHistory?: boolean; // append snapshots and evaluate alerts (skip for cached results)
+}
+
+/**
+ * Store normalized rates from any provider
+ * SerpData holds the latest view: the record matching hotel (property_token or name),
+ * check-in/check-out day, adults and number of children is overwritten. Every OTA price is also
+ * appended to RateSnapshot so the history survives the overwrite, and
+ * alert rules are evaluated against the previous shop.
+ * @param transformed - Normalized rates (e.g. output of transformSerpApiResponse)
+ * @param adults - Number of adults the search was made for
+ * @param options - Set recordHistory to false for results served from the cache,
+ *                  which were already recorded when first fetched
+ * @returns Saved document, whether an existing record was updated and snapshots written
+ */
+export async function saveSerpData(
+  transformed: NormalizedRates,
+  adults: number,
+  { recordHistory = true }: SaveSerpDataOptions = {}
+) {
+  const checkInDateObj = new Date(transformed.search_parameters.check_in_date);
+  const checkOutDateObj = new Date(transformed.search_parameters.check_out_date);
+  const checkInStart = new Date(checkInDateObj);
+  checkInStart.setHours(0, 0, 0, 0);
+  const checkInEnd = new Date(checkInDateObj);
+  checkInEnd.setHours(23, 59, 59, 999);
+  const checkOutStart = new Date(checkOutDateObj);
+  checkOutStart.setHours(0, 0, 0, 0);
+  const checkOutEnd = new Date(checkOutDateObj);
+  checkOutEnd.setHours(23, 59, 59, 999);
+
+  const existingData = await SerpData.findOne({
+    $or: [
+      { property_token: transformed.property_token },
+      { name: transformed.name },
+    ],
+    'search_parameters.check_in_date': {
+      $gte: checkInStart,
+      $lte: checkInEnd,
+    },
+    'search_parameters.check_out_date': {
+      $gte: checkOutStart,
+      $lte: checkOutEnd,
+    },
+    'search_parameters.adults': adults,
+    // Records from before children could be requested have no count: treat as none
+    'search_parameters.children': transformed.search_parameters.children || { $in: [0, null] },
+  });
+
+  let doc;
+  if (existingData) {
+    Object.assign(existingData, transformed);
+    doc = await existingData.save();
+  } else {
+    doc = await SerpData.create(transformed);
+  }
+
+  if (!recordHistory) {
+    return { doc, updated: !!existingData, snapshotCount: 0 };
+  }
+
+  // History is best-effort: the latest view is already saved
+  let snapshots: Awaited<ReturnType<typeof recordRateSnapshots>> = [];
+  try {
+    snapshots = await recordRateSnapshots(transformed, doc._id);
+  } catch (snapshotError) {
+    console.error('[SNAPSHOT] Failed to record rate snapshots:', snapshotError);
+  }
+
+  // So are alerts: compare against the previous shop and fire matching rules
+  if (snapshots.length) {
+    try {
+      await checkRateAlerts(snapshots, transformed.search_parameters?.q);
+    } catch (alertError) {
+      console.error('[ALERTS] Failed to evaluate alert rules:', alertError);
+    }
+  }
+
+  return { doc, updated: !!existingData, snapshotCount: snapshots.length };
+}
+
+/**
+ * Provider query for a shop (also the rate cache key)
+ * @param params - Hotel, stay dates, occupancy and locale settings
+ * @returns Rate query
+ */
+export function toRateQuery({
+  hotelName,
+  propertyToken,
+  checkInDate,
+  checkOutDate,
+  adults,
+  childrenAges,
+  gl = 'us',
+  hl = 'en',
+  currency = 'USD',
+}: ShopHotelParams): RateQuery {
+  return {
+    hotelName,
+    hotelQuery: formatHotelQuery(hotelName),
+    propertyToken: propertyToken || undefined,
+    checkInDate,
+    checkOutDate,
+    adults,
+    childrenAges,
+    gl,
+    hl,
+    currency,
+  };
+}
+
+/**
+ * Shop, normalize and store rates for a single hotel and stay
+ * Fresh results are reused from the rate cache; those are stored again as the
+ * latest view but not snapshotted twice. Provider calls are checked against
+ * the caller's quota and recorded in the usage ledger.
+ * @param params - Hotel, stay dates, locale settings, cache options and usage context
+ * @param provider - Rate source (defaults to the one selected by RATE_PROVIDER)
+ * @returns The provider's raw response and the stored record
+ */
+export async function shopHotel(
+  params: ShopHotelParams,
+  provider: RateProvider = getRateProvider()
+): Promise<ShopHotelResult> {
+  const { propertyToken, adults, maxAge, forceRefresh, usage = { jobType: 'manual' } } = params;
+
+  const { raw, rates, cached } = await fetchMeteredRates(provider, toRateQuery(params), usage, { maxAge, forceRefresh });
+
+  const warning = checkPropertyMatch(propertyToken, rates);
+  const { doc, updated } = await saveSerpData(rates, adults, { recordHistory: !cached });
+
+  return { ratesData: raw, databaseId: doc?._id || null, updated, cached, warning };
+}
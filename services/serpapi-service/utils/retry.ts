@@ -0,0 +1,57 @@
+import { Clock, systemClock, sleep } from './clock';
+
+export interface RetryOptions {
+  retries?: number;      // attempts after the first one
+  baseDelayMs?: number;  // delay cap before the first retry; doubles each retry
+  maxDelayMs?: number;   // upper bound for any delay
+  clock?: Clock;
+  random?: () => number; // jitter source (0 ≤ x < 1)
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  retryAfterMs?: (error: unknown) => number | null; // server-requested delay, if any
+}
+
+/**
+ * Delay before a retry: "full jitter" exponential backoff
+ * A random point between 0 and min(maxDelayMs, baseDelayMs * 2^attempt)
+ * @param attempt - Retry number, starting at 0
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  { baseDelayMs = 500, maxDelayMs = 8000, random = Math.random }: RetryOptions = {}
+): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Run an operation, retrying transient failures with backoff and jitter
+ * @param operation - Operation to run (receives the attempt number, starting at 0)
+ * @param options - Retry settings
+ * @returns The first successful result
+ * @throws The last error once retries are exhausted or the error isn't retryable
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries = 3, clock = systemClock, shouldRetry = () => true, retryAfterMs } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      // Honour a server-requested delay, unless it is longer than we are willing to wait
+      const requested = retryAfterMs?.(error);
+      if (requested != null && requested > (options.maxDelayMs ?? 8000)) {
+        throw error;
+      }
+      await sleep(clock, requested ?? backoffDelay(attempt, options));
+    }
+  }
+}
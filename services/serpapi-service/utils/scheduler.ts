@@ -0,0 +1,294 @@
+import { documentScope, scopeFilter } from '../../../shared';
+import CompSet from '../models/CompSet';
+import ScheduledJob, { IScheduledJob, JobRunStatus } from '../models/ScheduledJob';
+import ScheduledJobRun, { IScheduledJobRun } from '../models/ScheduledJobRun';
+import { Clock, systemClock, sleep } from './clock';
+import { getNextRunDate } from './cron';
+import { addDays } from './formatters';
+import { getCompSetHotels } from './compsets';
+import { shopHotel, ShopHotelParams } from './rateShop';
+import { QuotaExceededError } from './usage';
+
+export interface SchedulerOptions {
+  clock?: Clock;
+  pollIntervalMs?: number;  // how often to look for due jobs
+  requestDelayMs?: number;  // pause between SerpAPI calls (rate limit protection)
+  shop?: (params: ShopHotelParams) => Promise<unknown>;
+}
+
+// Keep run documents bounded when a whole window fails
+const MAX_RUN_ERRORS = 100;
+
+/**
+ * Stay dates covered by a job when it runs at the given time
+ * @param job - Job definition
+ * @param runAt - Run time (the UTC date is the "today" of the window)
+ * @returns Check-in dates in YYYY-MM-DD format
+ */
+export function computeStayDates(job: Pick<IScheduledJob, 'stayWindow'>, runAt: Date): string[] {
+  const today = runAt.toISOString().slice(0, 10);
+  const first = addDays(today, job.stayWindow.startOffsetDays || 0);
+
+  return Array.from({ length: job.stayWindow.nights }, (_, i) => addDays(first, i));
+}
+
+/**
+ * Runs scheduled rate-shopping jobs when their cadence comes due
+ */
+export class Scheduler {
+  private readonly clock: Clock;
+  private readonly pollIntervalMs: number;
+  private readonly requestDelayMs: number;
+  private readonly shop: (params: ShopHotelParams) => Promise<unknown>;
+  private timer: unknown = null;
+  private running = false;
+  private ticking = false;
+  private readonly activeJobs = new Set<string>(); // jobs with a run in progress in this process
+
+  constructor(options: SchedulerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60_000;
+    this.requestDelayMs = options.requestDelayMs ?? 1000;
+    this.shop = options.shop || shopHotel;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`[SCHEDULER] Started (poll every ${this.pollIntervalMs}ms)`);
+    this.loop();
+  }
+
+  /**
+   * Fail runs left "running" by a previous process (e.g. after a restart)
+   * Call before start(); their jobs run again at their next scheduled time.
+   * @returns Number of runs marked failed
+   */
+  async recover(): Promise<number> {
+    const interrupted = await ScheduledJobRun.find({ status: 'running' }).select('_id jobId');
+    if (!interrupted.length) return 0;
+
+    await ScheduledJobRun.updateMany(
+      { _id: { $in: interrupted.map(run => run._id) }, status: 'running' },
+      { $set: { status: 'failed', error: 'Interrupted by a service restart', finishedAt: this.clock.now() } }
+    );
+    await ScheduledJob.updateMany(
+      { _id: { $in: interrupted.map(run => run.jobId) }, lastRunStatus: 'running' },
+      { $set: { lastRunStatus: 'failed' } }
+    );
+
+    console.log(`[SCHEDULER] Marked ${interrupted.length} interrupted run(s) as failed`);
+    return interrupted.length;
+  }
+
+  /**
+   * Stop polling; a run already in progress finishes on its own
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private loop(): void {
+    this.tick()
+      .catch(error => console.error('[SCHEDULER] Tick failed:', error))
+      .finally(() => {
+        if (this.running) {
+          this.timer = this.clock.setTimeout(() => this.loop(), this.pollIntervalMs);
+        }
+      });
+  }
+
+  /**
+   * Start a run of every job that is due now
+   * Runs go on in the background, so a long job doesn't hold up the others;
+   * a job still running from an earlier tick is left until it has finished.
+   * @returns Number of runs started
+   */
+  async tick(): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+
+      // Jobs that were just created or re-enabled have no next run yet
+      const unscheduled = await ScheduledJob.find({ enabled: true, nextRunAt: null });
+      for (const job of unscheduled) {
+        job.nextRunAt = getNextRunDate(job.cadence, now);
+        await job.save();
+      }
+
+      const dueJobs = await ScheduledJob.find({ enabled: true, nextRunAt: { $lte: now } })
+        .sort({ nextRunAt: 1 });
+
+      let runs = 0;
+      for (const job of dueJobs) {
+        if (this.activeJobs.has(job.id)) continue;
+
+        // Claim the job by moving nextRunAt; another instance may have got there first
+        const claimed = await ScheduledJob.findOneAndUpdate(
+          { _id: job._id, nextRunAt: job.nextRunAt },
+          { $set: { nextRunAt: getNextRunDate(job.cadence, now) } },
+          { new: true }
+        );
+        if (!claimed) continue;
+
+        await this.runJob(claimed, 'schedule', false);
+        runs++;
+      }
+
+      return runs;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a job now
+   * @param job - Job to run
+   * @param trigger - What started the run
+   * @param wait - Resolve only once the run has finished
+   * @returns Run record (still "running" when wait is false)
+   */
+  async runJob(
+    job: IScheduledJob,
+    trigger: IScheduledJobRun['trigger'] = 'manual',
+    wait = true
+  ): Promise<IScheduledJobRun> {
+    const startedAt = this.clock.now();
+    const stayDates = computeStayDates(job, startedAt);
+
+    const run = await ScheduledJobRun.create({
+      jobId: job._id,
+      userId: job.userId,
+      trigger,
+      status: 'running',
+      startedAt,
+      stayDateFrom: stayDates[0],
+      stayDateTo: stayDates[stayDates.length - 1],
+    });
+
+    await ScheduledJob.updateOne(
+      { _id: job._id },
+      { $set: { lastRunAt: startedAt, lastRunStatus: 'running' } }
+    );
+
+    this.activeJobs.add(job.id);
+    const execution = this.executeRun(job, run, stayDates).finally(() => this.activeJobs.delete(job.id));
+    if (wait) {
+      await execution;
+    } else {
+      execution.catch(error => console.error(`[SCHEDULER] Run ${run.id} failed:`, error));
+    }
+
+    return run;
+  }
+
+  private async executeRun(job: IScheduledJob, run: IScheduledJobRun, stayDates: string[]): Promise<void> {
+    console.log(`[SCHEDULER] Running job "${job.name}" (${run.stayDateFrom} → ${run.stayDateTo})`);
+
+    try {
+      const compSet = await CompSet.findOne({ _id: job.compSetId, ...scopeFilter(documentScope(job)) });
+      if (!compSet) {
+        throw new Error('Comp set not found');
+      }
+
+      const hotels = getCompSetHotels(compSet);
+      run.totalSearches = stayDates.length * hotels.length;
+      await run.save();
+
+      let first = true;
+      let quotaError: QuotaExceededError | null = null;
+      for (const checkInDate of stayDates) {
+        for (const hotel of hotels) {
+          if (!first) await sleep(this.clock, this.requestDelayMs);
+          first = false;
+
+          try {
+            await this.shop({
+              hotelName: hotel.name,
+              propertyToken: hotel.property_token,
+              checkInDate,
+              checkOutDate: addDays(checkInDate, job.los),
+              adults: job.adults,
+              gl: job.gl,
+              hl: job.hl,
+              currency: job.currency,
+              usage: { userId: job.userId, compSetId: job.compSetId, jobType: 'schedule', jobId: job.id },
+            });
+            run.successCount++;
+          } catch (error) {
+            if (error instanceof QuotaExceededError) {
+              quotaError = error;
+              break;
+            }
+            run.failureCount++;
+            if (run.runErrors.length < MAX_RUN_ERRORS) {
+              run.runErrors.push({
+                hotelName: hotel.name,
+                checkInDate,
+                message: error instanceof Error ? error.message : String(error),
+              });
+            }
+          }
+        }
+
+        // Persist progress once per stay date
+        await run.save();
+        if (quotaError) break;
+      }
+
+      if (quotaError) {
+        await this.handleQuotaExceeded(job, run, quotaError);
+      } else {
+        run.status = this.resolveStatus(run);
+      }
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    run.finishedAt = this.clock.now();
+    await run.save();
+    await ScheduledJob.updateOne({ _id: job._id }, { $set: { lastRunStatus: run.status } });
+
+    console.log(
+      `[SCHEDULER] Job "${job.name}" ${run.status}: ${run.successCount} ✓  /  ${run.failureCount} ✗`
+    );
+  }
+
+  /**
+   * End a run whose account ran out of searches
+   * With the "queue" quota action the job is due again once quota may be
+   * available, instead of waiting for its next regular run.
+   */
+  private async handleQuotaExceeded(job: IScheduledJob, run: IScheduledJobRun, error: QuotaExceededError): Promise<void> {
+    run.status = run.successCount > 0 ? 'partial' : 'failed';
+    run.error = error.message;
+
+    if (error.quota.action === 'queue') {
+      await ScheduledJob.updateOne(
+        { _id: job._id, enabled: true, nextRunAt: { $gt: error.quota.retryAt } },
+        { $set: { nextRunAt: error.quota.retryAt } }
+      );
+    }
+  }
+
+  private resolveStatus(run: IScheduledJobRun): JobRunStatus {
+    if (run.failureCount === 0) return 'succeeded';
+    if (run.successCount === 0) return 'failed';
+    return 'partial';
+  }
+}
+
+// Scheduler used by the running service
+export const scheduler = new Scheduler({
+  pollIntervalMs: Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || undefined,
+});
@@ -1,4 +1,7 @@
 import axios, { AxiosResponse } from 'axios';
+import { CircuitBreaker } from './circuitBreaker';
+import { retryWithBackoff } from './retry';
+import { SerpApiError, classifySerpApiError, classifySerpApiResponse } from './serpapiErrors';
 // Remove direct type import to avoid TS rootDir lint error
 // import { FetchHotelRatesParams } from '../../../shared/types';
 
@@ -11,15 +14,70 @@ export interface FetchHotelRatesParams {
   hl?: string;
   currency?: string;
   adults?: number;
+  childrenAges?: number[];
+  propertyToken?: string;
 }
 
 const SERP_API_KEY = process.env.SERP_API_KEY;
 const SERP_API_BASE_URL = 'https://serpapi.com/search';
+const SERP_API_TIMEOUT_MS = parseInt(process.env.SERPAPI_TIMEOUT_MS || '20000', 10);
+const SERP_API_MAX_RETRIES = parseInt(process.env.SERPAPI_MAX_RETRIES || '3', 10);
+
+// Opens after repeated outages (5xx, timeouts, network errors) so callers fail fast
+export const serpApiBreaker = new CircuitBreaker({
+  failureThreshold: parseInt(process.env.SERPAPI_BREAKER_THRESHOLD || '5', 10),
+  resetTimeoutMs: parseInt(process.env.SERPAPI_BREAKER_RESET_MS || '30000', 10),
+});
+
+/**
+ * Call the Google Hotels engine
+ * Transient failures are retried with backoff; repeated outages open the circuit breaker
+ * @param query - Engine parameters (without engine and api_key)
+ * @returns SerpAPI response
+ * @throws SerpApiError classifying the failure
+ */
+async function callGoogleHotels(query: Record<string, string | number | undefined>): Promise<unknown> {
+  if (!SERP_API_KEY) {
+    throw new SerpApiError('auth', 'SERP_API_KEY is not configured');
+  }
+
+  const params = { engine: 'google_hotels', ...query, api_key: SERP_API_KEY };
+
+  const attempt = async (): Promise<unknown> => {
+    try {
+      const response: AxiosResponse = await axios.get(SERP_API_BASE_URL, { params, timeout: SERP_API_TIMEOUT_MS });
+      console.log('SerpAPI Response:', response.data);
+
+      const failure = classifySerpApiResponse(response.data);
+      if (failure) throw failure;
+      return response.data;
+    } catch (error: unknown) {
+      const classified = classifySerpApiError(error);
+      console.error(`SerpAPI Error (${classified.kind}):`, classified.message);
+      throw classified;
+    }
+  };
+
+  try {
+    return await serpApiBreaker.execute(
+      () => retryWithBackoff(attempt, {
+        retries: SERP_API_MAX_RETRIES,
+        shouldRetry: (error) => (error as SerpApiError).retryable,
+        retryAfterMs: (error) => (error as SerpApiError).retryAfterMs,
+      }),
+      (error) => error instanceof SerpApiError && error.outage
+    );
+  } catch (error: unknown) {
+    throw classifySerpApiError(error);
+  }
+}
 
 /**
  * Fetch hotel rates from SerpAPI
+ * With a property token the response is that property's details, not a name search
  * @param params - Search parameters
  * @returns SerpAPI response
+ * @throws SerpApiError classifying the failure
  */
 export async function fetchHotelRates({
   hotelQuery,
@@ -29,13 +87,10 @@ export async function fetchHotelRates({
   hl = 'en',
   currency = 'USD',
   adults = 2,
+  childrenAges = [],
+  propertyToken,
 }: FetchHotelRatesParams): Promise<unknown> {
-  if (!SERP_API_KEY) {
-    throw new Error('SERP_API_KEY is not configured');
-  }
-
-  const params = {
-    engine: 'google_hotels',
+  return callGoogleHotels({
     q: hotelQuery,
     gl,
     hl,
@@ -43,25 +98,145 @@ export async function fetchHotelRates({
     check_in_date: checkInDate,
     check_out_date: checkOutDate,
     adults,
-    api_key: SERP_API_KEY,
-  };
+    children: childrenAges.length || undefined,
+    children_ages: childrenAges.length ? childrenAges.join(',') : undefined,
+    property_token: propertyToken,
+  });
+}
+
+/**
+ * Search SerpAPI for properties matching a hotel name
+ * @param params - Hotel name, stay dates and locale settings
+ * @returns SerpAPI response (a property list, or one property's details when Google is sure)
+ * @throws SerpApiError classifying the failure
+ */
+export async function searchHotelProperties({
+  hotelQuery,
+  checkInDate,
+  checkOutDate,
+  gl = 'us',
+  hl = 'en',
+  currency = 'USD',
+}: FetchHotelRatesParams): Promise<unknown> {
+  return callGoogleHotels({
+    q: hotelQuery,
+    gl,
+    hl,
+    currency,
+    check_in_date: checkInDate,
+    check_out_date: checkOutDate,
+  });
+}
+
+import mongoose, { PipelineStage } from 'mongoose';
+import SerpData from '../models/SerpData';
+import { createFxConverter, applyConversion, FxConversion } from './fx';
+import {
+  ResolvedChannelConfig,
+  getChannelConfig,
+  selectChannels,
+  channelAliases,
+  buildChannelResolver,
+  listChannels,
+} from './channels';
+
+export interface SerpDataSummaryFilters {
+  hotel?: string[];
+  checkInFrom?: string; // YYYY-MM-DD, inclusive
+  checkInTo?: string;   // YYYY-MM-DD, inclusive
+  adults?: number;
+  children?: number;
+  ota?: string[];       // channel keys, labels or aliases
+  currency?: string;
+  displayCurrency?: string; // convert rates into this currency on read
+  limit?: number;       // SerpData documents per page
+  cursor?: string;
+}
 
+interface CalendarCursor {
+  checkIn: string;
+  id: string;
+}
 
+/**
+ * Encode the position after the given document as an opaque cursor
+ */
+export function encodeCalendarCursor(checkIn: Date, id: unknown): string {
+  const cursor: CalendarCursor = { checkIn: new Date(checkIn).toISOString(), id: String(id) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCalendarCursor
+ * @throws Error if the cursor is malformed
+ */
+export function decodeCalendarCursor(cursor: string): CalendarCursor {
   try {
-    const response: AxiosResponse = await axios.get(SERP_API_BASE_URL, { params });
-    console.log('SerpAPI Response:', response.data);
-    return response.data;
-  } catch (error: unknown) {
-    const axiosError = error as { response?: { data?: { error?: string } }; message?: string };
-    console.error('SerpAPI Error:', axiosError.response?.data || axiosError.message);
-    throw new Error(
-      axiosError.response?.data?.error ||
-      'Failed to fetch hotel rates from SerpAPI'
-    );
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (isNaN(new Date(decoded.checkIn).getTime()) || !mongoose.isValidObjectId(decoded.id)) {
+      throw new Error();
+    }
+    return decoded;
+  } catch {
+    throw new Error('Invalid cursor');
   }
 }
 
-import SerpData from '../models/SerpData';
+/**
+ * SerpData query for the calendar's hotel, date, adults and currency filters
+ * @param filters - Calendar filters
+ * @returns MongoDB filter
+ */
+export function buildCalendarFilter(filters: SerpDataSummaryFilters): Record<string, any> {
+  const filter: Record<string, any> = {};
+  if (filters.hotel?.length) {
+    filter.name = { $in: filters.hotel };
+  }
+  if (filters.checkInFrom || filters.checkInTo) {
+    filter['search_parameters.check_in_date'] = {
+      ...(filters.checkInFrom && { $gte: new Date(`${filters.checkInFrom}T00:00:00Z`) }),
+      ...(filters.checkInTo && { $lte: new Date(`${filters.checkInTo}T23:59:59.999Z`) }),
+    };
+  }
+  if (filters.adults !== undefined) {
+    filter['search_parameters.adults'] = filters.adults;
+  }
+  if (filters.children !== undefined) {
+    // Searches from before children could be requested have no count: treat as none
+    filter['search_parameters.children'] = filters.children || { $in: [0, null] };
+  }
+  if (filters.currency) {
+    filter['search_parameters.currency'] = filters.currency.toUpperCase();
+  }
+  return filter;
+}
+
+/**
+ * Convert calendar rows into a display currency in place
+ * Rows without a known currency or FX rate keep their rate fields as null.
+ */
+async function convertCalendarRows(rows: any[], displayCurrency: string) {
+  const quoted = rows.filter(row => row.currency && row.shoppedAt);
+  const fx = await createFxConverter(
+    displayCurrency,
+    quoted.map(row => ({ currency: row.currency, date: row.shoppedAt }))
+  );
+
+  for (const row of rows) {
+    const conversion: FxConversion = row.currency && row.shoppedAt
+      ? fx.describe(row.currency, row.shoppedAt)
+      : { from: row.currency, to: displayCurrency, rate: null, date: null };
+
+    row.rate = {
+      lowest: applyConversion(row.rate.lowest, conversion),
+      extracted_lowest: applyConversion(row.rate.extracted_lowest, conversion),
+      before_tax_fees: applyConversion(row.rate.before_tax_fees, conversion),
+      extracted_before_tax_fees: applyConversion(row.rate.extracted_before_tax_fees, conversion),
+    };
+    row.currency = displayCurrency;
+    row.conversion = conversion;
+  }
+}
 
 /**
  * Fetches SerpData documents and returns them
@@ -79,77 +254,146 @@ import SerpData from '../models/SerpData';
  *   hotel_name,
  *   currency
  * }
- * 
- * Optionally accepts filter criteria.
- * @param filter - Optional filter for database query
- * @returns Array of formatted result objects
+ *
+ * Filtering, ordering (check-in date, then _id) and paging all happen in a
+ * MongoDB aggregation; only the matching OTA prices are returned from the DB.
+ * Sources are mapped to canonical channels through the channel configuration
+ * (aliases such as "Expedia" and "Expedia.com" become one channel, and the
+ * official price becomes the brand channel). When several sources map to the
+ * same channel, the lowest rate is kept.
+ * With a displayCurrency, rates are converted using the FX rate of the day the
+ * search was shopped, and each row records the conversion that was applied.
+ * @param filters - Optional hotel, date, adults, OTA and currency filters, display currency and paging
+ * @param channelConfig - Channel configuration (defaults when omitted)
+ * @returns Page of formatted result objects and the cursor for the next page
  */
+export async function fetchSerpDataSummaries(
+  filters: SerpDataSummaryFilters = {},
+  channelConfig?: ResolvedChannelConfig
+) {
+  const limit = filters.limit ?? 200;
+  const config = selectChannels(channelConfig || await getChannelConfig(), filters.ota);
+  const aliases = channelAliases(config);
+  const resolveChannel = buildChannelResolver(config);
+  const channels = listChannels(config);
 
-export async function fetchSerpDataSummaries() {
-  const serpDatas = await SerpData.find({})
-    .sort({ 'search_metadata.created_at': -1 })
-    .lean();
+  const pipeline: PipelineStage[] = [{ $match: buildCalendarFilter(filters) }];
 
-  if (!serpDatas || serpDatas.length === 0) return [];
+  if (filters.cursor) {
+    const cursor = decodeCalendarCursor(filters.cursor);
+    const cursorDate = new Date(cursor.checkIn);
+    const cursorId = new mongoose.Types.ObjectId(cursor.id);
+    pipeline.push({
+      $match: {
+        $or: [
+          { 'search_parameters.check_in_date': { $gt: cursorDate } },
+          { 'search_parameters.check_in_date': cursorDate, _id: { $gt: cursorId } },
+        ],
+      },
+    });
+  }
 
-  const WHITELIST_OTAS = ["Booking.com", "Expedia.com", "Hotels.com", "Agoda"];
-  const results = [];
+  pipeline.push(
+    { $sort: { 'search_parameters.check_in_date': 1, _id: 1 } },
+    { $limit: limit + 1 },
+    {
+      $project: {
+        name: 1,
+        'search_parameters.check_in_date': 1,
+        'search_parameters.check_out_date': 1,
+        'search_parameters.currency': 1,
+        'search_parameters.adults': 1,
+        'search_metadata.created_at': 1,
+        updatedAt: 1,
+        // ⬇ Only featured_prices that map to a surfaced channel
+        featured_prices: {
+          $map: {
+            input: {
+              $filter: {
+                input: { $ifNull: ['$featured_prices', []] },
+                as: 'price',
+                cond: {
+                  $or: [
+                    { $in: [{ $toLower: { $trim: { input: { $ifNull: ['$$price.source', ''] } } } }, aliases] },
+                    ...(config.includeBrand ? [{ $eq: ['$$price.official', true] }] : []),
+                  ],
+                },
+              },
+            },
+            as: 'price',
+            in: {
+              source: '$$price.source',
+              official: '$$price.official',
+              rate_per_night: '$$price.rate_per_night',
+            },
+          },
+        },
+      },
+    }
+  );
 
-  for (const doc of serpDatas) {
-    const checkInDate =
-      doc.checkInDate ??
-      doc.check_in_date ??
-      doc.search_parameters?.check_in_date ??
-      null;
+  const serpDatas = await SerpData.aggregate(pipeline);
 
-    const checkOutDate =
-      doc.checkOutDate ??
-      doc.check_out_date ??
-      doc.search_parameters?.check_out_date ??
-      null;
+  const hasMore = serpDatas.length > limit;
+  const page = hasMore ? serpDatas.slice(0, limit) : serpDatas;
+  const last = page[page.length - 1];
 
-    const hotelName =
-      doc.hotelName ?? doc.hotel_name ?? doc.name ?? null;
+  const results = [];
 
+  for (const doc of page) {
+    const hotelName = doc.name ?? null;
     if (!hotelName) continue; // Skip if no hotel name
 
-    const currency =
-      doc.currency ?? doc.search_parameters?.currency ?? null;
+    const featuredPrices = doc.featured_prices || [];
 
-    const adults =
-      doc.search_parameters?.adults ?? null;
+    // Lowest price per canonical channel
+    const byChannel = new Map<string, any>();
+    for (const price of featuredPrices) {
+      const channel = resolveChannel(price);
+      if (!channel) continue;
 
-    // ⬇ Only featured_prices
-    const featuredPrices = doc.featured_prices || [];
+      const current = byChannel.get(channel.key);
+      const rate = price.rate_per_night?.extracted_lowest;
+      if (!current || (rate != null && (current.rate_per_night?.extracted_lowest == null || rate < current.rate_per_night.extracted_lowest))) {
+        byChannel.set(channel.key, price);
+      }
+    }
 
-    // Only add OTAs that are in the whitelist
-    for (const requiredOta of WHITELIST_OTAS) {
-      // Try to find it in featuredPrices (case-insensitive)
-      const match = featuredPrices.find(
-        (p: any) => p.source?.toLowerCase() === requiredOta.toLowerCase()
-      );
+    // Rows follow the configured channel order
+    for (const channel of channels) {
+      const match = byChannel.get(channel.key);
 
       if (match) {
         results.push({
           _id: doc._id,
-          OTA: requiredOta,
+          OTA: channel.label,
+          channel: channel.key,
+          source: match.source ?? null,
           rate: {
             lowest: match.rate_per_night?.extracted_lowest ?? null,
             extracted_lowest: match.rate_per_night?.extracted_lowest ?? null,
             before_tax_fees: match.rate_per_night?.extracted_before_taxes_fees ?? null,
             extracted_before_tax_fees: match.rate_per_night?.extracted_before_taxes_fees ?? null,
           },
-          check_in_date: checkInDate,
-          check_out_date: checkOutDate,
+          check_in_date: doc.search_parameters?.check_in_date ?? null,
+          check_out_date: doc.search_parameters?.check_out_date ?? null,
           hotel_name: hotelName,
-          currency,
-          adults,
+          currency: doc.search_parameters?.currency ?? null,
+          adults: doc.search_parameters?.adults ?? null,
+          shoppedAt: doc.search_metadata?.created_at ?? doc.updatedAt ?? null,
         });
       }
     }
   }
 
-  return results;
-}
-
+  if (filters.displayCurrency) {
+    await convertCalendarRows(results, filters.displayCurrency);
+  }
 
+  return {
+    data: results,
+    nextCursor: hasMore && last
+      ? encodeCalendarCursor(last.search_parameters.check_in_date, last._id)
+      : null,
+  };
+}
@@ -0,0 +1,145 @@
+import { CircuitOpenError } from './circuitBreaker';
+
+export type SerpApiErrorKind =
+  | 'auth'            // missing or rejected API key
+  | 'quota'           // SerpAPI plan has run out of searches
+  | 'rate_limited'    // too many requests right now
+  | 'upstream'        // SerpAPI / Google answered with a 5xx
+  | 'timeout'         // no answer in time
+  | 'network'         // connection refused, reset, DNS failure
+  | 'no_results'      // the search ran but found nothing
+  | 'invalid_request' // SerpAPI rejected the parameters
+  | 'circuit_open';   // not attempted: SerpAPI is considered down
+
+/**
+ * A failed SerpAPI call, classified so callers can react to the cause
+ */
+export class SerpApiError extends Error {
+  constructor(
+    public readonly kind: SerpApiErrorKind,
+    message: string,
+    public readonly status: number | null = null,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'SerpApiError';
+  }
+
+  /**
+   * Worth trying again after a pause
+   */
+  get retryable(): boolean {
+    return ['rate_limited', 'upstream', 'timeout', 'network'].includes(this.kind);
+  }
+
+  /**
+   * Evidence that SerpAPI itself is unavailable (counts towards opening the circuit)
+   */
+  get outage(): boolean {
+    return ['upstream', 'timeout', 'network'].includes(this.kind);
+  }
+}
+
+// HTTP status the API returns to its own callers for each kind
+const HTTP_STATUS: Record<SerpApiErrorKind, number> = {
+  auth: 502,
+  quota: 502,
+  rate_limited: 429,
+  upstream: 502,
+  timeout: 504,
+  network: 502,
+  no_results: 404,
+  invalid_request: 400,
+  circuit_open: 503,
+};
+
+/**
+ * HTTP status to answer with when a SerpAPI call failed
+ * @param error - Classified error
+ * @returns Status code
+ */
+export function serpApiErrorStatus(error: SerpApiError): number {
+  return HTTP_STATUS[error.kind];
+}
+
+const NO_RESULTS_PATTERN = /hasn't returned any results|no results/i;
+const QUOTA_PATTERN = /run out of searches|plan.*(limit|exceeded)|searches? (per|left)/i;
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Failure reported in a successful (2xx) SerpAPI answer
+ * An empty Google Hotels search comes back as a 2xx body with an error field
+ * instead of properties.
+ * @param data - Response body
+ * @returns Classified error, or null when the body carries no error
+ */
+export function classifySerpApiResponse(data: unknown): SerpApiError | null {
+  const upstreamMessage = (data as { error?: unknown } | null)?.error;
+  if (typeof upstreamMessage !== 'string' || !upstreamMessage) return null;
+
+  if (NO_RESULTS_PATTERN.test(upstreamMessage)) {
+    return new SerpApiError('no_results', upstreamMessage);
+  }
+  if (QUOTA_PATTERN.test(upstreamMessage)) {
+    return new SerpApiError('quota', upstreamMessage);
+  }
+  return new SerpApiError('invalid_request', upstreamMessage);
+}
+
+/**
+ * Turn whatever a SerpAPI call threw into a SerpApiError
+ * @param error - axios error, CircuitOpenError or anything else
+ * @returns Classified error
+ */
+export function classifySerpApiError(error: unknown): SerpApiError {
+  if (error instanceof SerpApiError) return error;
+
+  if (error instanceof CircuitOpenError) {
+    return new SerpApiError('circuit_open', `SerpAPI is unavailable; not retrying until ${error.retryAt.toISOString()}`);
+  }
+
+  const axiosError = error as {
+    code?: string;
+    message?: string;
+    response?: { status?: number; data?: { error?: string }; headers?: Record<string, unknown> };
+  };
+  const status = axiosError.response?.status ?? null;
+  const upstreamMessage = axiosError.response?.data?.error;
+  const message = upstreamMessage || axiosError.message || 'Failed to fetch hotel rates from SerpAPI';
+
+  if (!axiosError.response) {
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT' || /timeout/i.test(axiosError.message || '')) {
+      return new SerpApiError('timeout', 'SerpAPI request timed out');
+    }
+    return new SerpApiError('network', `Could not reach SerpAPI: ${message}`);
+  }
+
+  if (upstreamMessage && NO_RESULTS_PATTERN.test(upstreamMessage)) {
+    return new SerpApiError('no_results', upstreamMessage, status);
+  }
+  if (status === 401 || status === 403) {
+    return new SerpApiError('auth', message, status);
+  }
+  if (status === 429) {
+    return QUOTA_PATTERN.test(message)
+      ? new SerpApiError('quota', message, status)
+      : new SerpApiError('rate_limited', message, status, parseRetryAfter(axiosError.response.headers?.['retry-after']));
+  }
+  if (status !== null && status >= 500) {
+    return new SerpApiError('upstream', message, status);
+  }
+  if (upstreamMessage && QUOTA_PATTERN.test(upstreamMessage)) {
+    return new SerpApiError('quota', upstreamMessage, status);
+  }
+  return new SerpApiError('invalid_request', message, status);
+}
@@ -0,0 +1,74 @@
+import { Types } from 'mongoose';
+import RateSnapshot from '../models/RateSnapshot';
+import { IFeaturedPrice } from '../models/SerpData';
+import { NormalizedRates } from '../providers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of stay in nights between two dates
+ * @param checkIn - Check-in date
+ * @param checkOut - Check-out date
+ * @returns Number of nights (at least 1)
+ */
+export function lengthOfStay(checkIn: Date, checkOut: Date): number {
+  return Math.max(1, Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS));
+}
+
+/**
+ * Build snapshot documents for every OTA price in a transformed SerpAPI result
+ * featured_prices take precedence over prices when a source appears in both
+ * @param transformed - Normalized provider result (e.g. transformSerpApiResponse output)
+ * @param serpDataId - ID of the SerpData record the result was saved to
+ * @returns Snapshot documents, one per OTA
+ */
+export function buildRateSnapshots(transformed: NormalizedRates, serpDataId: Types.ObjectId | null = null) {
+  const params = transformed.search_parameters;
+  const property = transformed.name;
+  if (!property) return [];
+
+  const checkInDate = new Date(params.check_in_date);
+  const checkOutDate = new Date(params.check_out_date);
+  const shoppedAt = transformed.search_metadata?.created_at
+    ? new Date(transformed.search_metadata.created_at)
+    : new Date();
+
+  const bySource = new Map<string, IFeaturedPrice>();
+  for (const price of [...(transformed.featured_prices || []), ...(transformed.prices || [])]) {
+    const key = price?.source?.trim().toLowerCase();
+    if (!key || bySource.has(key)) continue;
+    bySource.set(key, price);
+  }
+
+  return Array.from(bySource.values()).map((price) => ({
+    property,
+    property_token: transformed.property_token,
+    checkInDate,
+    checkOutDate,
+    los: lengthOfStay(checkInDate, checkOutDate),
+    adults: params.adults ?? 2,
+    children: params.children ?? 0,
+    ota: price.source!.trim(),
+    official: !!price.official,
+    currency: params.currency || 'USD',
+    gl: params.gl,
+    rate_per_night: price.rate_per_night,
+    total_rate: price.total_rate,
+    shoppedAt,
+    serpDataId,
+    searchId: transformed.search_metadata?.id,
+  }));
+}
+
+/**
+ * Append snapshots for a shop result
+ * @param transformed - Normalized provider result (e.g. transformSerpApiResponse output)
+ * @param serpDataId - ID of the SerpData record the result was saved to
+ * @returns Snapshots written
+ */
+export async function recordRateSnapshots(transformed: NormalizedRates, serpDataId: Types.ObjectId | null = null) {
+  const snapshots = buildRateSnapshots(transformed, serpDataId);
+  if (!snapshots.length) return [];
+
+  return RateSnapshot.insertMany(snapshots, { ordered: false });
+}
@@ -0,0 +1,319 @@
+import { Writable } from 'stream';
+import zlib from 'zlib';
+
+export type SpreadsheetCell = string | number | null;
+export type SpreadsheetRow = SpreadsheetCell[];
+
+/**
+ * Wait until a stream's buffer has drained
+ * @throws Error if the stream is closed first (e.g. the client went away)
+ */
+function drain(stream: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onDrain = () => { stream.off('close', onClose); resolve(); };
+    const onClose = () => { stream.off('drain', onDrain); reject(new Error('Export aborted')); };
+    stream.once('drain', onDrain);
+    stream.once('close', onClose);
+  });
+}
+
+/**
+ * Write a chunk, waiting for the destination to drain when its buffer is full
+ * @throws Error if the destination is closed
+ */
+async function writeChunk(out: Writable, chunk: Buffer | string): Promise<void> {
+  if (out.destroyed) throw new Error('Export aborted');
+  if (!out.write(chunk)) await drain(out);
+}
+
+// ---------------------------- //
+//             CSV
+// ---------------------------- //
+
+/**
+ * Format one CSV field
+ * Text that a spreadsheet would run as a formula (=, +, -, @) is prefixed with '
+ */
+function csvField(value: SpreadsheetCell): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream rows to a destination as CSV (RFC 4180, CRLF line endings)
+ * The destination is not ended.
+ * @param out - Destination, e.g. an Express response
+ * @param rows - Rows, the first one being the header
+ */
+export async function writeCsv(out: Writable, rows: AsyncIterable<SpreadsheetRow>): Promise<void> {
+  for await (const row of rows) {
+    await writeChunk(out, `${row.map(csvField).join(',')}\r\n`);
+  }
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may hold commas, quotes and newlines)
+ * Blank lines are skipped.
+ * @param text - CSV content
+ * @returns Rows of raw field values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+// ---------------------------- //
+//         ZIP (for XLSX)
+// ---------------------------- //
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Minimal streaming ZIP writer
+ * Entries are deflated as they are produced and their sizes written after the
+ * data (data descriptors), so nothing has to be held in memory.
+ */
+class ZipStream {
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor(private readonly out: Writable, now = new Date()) {
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  private async write(chunk: Buffer) {
+    this.offset += chunk.length;
+    await writeChunk(this.out, chunk);
+  }
+
+  /**
+   * Add a file whose content is produced piece by piece
+   */
+  async addEntry(fileName: string, content: Iterable<string> | AsyncIterable<string>) {
+    const name = Buffer.from(fileName, 'utf-8');
+    const entry: ZipEntry = { name, offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);     // version needed
+    header.writeUInt16LE(0x0808, 6); // data descriptor follows, UTF-8 names
+    header.writeUInt16LE(8, 8);      // deflate
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    header.writeUInt16LE(name.length, 26);
+    await this.write(Buffer.concat([header, name]));
+
+    // Compressed output is copied to the destination as it is produced
+    const deflate = zlib.createDeflateRaw();
+    let failure: unknown;
+    const compressed = (async () => {
+      try {
+        for await (const chunk of deflate) {
+          entry.compressedSize += chunk.length;
+          await this.write(chunk);
+        }
+      } catch (error) {
+        failure = failure ?? error;
+        deflate.destroy();
+      }
+    })();
+
+    try {
+      for await (const text of content) {
+        if (failure) throw failure;
+        const data = Buffer.from(text, 'utf-8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        if (!deflate.write(data)) await drain(deflate);
+      }
+      deflate.end();
+    } catch (error) {
+      failure = failure ?? error;
+      deflate.destroy();
+    }
+    await compressed;
+    if (failure) throw failure;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory (the destination is not ended)
+   */
+  async finish() {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6); // version needed
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(this.time, 12);
+      header.writeUInt16LE(this.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}
+
+// ---------------------------- //
+//             XLSX
+// ---------------------------- //
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 -> A, 26 -> AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Worksheet XML, one row at a time (strings are written inline)
+ */
+async function* worksheetXml(rows: AsyncIterable<SpreadsheetRow>): AsyncGenerator<string> {
+  yield `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+
+  let rowNumber = 0;
+  for await (const row of rows) {
+    rowNumber++;
+    const cells = row.map((value, index) => {
+      if (value === null) return '';
+      const ref = `${columnName(index)}${rowNumber}`;
+      return typeof value === 'number'
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+    });
+    yield `<row r="${rowNumber}">${cells.join('')}</row>`;
+  }
+
+  yield '</sheetData></worksheet>';
+}
+
+/**
+ * Stream rows to a destination as a single-sheet XLSX workbook
+ * The first row is frozen as the header. The destination is not ended.
+ * @param out - Destination, e.g. an Express response
+ * @param rows - Rows, the first one being the header
+ * @param sheetName - Worksheet name (max 31 characters)
+ */
+export async function writeXlsx(out: Writable, rows: AsyncIterable<SpreadsheetRow>, sheetName = 'Sheet1'): Promise<void> {
+  const zip = new ZipStream(out);
+
+  await zip.addEntry('[Content_Types].xml', [
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`,
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>',
+    '</Types>',
+  ]);
+  await zip.addEntry('_rels/.rels', [
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`,
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    '</Relationships>',
+  ]);
+  await zip.addEntry('xl/workbook.xml', [
+    `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`,
+    `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`,
+    '</workbook>',
+  ]);
+  await zip.addEntry('xl/_rels/workbook.xml.rels', [
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`,
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>',
+    '</Relationships>',
+  ]);
+  await zip.addEntry('xl/worksheets/sheet1.xml', worksheetXml(rows));
+  await zip.finish();
+}
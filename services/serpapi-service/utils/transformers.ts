@@ -1,4 +1,5 @@
 import { ISerpData } from '../models/SerpData';
+import { PropertyCandidate } from '../providers/types';
 
 /**
  * Helper function to extract numeric value from SerpAPI response
@@ -22,14 +23,49 @@ function extractNumericValue(value: any, defaultValue: number = 0): number {
   return defaultValue;
 }
 
+/**
+ * Properties a SerpAPI Google Hotels response may refer to
+ * A name search returns a properties list, unless Google jumped straight
+ * to a single property, whose details are then at the top level
+ * @param serpApiResponse - Raw response from SerpAPI
+ * @returns Candidates with a property token, in result order
+ */
+export function extractPropertyCandidates(serpApiResponse: any): PropertyCandidate[] {
+  const properties: any[] = Array.isArray(serpApiResponse?.properties)
+    ? serpApiResponse.properties
+    : serpApiResponse?.property_token ? [serpApiResponse] : [];
+
+  return properties
+    .filter(property => property?.name && property?.property_token)
+    .map(property => ({
+      name: String(property.name),
+      property_token: String(property.property_token),
+      address: property.address || undefined,
+      gps_coordinates: property.gps_coordinates
+        ? { latitude: property.gps_coordinates.latitude, longitude: property.gps_coordinates.longitude }
+        : undefined,
+      type: property.type || undefined,
+      hotel_class: property.hotel_class || undefined,
+      overall_rating: typeof property.overall_rating === 'number' ? property.overall_rating : undefined,
+      reviews: typeof property.reviews === 'number' ? property.reviews : undefined,
+      link: property.link || undefined,
+    }));
+}
+
 /**
  * Transform SerpAPI response to SerpData format
+ * When the search was pinned to a property token and the response is still a
+ * list, the matching property is used (falling back to the first one)
  * @param serpApiResponse - Raw response from SerpAPI
  * @param searchParams - Search parameters used for the query
  * @returns Transformed data matching ISerpData interface
  */
 export function transformSerpApiResponse(serpApiResponse: any, searchParams: any) {
-  const hotelData = serpApiResponse.properties?.[0] || serpApiResponse;
+  const properties: any[] | undefined = serpApiResponse.properties;
+  const hotelData =
+    (searchParams.propertyToken && properties?.find(property => property?.property_token === searchParams.propertyToken)) ||
+    properties?.[0] ||
+    serpApiResponse;
 
   const safeString = (v: any) =>
     v !== undefined && v !== null && v !== "" ? String(v) : undefined;
@@ -65,7 +101,7 @@ export function transformSerpApiResponse(serpApiResponse: any, searchParams: any
       check_in_date: new Date(searchParams.checkInDate),
       check_out_date: new Date(searchParams.checkOutDate),
       adults: safeNumber(searchParams.adults) ?? safeNumber(serpApiResponse.search_parameters?.adults) ?? 2,
-      children: safeNumber(serpApiResponse.search_parameters?.children) ?? 0,
+      children: searchParams.childrenAges?.length ?? safeNumber(serpApiResponse.search_parameters?.children) ?? 0,
     },
 
     type: safeString(hotelData.type),
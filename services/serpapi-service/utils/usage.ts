@@ -0,0 +1,306 @@
+import { Types } from 'mongoose';
+import UsageRecord, { IUsageRecord, UsageJobType } from '../models/UsageRecord';
+import UsageQuota, { QuotaAction } from '../models/UsageQuota';
+import CompSet from '../models/CompSet';
+import { RateProvider, RateQuery, PropertySearchQuery } from '../providers';
+import { formatHotelQuery } from './formatters';
+import { rateCache, RateCache, RateFetchOptions, CachedRateResult } from './rateCache';
+import { SerpApiError } from './serpapiErrors';
+
+// How soon queued work looks at the quota again (it may be raised mid-month)
+const QUOTA_RECHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Who a provider call is made for
+ */
+export interface UsageContext {
+  userId?: string | Types.ObjectId | null;
+  compSetId?: string | Types.ObjectId | null;
+  jobType: UsageJobType;
+  jobId?: string | Types.ObjectId | null;
+}
+
+export interface QuotaStatus {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  action: QuotaAction;
+  periodStart: Date;
+  resetsAt: Date;
+  retryAt: Date; // when queued work should try again
+}
+
+/**
+ * Thrown before a provider call once the account's monthly quota is used up
+ */
+export class QuotaExceededError extends Error {
+  constructor(public readonly quota: QuotaStatus) {
+    super('Monthly search quota exhausted');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Start of the calendar month (UTC) containing a date
+ */
+export function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Start of the following calendar month (UTC)
+ */
+export function nextMonthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Numeric search limit from an environment variable (null when unset)
+ */
+function envLimit(name: string): number | null {
+  return process.env[name] ? Number(process.env[name]) : null;
+}
+
+/**
+ * Monthly quota for an account and how much of it is used
+ * DEFAULT_MONTHLY_SEARCH_QUOTA is the ceiling for every account (unlimited
+ * when unset); an account's own monthlyLimit can only lower it. Searches made
+ * without an account share one pool, limited by ANONYMOUS_MONTHLY_SEARCH_QUOTA
+ * (DEFAULT_MONTHLY_SEARCH_QUOTA when unset).
+ * @param userId - Account owner (null for searches made without an account)
+ * @param now - Current time
+ * @returns Quota status for the current month
+ */
+export async function getQuotaStatus(userId: string | Types.ObjectId | null, now: Date = new Date()): Promise<QuotaStatus> {
+  const quota = userId ? await UsageQuota.findOne({ userId }).lean() : null;
+  const defaultLimit = userId
+    ? envLimit('DEFAULT_MONTHLY_SEARCH_QUOTA')
+    : envLimit('ANONYMOUS_MONTHLY_SEARCH_QUOTA') ?? envLimit('DEFAULT_MONTHLY_SEARCH_QUOTA');
+
+  const limits = [quota?.monthlyLimit, defaultLimit].filter((value): value is number => Number.isFinite(value));
+  const limit = limits.length ? Math.min(...limits) : null;
+  const periodStart = monthStart(now);
+  const resetsAt = nextMonthStart(now);
+
+  const [usage] = await UsageRecord.aggregate<{ credits: number }>([
+    { $match: { userId: userId ? new Types.ObjectId(String(userId)) : null, createdAt: { $gte: periodStart, $lt: resetsAt } } },
+    { $group: { _id: null, credits: { $sum: '$credits' } } },
+  ]);
+  const used = usage?.credits ?? 0;
+
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    action: quota?.action ?? 'reject',
+    periodStart,
+    resetsAt,
+    retryAt: new Date(Math.min(resetsAt.getTime(), now.getTime() + QUOTA_RECHECK_MS)),
+  };
+}
+
+/**
+ * Throw if the account has no searches left this month
+ * @param userId - Account owner (null for the pool shared by searches without an account)
+ * @throws QuotaExceededError
+ */
+export async function assertWithinQuota(userId: string | Types.ObjectId | null): Promise<void> {
+  const quota = await getQuotaStatus(userId);
+  if (quota.remaining !== null && quota.remaining <= 0) {
+    throw new QuotaExceededError(quota);
+  }
+}
+
+/**
+ * Check the quota, make one outbound call and record it in the usage ledger
+ * @param context - Who the call is made for
+ * @param record - Ledger fields describing the call
+ * @param call - The provider call
+ * @param checkQuota - False when the caller already checked the quota
+ * @returns The call's result
+ */
+async function meteredCall<T>(
+  context: UsageContext,
+  record: Pick<IUsageRecord, 'operation' | 'provider' | 'hotelName' | 'hotelQuery' | 'checkInDate' | 'checkOutDate' | 'adults'>,
+  call: () => Promise<T>,
+  checkQuota = true
+): Promise<T> {
+  if (checkQuota) {
+    await assertWithinQuota(context.userId || null);
+  }
+
+  const attribution = {
+    userId: context.userId || null,
+    compSetId: context.compSetId || null,
+    jobType: context.jobType,
+    jobId: context.jobId || null,
+  };
+
+  try {
+    const result = await call();
+    await UsageRecord.create({ ...attribution, ...record, status: 'success' });
+    return result;
+  } catch (error) {
+    // Failed searches are still billed upstream, unless the breaker never let them out
+    const notSent = error instanceof SerpApiError && error.kind === 'circuit_open';
+    await UsageRecord.create({
+      ...attribution,
+      ...record,
+      ...(notSent && { credits: 0 }),
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Wrap a provider so every outbound call is checked against the caller's
+ * quota and recorded in the usage ledger
+ * (cache hits never reach the wrapped provider, so they cost nothing)
+ * @param provider - Provider to meter
+ * @param context - User, comp set and job the calls are made for
+ * @param rateQuotaChecked - Rate fetches were already checked against the quota (see fetchMeteredRates)
+ * @returns Provider with the same name
+ */
+export function meteredProvider(provider: RateProvider, context: UsageContext, rateQuotaChecked = false): RateProvider {
+  const metered: RateProvider = {
+    name: provider.name,
+    fetchRates: (query: RateQuery) => meteredCall(
+      context,
+      {
+        operation: 'rates',
+        provider: provider.name,
+        hotelName: query.hotelName,
+        hotelQuery: query.hotelQuery,
+        checkInDate: query.checkInDate,
+        checkOutDate: query.checkOutDate,
+        adults: query.adults,
+      },
+      () => provider.fetchRates(query),
+      !rateQuotaChecked
+    ),
+  };
+
+  if (provider.searchProperties) {
+    const searchProperties = provider.searchProperties.bind(provider);
+    metered.searchProperties = (query: PropertySearchQuery) => meteredCall(
+      context,
+      {
+        operation: 'property_search',
+        provider: provider.name,
+        hotelName: query.query,
+        hotelQuery: formatHotelQuery(query.query),
+        checkInDate: query.checkInDate,
+        checkOutDate: query.checkOutDate,
+        adults: 2,
+      },
+      () => searchProperties(query)
+    );
+  }
+
+  return metered;
+}
+
+/**
+ * Fetch rates through the rate cache for one caller, metering provider calls
+ * The caller's quota is checked before it joins an identical in-flight call or
+ * starts one (fresh cached results are free). The check runs outside the call
+ * other callers may share, so one account's exhausted quota never fails
+ * another account's request. The provider call is recorded for whoever started it.
+ * @param provider - Rate provider
+ * @param query - Rate query
+ * @param context - Who the fetch is made for
+ * @param options - maxAge / forceRefresh
+ * @param cache - Rate cache (defaults to the service's)
+ * @returns Provider result with cache metadata
+ * @throws QuotaExceededError if the caller has no searches left
+ */
+export function fetchMeteredRates(
+  provider: RateProvider,
+  query: RateQuery,
+  context: UsageContext,
+  options: Omit<RateFetchOptions, 'beforeCall'> = {},
+  cache: RateCache = rateCache
+): Promise<CachedRateResult> {
+  return cache.fetch(meteredProvider(provider, context, true), query, {
+    ...options,
+    beforeCall: () => assertWithinQuota(context.userId || null),
+  });
+}
+
+// Credits, searches and errors of one group in the usage report
+interface UsageTotalsRow<Id> {
+  _id: Id;
+  credits: number;
+  searches: number;
+  errors: number;
+}
+
+interface UsageReportFacets {
+  total: UsageTotalsRow<null>[];
+  byDay: UsageTotalsRow<string>[];
+  byCompSet: UsageTotalsRow<Types.ObjectId | null>[];
+  byJobType: UsageTotalsRow<UsageJobType>[];
+}
+
+/**
+ * Usage for an account over a date range, by day, comp set and job type
+ * @param userId - Account owner
+ * @param from - First day (YYYY-MM-DD, inclusive)
+ * @param to - Last day (YYYY-MM-DD, inclusive)
+ * @returns Usage report with the current quota status
+ */
+export async function getUsageReport(userId: string, from: string, to: string) {
+  const match = {
+    userId: new Types.ObjectId(userId),
+    createdAt: { $gte: new Date(`${from}T00:00:00Z`), $lte: new Date(`${to}T23:59:59.999Z`) },
+  };
+  const totals = {
+    credits: { $sum: '$credits' },
+    searches: { $sum: 1 },
+    errors: { $sum: { $cond: [{ $eq: ['$status', 'error'] }, 1, 0] } },
+  };
+
+  const [result] = await UsageRecord.aggregate<UsageReportFacets>([
+    { $match: match },
+    {
+      $facet: {
+        total: [{ $group: { _id: null, ...totals } }],
+        byDay: [
+          { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...totals } },
+          { $sort: { _id: 1 } },
+        ],
+        byCompSet: [
+          { $group: { _id: '$compSetId', ...totals } },
+          { $sort: { credits: -1 } },
+        ],
+        byJobType: [
+          { $group: { _id: '$jobType', ...totals } },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  const compSetIds = result.byCompSet.map(row => row._id).filter(Boolean);
+  const compSets = await CompSet.find({ _id: { $in: compSetIds } }).select('name').lean();
+  const compSetNames = new Map(compSets.map(compSet => [compSet._id.toString(), compSet.name]));
+
+  const strip = ({ credits, searches, errors }: UsageTotalsRow<unknown>) =>
+    ({ credits, searches, errors });
+
+  return {
+    from,
+    to,
+    total: result.total[0] ? strip(result.total[0]) : { credits: 0, searches: 0, errors: 0 },
+    byDay: result.byDay.map(row => ({ date: row._id, ...strip(row) })),
+    byCompSet: result.byCompSet.map(row => ({
+      compSetId: row._id,
+      name: row._id ? compSetNames.get(row._id.toString()) ?? null : null,
+      ...strip(row),
+    })),
+    byJobType: result.byJobType.map(row => ({ jobType: row._id, ...strip(row) })),
+    quota: await getQuotaStatus(userId),
+  };
+}
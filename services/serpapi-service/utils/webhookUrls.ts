@@ -0,0 +1,115 @@
+import dns from 'dns';
+import net from 'net';
+
+// Addresses webhooks may never reach: loopback, private, link-local (cloud metadata), and other non-routable ranges
+const blockedAddresses = new net.BlockList();
+for (const [subnet, prefix] of [
+  ['0.0.0.0', 8],       // "this" network
+  ['10.0.0.0', 8],      // private
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],     // loopback
+  ['169.254.0.0', 16],  // link-local, incl. 169.254.169.254 metadata
+  ['172.16.0.0', 12],   // private
+  ['192.0.0.0', 24],    // IETF protocol assignments
+  ['192.168.0.0', 16],  // private
+  ['198.18.0.0', 15],   // benchmarking
+  ['224.0.0.0', 4],     // multicast
+  ['240.0.0.0', 4],     // reserved and broadcast
+] as const) {
+  blockedAddresses.addSubnet(subnet, prefix, 'ipv4');
+}
+for (const [subnet, prefix] of [
+  ['::', 128],          // unspecified
+  ['::1', 128],         // loopback
+  ['64:ff9b::', 96],    // IPv4/IPv6 translation
+  ['fc00::', 7],        // unique local
+  ['fe80::', 10],       // link-local
+  ['ff00::', 8],        // multicast
+] as const) {
+  blockedAddresses.addSubnet(subnet, prefix, 'ipv6');
+}
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges by BlockList itself;
+// IPv4-compatible ones (::a.b.c.d, the ::/96 range) are unwrapped by embeddedIPv4 below
+
+// Host names that always point inside the network (besides localhost itself)
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * IPv4 address inside an IPv4-compatible IPv6 address (::/96)
+ * @param address - IPv6 address in any notation
+ * @returns Dotted IPv4 address, or null outside ::/96
+ */
+function embeddedIPv4(address: string): string | null {
+  // The URL parser normalizes the notation, e.g. ::127.0.0.1 and 0:0:0:0:0:0:7f00:1 both become ::7f00:1
+  const normalized = new URL(`http://[${address}]/`).hostname.slice(1, -1);
+  const match = /^::(?:([0-9a-f]{1,4}):)?([0-9a-f]{1,4})$/.exec(normalized);
+  if (!match) return null;
+
+  const high = parseInt(match[1] || '0', 16);
+  const low = parseInt(match[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+/**
+ * Check whether an IP address is publicly routable
+ * @param address - IPv4 or IPv6 address
+ * @returns False for loopback, private, link-local and other internal ranges (and for non-IPs)
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (!version) return false;
+  if (version === 4) return !blockedAddresses.check(address, 'ipv4');
+
+  const ipv4 = embeddedIPv4(address);
+  if (ipv4 !== null) return !blockedAddresses.check(ipv4, 'ipv4');
+  return !blockedAddresses.check(address, 'ipv6');
+}
+
+/**
+ * Why a webhook URL may not be used, judged from the URL alone
+ * IP literals must be public and well-known internal host names are refused;
+ * names that resolve to internal addresses are caught at delivery time.
+ * @param url - Webhook URL
+ * @returns Reason the URL is refused, or null if it is allowed
+ */
+export function webhookUrlProblem(url: string): string | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  } catch {
+    return 'url must be an http(s) URL';
+  }
+
+  if (net.isIP(hostname)) {
+    return isPublicAddress(hostname) ? null : 'url must not point to a private, loopback or link-local address';
+  }
+  if (hostname === 'localhost' || BLOCKED_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    return 'url must not point to an internal host';
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for webhook requests that refuses hosts resolving to internal addresses
+ * Used as the socket lookup, so the addresses checked are the ones connected to.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      callback(new Error(`Webhook host ${hostname} resolves to a non-public address (${blocked.address})`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
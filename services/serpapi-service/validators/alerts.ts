@@ -0,0 +1,119 @@
+import Joi from 'joi';
+import { validateBody, validateQuery } from './validate';
+import { webhookUrlProblem } from '../utils/webhookUrls';
+
+const objectId = Joi.string().hex().length(24).messages({
+  'string.hex': 'compSetId must be a valid ID',
+  'string.length': 'compSetId must be a valid ID',
+});
+
+/**
+ * Why an alert rule could never fire
+ * Checked on create and on the rule as it stands after an update.
+ * @param rule - Thresholds of the new or updated rule
+ * @returns Message, or null when the rule has a threshold
+ */
+export function missingThresholdProblem(rule: { thresholdPct?: number | null; thresholdAmount?: number | null }): string | null {
+  return rule.thresholdPct == null && rule.thresholdAmount == null
+    ? 'Provide thresholdPct, thresholdAmount or both'
+    : null;
+}
+
+const ruleFields = {
+  name: Joi.string().trim().min(1).max(100),
+  enabled: Joi.boolean(),
+  thresholdPct: Joi.number().min(0).max(1000).allow(null),
+  thresholdAmount: Joi.number().min(0).allow(null),
+  direction: Joi.string().valid('any', 'increase', 'decrease'),
+  channels: Joi.array().items(Joi.string().trim().lowercase()).max(50),
+  competitorsOnly: Joi.boolean(),
+  eventDates: Joi.string().valid('any', 'only', 'exclude').messages({
+    'any.only': 'eventDates must be any, only or exclude',
+  }),
+  notifyWebhooks: Joi.boolean(),
+  emails: Joi.array().items(Joi.string().trim().lowercase().email()).max(20).messages({
+    'string.email': 'emails must contain valid email addresses',
+  }),
+};
+
+export const createAlertRuleSchema = Joi.object({
+  ...ruleFields,
+  name: ruleFields.name.required().messages({
+    'any.required': 'Alert rule name is required',
+  }),
+  compSetId: objectId.required().messages({
+    'any.required': 'compSetId is required',
+  }),
+  enabled: ruleFields.enabled.default(true),
+  direction: ruleFields.direction.default('any'),
+  channels: ruleFields.channels.default([]),
+  competitorsOnly: ruleFields.competitorsOnly.default(true),
+  eventDates: ruleFields.eventDates.default('any'),
+  notifyWebhooks: ruleFields.notifyWebhooks.default(true),
+}).custom((value, helpers) => {
+  const problem = missingThresholdProblem(value);
+  return problem ? helpers.message({ custom: problem }) : value;
+});
+
+// Thresholds are checked against the merged rule (see missingThresholdProblem)
+export const updateAlertRuleSchema = Joi.object({
+  ...ruleFields,
+  compSetId: objectId,
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+// Webhooks may not target loopback, private or link-local addresses
+const webhookUrl = Joi.string().trim().uri({ scheme: ['http', 'https'] }).custom((value, helpers) => {
+  const problem = webhookUrlProblem(value);
+  return problem ? helpers.message({ custom: problem }) : value;
+});
+
+export const createWebhookSchema = Joi.object({
+  url: webhookUrl.required().messages({
+    'string.uri': 'url must be an http(s) URL',
+    'any.required': 'url is required',
+  }),
+  description: Joi.string().trim().max(200),
+  enabled: Joi.boolean().default(true),
+});
+
+export const updateWebhookSchema = Joi.object({
+  url: webhookUrl.messages({
+    'string.uri': 'url must be an http(s) URL',
+  }),
+  description: Joi.string().trim().max(200).allow(''),
+  enabled: Joi.boolean(),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+export const alertEventsQuerySchema = Joi.object({
+  ruleId: Joi.string().hex().length(24),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+/**
+ * Validate create alert rule request
+ */
+export const validateCreateAlertRule = validateBody(createAlertRuleSchema);
+
+/**
+ * Validate update alert rule request
+ */
+export const validateUpdateAlertRule = validateBody(updateAlertRuleSchema);
+
+/**
+ * Validate create webhook request
+ */
+export const validateCreateWebhook = validateBody(createWebhookSchema);
+
+/**
+ * Validate update webhook request
+ */
+export const validateUpdateWebhook = validateBody(updateWebhookSchema);
+
+/**
+ * Validate alert event history query
+ */
+export const validateAlertEventsQuery = validateQuery(alertEventsQuerySchema);
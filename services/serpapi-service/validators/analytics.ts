@@ -0,0 +1,43 @@
+import Joi from 'joi';
+import { validateQuery, dateString } from './validate';
+import { MAX_RANGE_DAYS } from '../utils/rateIndex';
+
+export const rateIndexQuerySchema = Joi.object({
+  compSetId: Joi.string().hex().length(24).messages({
+    'string.hex': 'compSetId must be a valid ID',
+    'string.length': 'compSetId must be a valid ID',
+  }),
+  checkInFrom: dateString.messages({
+    'string.pattern.base': 'checkInFrom must be in YYYY-MM-DD format',
+  }),
+  checkInTo: dateString.messages({
+    'string.pattern.base': 'checkInTo must be in YYYY-MM-DD format',
+  }),
+  los: Joi.number().integer().min(1).max(30).default(1),
+  adults: Joi.number().integer().min(1).max(6).default(2),
+  displayCurrency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'displayCurrency must be a 3-letter currency code',
+  }),
+  bandLow: Joi.number().min(0).max(1000).default(95),
+  bandHigh: Joi.number().min(0).max(1000).default(105),
+  window: Joi.number().integer().min(1).max(90).default(7),
+}).custom((value, helpers) => {
+  if (value.bandHigh < value.bandLow) {
+    return helpers.message({ custom: 'bandHigh must not be below bandLow' });
+  }
+  if (value.checkInFrom && value.checkInTo) {
+    if (value.checkInTo < value.checkInFrom) {
+      return helpers.message({ custom: 'checkInTo must not be before checkInFrom' });
+    }
+    const days = (Date.parse(value.checkInTo) - Date.parse(value.checkInFrom)) / (24 * 60 * 60 * 1000);
+    if (days >= MAX_RANGE_DAYS) {
+      return helpers.message({ custom: `The stay date range may cover at most ${MAX_RANGE_DAYS} days` });
+    }
+  }
+  return value;
+});
+
+/**
+ * Validate rate index query
+ */
+export const validateRateIndexQuery = validateQuery(rateIndexQuerySchema);
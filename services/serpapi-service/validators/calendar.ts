@@ -0,0 +1,60 @@
+import Joi from 'joi';
+import { validateQuery, dateString, stringList } from './validate';
+
+// Filters shared by the calendar and its export
+const calendarFilters = {
+  hotel: stringList,
+  checkInFrom: dateString.messages({
+    'string.pattern.base': 'checkInFrom must be in YYYY-MM-DD format',
+  }),
+  checkInTo: dateString.messages({
+    'string.pattern.base': 'checkInTo must be in YYYY-MM-DD format',
+  }),
+  adults: Joi.number().integer().min(1).max(10),
+  children: Joi.number().integer().min(0).max(6),
+  ota: stringList,
+  currency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'Currency code must be 3 characters',
+  }),
+  displayCurrency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'displayCurrency must be a 3-letter currency code',
+  }),
+};
+
+const checkInRange: Joi.CustomValidator = (value, helpers) => {
+  if (value.checkInFrom && value.checkInTo && value.checkInTo < value.checkInFrom) {
+    return helpers.message({ custom: 'checkInTo must not be before checkInFrom' });
+  }
+  return value;
+};
+
+export const calendarQuerySchema = Joi.object({
+  ...calendarFilters,
+  limit: Joi.number().integer().min(1).max(1000).default(200),
+  cursor: Joi.string().max(200),
+  // Annotate rows with events in these markets
+  market: stringList,
+}).custom(checkInRange);
+
+export const calendarExportQuerySchema = Joi.object({
+  ...calendarFilters,
+  // One occupancy and length of stay, so every cell holds a comparable rate
+  adults: calendarFilters.adults.default(2),
+  children: calendarFilters.children.default(0),
+  los: Joi.number().integer().min(1).max(30).default(1).messages({
+    'number.base': 'los must be a number of nights',
+  }),
+  format: Joi.string().valid('csv', 'xlsx').default('csv').messages({
+    'any.only': 'format must be csv or xlsx',
+  }),
+}).custom(checkInRange);
+
+/**
+ * Validate calendar data query
+ */
+export const validateCalendarQuery = validateQuery(calendarQuerySchema);
+
+/**
+ * Validate calendar export query
+ */
+export const validateCalendarExportQuery = validateQuery(calendarExportQuerySchema);
@@ -0,0 +1,30 @@
+import Joi from 'joi';
+import { validateBody } from './validate';
+import { BRAND_CHANNEL_KEY } from '../utils/channels';
+
+const channelSchema = Joi.object({
+  key: Joi.string().trim().lowercase().pattern(/^[a-z0-9_-]+$/).invalid(BRAND_CHANNEL_KEY).required().messages({
+    'string.pattern.base': 'Channel key may only contain letters, numbers, "-" and "_"',
+    'any.invalid': `Channel key "${BRAND_CHANNEL_KEY}" is reserved for the official price`,
+    'any.required': 'Channel key is required',
+  }),
+  label: Joi.string().trim().min(1).max(100).required().messages({
+    'any.required': 'Channel label is required',
+  }),
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(100)).max(20).default([]),
+  enabled: Joi.boolean().default(true),
+});
+
+export const updateChannelConfigSchema = Joi.object({
+  channels: Joi.array().items(channelSchema).max(50).unique('key').required().messages({
+    'array.unique': 'Channel keys must be unique',
+    'any.required': 'Channels are required',
+  }),
+  includeBrand: Joi.boolean().default(true),
+  brandLabel: Joi.string().trim().min(1).max(100).default('Brand.com'),
+});
+
+/**
+ * Validate update channel configuration request
+ */
+export const validateUpdateChannelConfig = validateBody(updateChannelConfigSchema);
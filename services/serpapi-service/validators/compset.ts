@@ -0,0 +1,70 @@
+import Joi from 'joi';
+import { validateBody } from './validate';
+
+const compSetHotelSchema = Joi.object({
+  name: Joi.string().trim().min(2).required().messages({
+    'string.min': 'Hotel name must be at least 2 characters',
+    'any.required': 'Hotel name is required',
+  }),
+  property_token: Joi.string().trim().allow(null),
+  address: Joi.string().trim().allow(null, ''),
+  gps_coordinates: Joi.object({
+    latitude: Joi.number().min(-90).max(90),
+    longitude: Joi.number().min(-180).max(180),
+  }).allow(null),
+});
+
+export const createCompSetSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'any.required': 'Comp set name is required',
+  }),
+  hotel: compSetHotelSchema.required().messages({
+    'any.required': 'Own hotel is required',
+  }),
+  competitors: Joi.array().items(compSetHotelSchema).max(25).default([]).messages({
+    'array.max': 'A comp set cannot have more than 25 competitors',
+  }),
+  market: Joi.string().trim().min(2).max(100).allow(null),
+  isDefault: Joi.boolean().optional(),
+});
+
+export const updateCompSetSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  hotel: compSetHotelSchema,
+  competitors: Joi.array().items(compSetHotelSchema).max(25).messages({
+    'array.max': 'A comp set cannot have more than 25 competitors',
+  }),
+  market: Joi.string().trim().min(2).max(100).allow(null),
+  isDefault: Joi.boolean(),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+export const pinPropertySchema = Joi.object({
+  hotelName: Joi.string().trim().required().messages({
+    'any.required': 'hotelName (the comp set hotel to pin) is required',
+  }),
+  property_token: Joi.string().trim().allow(null).required().messages({
+    'any.required': 'property_token is required (null to unpin)',
+  }),
+  address: Joi.string().trim().allow(null, ''),
+  gps_coordinates: Joi.object({
+    latitude: Joi.number().min(-90).max(90),
+    longitude: Joi.number().min(-180).max(180),
+  }).allow(null),
+});
+
+/**
+ * Validate create comp set request
+ */
+export const validateCreateCompSet = validateBody(createCompSetSchema);
+
+/**
+ * Validate update comp set request
+ */
+export const validateUpdateCompSet = validateBody(updateCompSetSchema);
+
+/**
+ * Validate pin property request
+ */
+export const validatePinProperty = validateBody(pinPropertySchema);
@@ -0,0 +1,92 @@
+import Joi from 'joi';
+import { validateBody, validateQuery, dateString, stringList } from './validate';
+import { EVENT_CATEGORIES, EVENT_IMPACTS, MAX_EVENT_DAYS } from '../utils/events';
+import { addDays } from '../utils/formatters';
+
+const eventFields = {
+  market: Joi.string().trim().min(2).max(100),
+  name: Joi.string().trim().min(1).max(200),
+  category: Joi.string().lowercase().valid(...EVENT_CATEGORIES),
+  impact: Joi.string().lowercase().valid(...EVENT_IMPACTS),
+  startDate: dateString.messages({
+    'string.pattern.base': 'startDate must be in YYYY-MM-DD format',
+  }),
+  endDate: dateString.messages({
+    'string.pattern.base': 'endDate must be in YYYY-MM-DD format',
+  }),
+  notes: Joi.string().trim().max(2000).allow('', null),
+};
+
+const dateOrder: Joi.CustomValidator = (value, helpers) => {
+  if (value.startDate && value.endDate && value.endDate < value.startDate) {
+    return helpers.message({ custom: 'endDate must not be before startDate' });
+  }
+  if (value.startDate && value.endDate && addDays(value.startDate, MAX_EVENT_DAYS) <= value.endDate) {
+    return helpers.message({ custom: `Events may last at most ${MAX_EVENT_DAYS} days` });
+  }
+  return value;
+};
+
+export const createEventSchema = Joi.object({
+  ...eventFields,
+  market: eventFields.market.required().messages({
+    'any.required': 'market is required',
+  }),
+  name: eventFields.name.required().messages({
+    'any.required': 'Event name is required',
+  }),
+  startDate: eventFields.startDate.required().messages({
+    'any.required': 'startDate is required (format: YYYY-MM-DD)',
+  }),
+  category: eventFields.category.default('other'),
+  impact: eventFields.impact.default('medium'),
+}).custom(dateOrder);
+
+export const updateEventSchema = Joi.object(eventFields).min(1).custom(dateOrder).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+export const eventsQuerySchema = Joi.object({
+  market: stringList,
+  from: dateString.messages({
+    'string.pattern.base': 'from must be in YYYY-MM-DD format',
+  }),
+  to: dateString.messages({
+    'string.pattern.base': 'to must be in YYYY-MM-DD format',
+  }),
+  category: Joi.string().lowercase().valid(...EVENT_CATEGORIES),
+  limit: Joi.number().integer().min(1).max(1000).default(200),
+});
+
+export const importEventsSchema = Joi.object({
+  market: eventFields.market.required().messages({
+    'any.required': 'market is required',
+  }),
+  format: Joi.string().valid('ics', 'csv').required().messages({
+    'any.only': 'format must be ics or csv',
+    'any.required': 'format is required (ics or csv)',
+  }),
+  content: Joi.string().min(1).max(5 * 1024 * 1024).required().messages({
+    'any.required': 'content (the ICS or CSV text) is required',
+  }),
+});
+
+/**
+ * Validate create event request
+ */
+export const validateCreateEvent = validateBody(createEventSchema);
+
+/**
+ * Validate update event request
+ */
+export const validateUpdateEvent = validateBody(updateEventSchema);
+
+/**
+ * Validate event list query
+ */
+export const validateEventsQuery = validateQuery(eventsQuerySchema);
+
+/**
+ * Validate event import request
+ */
+export const validateImportEvents = validateBody(importEventsSchema);
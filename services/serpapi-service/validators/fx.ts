@@ -0,0 +1,42 @@
+import Joi from 'joi';
+import { validateBody, validateQuery, dateString } from './validate';
+
+const currencyCode = Joi.string().length(3).uppercase().messages({
+  'string.length': 'Currency code must be 3 characters',
+});
+
+export const fxRatesQuerySchema = Joi.object({
+  base: currencyCode,
+  quote: currencyCode,
+  from: dateString.messages({
+    'string.pattern.base': 'from must be in YYYY-MM-DD format',
+  }),
+  to: dateString.messages({
+    'string.pattern.base': 'to must be in YYYY-MM-DD format',
+  }),
+  limit: Joi.number().integer().min(1).max(1000).default(200),
+}).custom((value, helpers) => {
+  if (value.from && value.to && value.to < value.from) {
+    return helpers.message({ custom: 'to must not be before from' });
+  }
+  return value;
+});
+
+// Rows are checked field by field when parsed (see parseFxJson / parseFxCsv)
+export const uploadFxRatesSchema = Joi.object({
+  csv: Joi.string().min(1),
+  rates: Joi.alternatives().try(Joi.array().min(1).max(10000), Joi.object()),
+}).xor('csv', 'rates').messages({
+  'object.xor': 'Provide either "csv" (date,base,quote,rate) or "rates" (JSON), not both',
+  'object.missing': 'Provide either "csv" (date,base,quote,rate) or "rates" (JSON)',
+});
+
+/**
+ * Validate FX rate list query
+ */
+export const validateFxRatesQuery = validateQuery(fxRatesQuerySchema);
+
+/**
+ * Validate FX rate upload request
+ */
+export const validateUploadFxRates = validateBody(uploadFxRatesSchema);
@@ -0,0 +1,60 @@
+import Joi from 'joi';
+import { validateBody, dateString } from './validate';
+import { childrenAges } from './serpapi';
+import { MAX_MATRIX_SEARCHES } from '../utils/matrix';
+
+const occupancy = Joi.object({
+  adults: Joi.number().integer().min(1).max(6).required().messages({
+    'any.required': 'Each occupancy needs adults',
+    'number.min': 'adults must be an integer between 1 and 6',
+    'number.max': 'adults must be an integer between 1 and 6',
+  }),
+  childrenAges: childrenAges.default([]),
+});
+
+export const rateMatrixSchema = Joi.object({
+  compSetId: Joi.string().hex().length(24).messages({
+    'string.hex': 'compSetId must be a valid ID',
+    'string.length': 'compSetId must be a valid ID',
+  }),
+  checkInFrom: dateString.required().messages({
+    'any.required': 'checkInFrom is required',
+    'string.pattern.base': 'checkInFrom must be in YYYY-MM-DD format',
+  }),
+  checkInTo: dateString.messages({
+    'string.pattern.base': 'checkInTo must be in YYYY-MM-DD format',
+  }),
+  los: Joi.array().items(Joi.number().integer().min(1).max(30)).min(1).max(10).unique().default([1]).messages({
+    'number.min': 'los values must be between 1 and 30 nights',
+    'number.max': 'los values must be between 1 and 30 nights',
+    'array.unique': 'los values must be unique',
+  }),
+  occupancies: Joi.array().items(occupancy).min(1).max(10).default([{ adults: 2, childrenAges: [] }]),
+  gl: Joi.string().length(2).default('us'),
+  hl: Joi.string().length(2).default('en'),
+  currency: Joi.string().length(3).uppercase().default('USD'),
+  maxSearches: Joi.number().integer().min(1).max(MAX_MATRIX_SEARCHES).default(MAX_MATRIX_SEARCHES).messages({
+    'number.max': `maxSearches cannot exceed ${MAX_MATRIX_SEARCHES}`,
+  }),
+}).custom((value, helpers) => {
+  value.checkInTo = value.checkInTo || value.checkInFrom;
+  if (value.checkInTo < value.checkInFrom) {
+    return helpers.message({ custom: 'checkInTo must not be before checkInFrom' });
+  }
+  if (value.checkInFrom < new Date().toISOString().slice(0, 10)) {
+    return helpers.message({ custom: 'checkInFrom cannot be in the past' });
+  }
+
+  // Stored results are keyed by adults and number of children, so two
+  // occupancies that only differ in the children's ages would overwrite each other
+  const keys = value.occupancies.map((o: { adults: number; childrenAges: number[] }) => `${o.adults}|${o.childrenAges.length}`);
+  if (new Set(keys).size !== keys.length) {
+    return helpers.message({ custom: 'occupancies must differ in adults or number of children' });
+  }
+  return value;
+});
+
+/**
+ * Validate rate matrix request
+ */
+export const validateRateMatrix = validateBody(rateMatrixSchema);
@@ -0,0 +1,39 @@
+import Joi from 'joi';
+import { validateQuery, dateString, stringList } from './validate';
+
+export const parityQuerySchema = Joi.object({
+  property: Joi.string().trim().min(2).required().messages({
+    'any.required': 'Query parameter "property" (hotel name or property_token) is required',
+  }),
+  checkInFrom: dateString.required().messages({
+    'string.pattern.base': 'checkInFrom must be in YYYY-MM-DD format',
+    'any.required': 'Query parameter "checkInFrom" is required (format: YYYY-MM-DD)',
+  }),
+  checkInTo: dateString.required().messages({
+    'string.pattern.base': 'checkInTo must be in YYYY-MM-DD format',
+    'any.required': 'Query parameter "checkInTo" is required (format: YYYY-MM-DD)',
+  }),
+  adults: Joi.number().integer().min(1).max(10).default(2),
+  children: Joi.number().integer().min(0).max(6).default(0).messages({
+    'number.base': 'children must be a number of children (default: 0)',
+  }),
+  currency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'Currency code must be 3 characters',
+  }),
+  displayCurrency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'displayCurrency must be a 3-letter currency code',
+  }),
+  ota: stringList,
+  tolerancePct: Joi.number().min(0).max(100).default(0),
+  toleranceAmount: Joi.number().min(0).default(0),
+}).custom((value, helpers) => {
+  if (value.checkInTo < value.checkInFrom) {
+    return helpers.message({ custom: 'checkInTo must not be before checkInFrom' });
+  }
+  return value;
+});
+
+/**
+ * Validate parity report query
+ */
+export const validateParityQuery = validateQuery(parityQuerySchema);
@@ -0,0 +1,107 @@
+import Joi from 'joi';
+import { validateBody, validateQuery, dateString } from './validate';
+
+const objectId = Joi.string().hex().length(24).messages({
+  'string.hex': 'compSetId must be a valid ID',
+  'string.length': 'compSetId must be a valid ID',
+});
+
+const currencyCode = Joi.string().length(3).uppercase().messages({
+  'string.length': 'currency must be a 3-letter currency code',
+});
+
+const conditionsSchema = Joi.object({
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().max(7).messages({
+    'number.max': 'daysOfWeek must be 0 (Sunday) to 6 (Saturday)',
+  }),
+  dates: Joi.array().items(dateString.messages({
+    'string.pattern.base': 'dates must be in YYYY-MM-DD format',
+  })).max(366),
+  dateFrom: dateString.messages({ 'string.pattern.base': 'dateFrom must be in YYYY-MM-DD format' }),
+  dateTo: dateString.messages({ 'string.pattern.base': 'dateTo must be in YYYY-MM-DD format' }),
+  onEventDates: Joi.boolean(),
+  minEventImpact: Joi.string().valid('low', 'medium', 'high').messages({
+    'any.only': 'minEventImpact must be low, medium or high',
+  }),
+}).default({});
+
+const ruleSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'any.required': 'Every rule needs a name',
+  }),
+  enabled: Joi.boolean().default(true),
+  conditions: conditionsSchema,
+  base: Joi.string().valid('median', 'min', 'max', 'average', 'own').required().messages({
+    'any.only': 'base must be one of median, min, max, average or own',
+    'any.required': 'Every rule needs a base (median, min, max, average or own)',
+  }),
+  adjustment: Joi.object({
+    type: Joi.string().valid('amount', 'percent').default('amount'),
+    value: Joi.number().min(-100000).max(100000).default(0),
+  }).default({ type: 'amount', value: 0 }),
+});
+
+export const ruleSetSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  note: Joi.string().trim().max(500).allow('', null),
+  rules: Joi.array().items(ruleSchema).min(1).max(50).required().messages({
+    'array.min': 'At least one rule is required',
+    'any.required': 'rules is required',
+  }),
+  floor: Joi.number().min(0).allow(null),
+  ceiling: Joi.number().min(0).allow(null),
+  currency: currencyCode.allow(null),
+  rounding: Joi.number().min(0).max(1000).allow(null),
+}).custom((value, helpers) => {
+  if (value.floor != null && value.ceiling != null && value.ceiling < value.floor) {
+    return helpers.message({ custom: 'ceiling must not be below floor' });
+  }
+  return value;
+});
+
+const stayDateFields = {
+  compSetId: objectId,
+  checkInFrom: dateString.messages({
+    'string.pattern.base': 'checkInFrom must be in YYYY-MM-DD format',
+  }),
+  checkInTo: dateString.messages({
+    'string.pattern.base': 'checkInTo must be in YYYY-MM-DD format',
+  }),
+  los: Joi.number().integer().min(1).max(30).default(1),
+  adults: Joi.number().integer().min(1).max(6).default(2),
+};
+
+export const recommendationQuerySchema = Joi.object({
+  ...stayDateFields,
+  version: Joi.number().integer().min(1),
+});
+
+// Replays the saved version (latest by default) or a draft rule set
+export const dryRunSchema = Joi.object({
+  ...stayDateFields,
+  checkInFrom: stayDateFields.checkInFrom.required().messages({
+    'any.required': 'checkInFrom is required (format: YYYY-MM-DD)',
+  }),
+  checkInTo: stayDateFields.checkInTo.required().messages({
+    'any.required': 'checkInTo is required (format: YYYY-MM-DD)',
+  }),
+  version: Joi.number().integer().min(1),
+  ruleSet: ruleSetSchema,
+}).oxor('version', 'ruleSet').messages({
+  'object.oxor': 'Provide either version or ruleSet, not both',
+});
+
+/**
+ * Validate a new rule set version
+ */
+export const validateRuleSet = validateBody(ruleSetSchema);
+
+/**
+ * Validate recommendation query
+ */
+export const validateRecommendationQuery = validateQuery(recommendationQuerySchema);
+
+/**
+ * Validate dry-run request
+ */
+export const validateDryRun = validateBody(dryRunSchema);
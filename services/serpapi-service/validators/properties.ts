@@ -0,0 +1,20 @@
+import Joi from 'joi';
+import { validateQuery, dateString } from './validate';
+
+export const propertySearchSchema = Joi.object({
+  q: Joi.string().trim().min(2).required().messages({
+    'string.min': 'Hotel name must be at least 2 characters',
+    'any.required': 'Query parameter "q" (hotel name) is required',
+  }),
+  checkInDate: dateString.messages({
+    'string.pattern.base': 'checkInDate must be in YYYY-MM-DD format',
+  }),
+  gl: Joi.string().length(2).default('us'),
+  hl: Joi.string().length(2).default('en'),
+  currency: Joi.string().length(3).uppercase().default('USD'),
+});
+
+/**
+ * Validate property search query
+ */
+export const validatePropertySearch = validateQuery(propertySearchSchema);
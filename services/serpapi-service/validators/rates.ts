@@ -0,0 +1,27 @@
+import Joi from 'joi';
+import { validateQuery } from './validate';
+
+export const rateHistoryQuerySchema = Joi.object({
+  property: Joi.string().trim().min(2).required().messages({
+    'any.required': 'Query parameter "property" (hotel name or property_token) is required',
+  }),
+  checkIn: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+    'string.pattern.base': 'checkIn must be in YYYY-MM-DD format',
+    'any.required': 'Query parameter "checkIn" is required (format: YYYY-MM-DD)',
+  }),
+  los: Joi.number().integer().min(1).max(30).default(1).messages({
+    'number.base': 'los must be a number of nights',
+  }),
+  adults: Joi.number().integer().min(1).max(10).default(2),
+  children: Joi.number().integer().min(0).max(6).default(0).messages({
+    'number.base': 'children must be a number of children (default: 0)',
+  }),
+  displayCurrency: Joi.string().length(3).uppercase().messages({
+    'string.length': 'displayCurrency must be a 3-letter currency code',
+  }),
+});
+
+/**
+ * Validate rate history query
+ */
+export const validateRateHistoryQuery = validateQuery(rateHistoryQuerySchema);
@@ -0,0 +1,77 @@
+import Joi from 'joi';
+import { validateBody } from './validate';
+import { isValidCron } from '../utils/cron';
+
+const objectId = Joi.string().hex().length(24).messages({
+  'string.hex': 'compSetId must be a valid ID',
+  'string.length': 'compSetId must be a valid ID',
+});
+
+const cadence = Joi.string().trim().custom((value, helpers) => {
+  if (!isValidCron(value)) {
+    return helpers.error('any.invalid');
+  }
+  return value;
+}).messages({
+  'any.invalid': 'Cadence must be a 5-field cron expression (UTC) or @hourly, @daily, @weekly, @monthly',
+});
+
+const stayWindow = Joi.object({
+  startOffsetDays: Joi.number().integer().min(0).max(365).default(0),
+  nights: Joi.number().integer().min(1).max(365).required().messages({
+    'any.required': 'stayWindow.nights is required',
+    'number.max': 'stayWindow.nights cannot exceed 365',
+  }),
+});
+
+export const createScheduleSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'any.required': 'Job name is required',
+  }),
+  compSetId: objectId.required().messages({
+    'any.required': 'compSetId is required',
+  }),
+  stayWindow: stayWindow.required().messages({
+    'any.required': 'stayWindow is required',
+  }),
+  los: Joi.number().integer().min(1).max(30).default(1),
+  adults: Joi.number().integer().min(1).max(6).default(2).messages({
+    'number.min': 'adults must be an integer between 1 and 6 (default: 2)',
+    'number.max': 'adults must be an integer between 1 and 6 (default: 2)',
+  }),
+  gl: Joi.string().length(2).default('us'),
+  hl: Joi.string().length(2).default('en'),
+  currency: Joi.string().length(3).uppercase().default('USD'),
+  cadence: cadence.required().messages({
+    'any.required': 'Cadence is required',
+  }),
+  enabled: Joi.boolean().default(true),
+});
+
+export const updateScheduleSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  compSetId: objectId,
+  stayWindow,
+  los: Joi.number().integer().min(1).max(30),
+  adults: Joi.number().integer().min(1).max(6).messages({
+    'number.min': 'adults must be an integer between 1 and 6 (default: 2)',
+    'number.max': 'adults must be an integer between 1 and 6 (default: 2)',
+  }),
+  gl: Joi.string().length(2),
+  hl: Joi.string().length(2),
+  currency: Joi.string().length(3).uppercase(),
+  cadence,
+  enabled: Joi.boolean(),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+/**
+ * Validate create schedule request
+ */
+export const validateCreateSchedule = validateBody(createScheduleSchema);
+
+/**
+ * Validate update schedule request
+ */
+export const validateUpdateSchedule = validateBody(updateScheduleSchema);
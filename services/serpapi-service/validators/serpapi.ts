@@ -2,6 +2,23 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { FetchRatesRequestBody } from '../../../shared/types';
 
+// One age per child; accepts an array or a comma-separated list ("5,9")
+export const childrenAges = Joi.alternatives()
+  .try(
+    Joi.array().items(Joi.number().integer().min(0).max(17)),
+    Joi.string().pattern(/^\d{1,2}(,\d{1,2})*$/)
+  )
+  .custom((value: number[] | string, helpers) => {
+    const ages = Array.isArray(value) ? value : value.split(',').map(Number);
+    if (ages.length > 6 || ages.some(age => age > 17)) {
+      return helpers.message({ custom: 'childrenAges must list up to 6 ages between 0 and 17' });
+    }
+    return ages;
+  })
+  .messages({
+    'alternatives.match': 'childrenAges must list up to 6 ages between 0 and 17',
+  });
+
 export const fetchRatesSchema = Joi.object<FetchRatesRequestBody>({
   hotelName: Joi.string().min(2).required().messages({
     'string.min': 'Hotel name must be at least 2 characters',
@@ -38,6 +55,17 @@ export const fetchRatesSchema = Joi.object<FetchRatesRequestBody>({
   currency: Joi.string().length(3).optional().default('USD').messages({
     'string.length': 'Currency code must be 3 characters',
   }),
+  maxAge: Joi.number().integer().min(0).optional().messages({
+    'number.base': 'maxAge must be a number of seconds',
+  }),
+  forceRefresh: Joi.boolean().optional().default(false),
+  adults: Joi.number().integer().min(1).max(6).optional().messages({
+    'number.base': 'adults must be an integer between 1 and 6 (default: 2)',
+    'number.min': 'adults must be an integer between 1 and 6 (default: 2)',
+    'number.max': 'adults must be an integer between 1 and 6 (default: 2)',
+  }),
+  childrenAges: childrenAges.optional(),
+  propertyToken: Joi.string().trim().optional(),
 }).custom((value, helpers) => {
   // Validate that check-out date is after check-in date
   const checkIn = new Date(value.checkInDate);
@@ -94,7 +122,22 @@ function transformToCamelCase(body: any): any {
   if (body.hl) transformed.hl = body.hl;
   if (body.currency) transformed.currency = body.currency;
 
-  // 5. Ignore engine (validator doesn't expect it)
+  // 5. Cache options
+  const maxAge = body.maxAge ?? body.max_age;
+  if (maxAge !== undefined) transformed.maxAge = maxAge;
+  const forceRefresh = body.forceRefresh ?? body.force_refresh;
+  if (forceRefresh !== undefined) transformed.forceRefresh = forceRefresh;
+
+  // 6. Occupancy
+  if (body.adults !== undefined) transformed.adults = body.adults;
+  const ages = body.childrenAges ?? body.children_ages;
+  if (ages !== undefined) transformed.childrenAges = ages;
+
+  // 7. Pinned property
+  const propertyToken = body.propertyToken ?? body.property_token;
+  if (propertyToken !== undefined) transformed.propertyToken = propertyToken;
+
+  // 8. Ignore engine (validator doesn't expect it)
   //    If you want to keep it, add it here.
 
   return transformed;
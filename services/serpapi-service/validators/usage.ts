@@ -0,0 +1,35 @@
+import Joi from 'joi';
+import { validateBody, validateQuery, dateString } from './validate';
+
+export const usageQuerySchema = Joi.object({
+  from: dateString.messages({
+    'string.pattern.base': 'from must be in YYYY-MM-DD format',
+  }),
+  to: dateString.messages({
+    'string.pattern.base': 'to must be in YYYY-MM-DD format',
+  }),
+}).custom((value, helpers) => {
+  if (value.from && value.to && value.to < value.from) {
+    return helpers.message({ custom: 'to must not be before from' });
+  }
+  return value;
+});
+
+export const updateQuotaSchema = Joi.object({
+  monthlyLimit: Joi.number().integer().min(0).allow(null).messages({
+    'number.base': 'monthlyLimit must be a number of searches (or null for unlimited)',
+  }),
+  action: Joi.string().valid('reject', 'queue'),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+/**
+ * Validate usage report query
+ */
+export const validateUsageQuery = validateQuery(usageQuerySchema);
+
+/**
+ * Validate update quota request
+ */
+export const validateUpdateQuota = validateBody(updateQuotaSchema);
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+
+// YYYY-MM-DD
+export const dateString = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+// Accept repeated parameters (?ota=a&ota=b) and comma-separated lists (?ota=a,b)
+export const stringList = Joi.alternatives()
+  .try(Joi.array().items(Joi.string().trim()), Joi.string().trim())
+  .custom((value: string | string[]) =>
+    (Array.isArray(value) ? value : value.split(','))
+      .map(item => item.trim())
+      .filter(Boolean)
+  );
+
+/**
+ * Build middleware that validates req.body against a schema
+ * and replaces it with the validated (defaulted) value
+ */
+export const validateBody = (schema: Joi.Schema) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { error, value } = schema.validate(req.body, { abortEarly: false });
+
+  if (error) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: error.details.map((d) => d.message),
+    });
+    return;
+  }
+
+  req.body = value;
+  next();
+};
+
+/**
+ * Build middleware that validates req.query against a schema
+ * and replaces it with the validated (converted, defaulted) value
+ */
+export const validateQuery = (schema: Joi.Schema) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { error, value } = schema.validate(req.query, { abortEarly: false });
+
+  if (error) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: error.details.map((d) => d.message),
+    });
+    return;
+  }
+
+  req.query = value;
+  next();
+};
@@ -1,19 +0,0 @@
-export const hotels: {
-    name: string;
-}[] = [
-    {
-        name:"Ramada by Wyndham Waupaca",
-    },
-    {
-        name: "Comfort Suites at Par 4 Resort",
-    },
-    {
-        name: "AmericInn by Wyndham New London"
-    },
-    {
-        name: "Motel 6-Wisconsin Rapids, WI"
-    },
-    {
-        name: "Quality Inn New London"
-    }
-]
\ No newline at end of file
@@ -1,12 +1,29 @@
 // JWT utilities
 export * from './utils/jwt';
 export * from './utils/password';
+export * from './utils/revocation';
+
+// Organization access
+export * from './utils/access';
+
+// Email
+export * from './utils/mailer';
 
 // Middleware
 export * from './middleware/auth';
+export * from './middleware/property';
+export * from './middleware/ownership';
+
+// Models (organizations and access, shared by every service)
+export * from './models/Organization';
+export * from './models/Property';
+export * from './models/Membership';
+export * from './models/Invitation';
+export * from './models/RevokedToken';
 
 // Validators
 export * from './validators/auth';
+export * from './validators/organizations';
 
 // Types
 export * from './types';
@@ -1,15 +1,17 @@
 import { Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt';
-import { AuthenticatedRequest } from '../types';
+import { getRevocationStore } from '../utils/revocation';
+import { AuthenticatedRequest, TokenPayload } from '../types';
 
 /**
  * Middleware to authenticate requests using access token
+ * Tokens that were revoked (logout, revoked session, deactivated account) are rejected.
  */
-export const authenticateToken = (
+export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -18,13 +20,44 @@ export const authenticateToken = (
     return;
   }
 
+  let decoded: TokenPayload;
   try {
-    const decoded = verifyAccessToken(token);
-    req.user = decoded;
-    next();
+    decoded = verifyAccessToken(token);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Invalid token';
     res.status(403).json({ error: errorMessage });
+    return;
+  }
+
+  try {
+    if (await getRevocationStore().isRevoked(decoded)) {
+      res.status(403).json({ error: 'Access token has been revoked' });
+      return;
+    }
+  } catch (error) {
+    console.error('Token revocation check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+    return;
   }
+
+  req.user = decoded;
+  next();
 };
 
+
+/**
+ * Middleware that attaches the user when an access token is sent,
+ * and lets anonymous requests through
+ */
+export const optionalAuthenticateToken = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.headers['authorization']) {
+    next();
+    return;
+  }
+
+  await authenticateToken(req, res, next);
+};
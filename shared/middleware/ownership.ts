@@ -0,0 +1,48 @@
+import { Response, NextFunction } from 'express';
+import { sharesOrganization } from '../utils/access';
+import { AuthenticatedRequest, OrgRole } from '../types';
+
+export interface OwnershipPolicy {
+  param?: string;      // route parameter holding the target user's ID (default: id)
+  readRole?: OrgRole;  // organization role that may also read fellow members (default: owner only)
+}
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Middleware that limits a user resource to its owner
+ * The route parameter may be "me", which is replaced with the caller's ID.
+ * Other users get 403, except that reads are allowed to callers holding
+ * readRole in an organization the target user belongs to. Changes are always
+ * limited to the owner. Use after authenticateToken.
+ * @param policy - Route parameter and the role allowed to read
+ */
+export const authorizeOwner = ({ param = 'id', readRole }: OwnershipPolicy = {}) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+
+    if (req.params[param] === 'me') {
+      req.params[param] = req.user.id;
+    }
+    const targetId = req.params[param];
+
+    if (targetId === req.user.id) {
+      next();
+      return;
+    }
+
+    try {
+      if (readRole && READ_METHODS.includes(req.method) && await sharesOrganization(req.user.id, targetId, readRole)) {
+        next();
+        return;
+      }
+
+      res.status(403).json({ error: 'You can only access your own account' });
+    } catch (error) {
+      console.error('Ownership authorization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { getPropertyAccess, hasRole } from '../utils/access';
+import { AuthenticatedRequest, OrgRole } from '../types';
+
+export interface PropertyAuthorizationOptions {
+  read?: OrgRole;  // role needed for GET/HEAD requests (default: viewer)
+  write?: OrgRole; // role needed for other methods (default: revenue_manager)
+}
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Middleware that scopes a request to the property in the X-Property-Id header
+ * The caller must be a member of the property's organization with access to
+ * the property and a role high enough for the request method; the access is
+ * attached as req.property. Requests without the header act on the caller's
+ * personal data and pass through unchanged. Use after authenticateToken
+ * (or optionalAuthenticateToken, in which case a property needs a token).
+ * @param options - Roles required to read and to write
+ */
+export const authorizeProperty = ({ read = 'viewer', write = 'revenue_manager' }: PropertyAuthorizationOptions = {}) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.headers['x-property-id'];
+    const propertyId = Array.isArray(header) ? header[0] : header;
+
+    if (!propertyId) {
+      next();
+      return;
+    }
+    if (!req.user) {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+
+    try {
+      const access = await getPropertyAccess(req.user.id, propertyId);
+      if (!access) {
+        res.status(403).json({ error: 'You do not have access to this property' });
+        return;
+      }
+
+      const required = READ_METHODS.includes(req.method) ? read : write;
+      if (!hasRole(access.role, required)) {
+        res.status(403).json({ error: `This action requires the ${required} role or higher` });
+        return;
+      }
+
+      req.property = access;
+      next();
+    } catch (error) {
+      console.error('Property authorization error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { OrgRole } from '../types';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * An invitation to join an organization
+ * The token is emailed to the invitee and only its SHA-256 hash is stored.
+ * Accepting creates (or upgrades) a Membership with the invited role.
+ */
+export interface IInvitation extends Document {
+  organizationId: Types.ObjectId;
+  email: string;
+  role: OrgRole;
+  propertyIds: Types.ObjectId[]; // empty = all of the organization's properties
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+  acceptedBy?: Types.ObjectId | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    organizationId: { type: Schema.Types.ObjectId, ref: 'Organization', required: true },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'admin', 'revenue_manager', 'viewer'],
+      required: [true, 'Role is required'],
+    },
+    propertyIds: { type: [Schema.Types.ObjectId], ref: 'Property', default: [] },
+    tokenHash: { type: String, required: true, unique: true, select: false },
+    invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date, required: true },
+    acceptedAt: { type: Date, default: null },
+    acceptedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    revokedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+invitationSchema.index({ organizationId: 1, createdAt: -1 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+export const Invitation: Model<IInvitation> =
+  mongoose.models.Invitation ||
+  mongoose.model<IInvitation>('Invitation', invitationSchema);
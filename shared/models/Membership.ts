@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { OrgRole } from '../types';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * A user's role in an organization
+ * owner: everything, including managing owners and deleting the organization
+ * admin: manage properties, members and invitations
+ * revenue_manager: change rate shopping setup (comp sets, rules, alerts, …)
+ * viewer: read only
+ */
+export interface IMembership extends Document {
+  organizationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  role: OrgRole;
+  propertyIds: Types.ObjectId[]; // properties this member can access (empty = all of the organization's)
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const membershipSchema = new Schema<IMembership>(
+  {
+    organizationId: { type: Schema.Types.ObjectId, ref: 'Organization', required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    role: {
+      type: String,
+      enum: {
+        values: ['owner', 'admin', 'revenue_manager', 'viewer'],
+        message: 'Role must be one of: owner, admin, revenue_manager, viewer',
+      },
+      required: [true, 'Role is required'],
+    },
+    propertyIds: { type: [Schema.Types.ObjectId], ref: 'Property', default: [] },
+  },
+  { timestamps: true }
+);
+
+membershipSchema.index({ organizationId: 1, userId: 1 }, { unique: true });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+export const Membership: Model<IMembership> =
+  mongoose.models.Membership ||
+  mongoose.model<IMembership>('Membership', membershipSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * A customer account that owns properties and has members
+ * Every user gets a personal organization on registration; management
+ * companies and chains create more and invite their staff.
+ */
+export interface IOrganization extends Document {
+  name: string;
+  businessType?: string | null;
+  createdBy: Types.ObjectId;
+  isPersonal: boolean; // created automatically for a user on registration
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const organizationSchema = new Schema<IOrganization>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Organization name is required'],
+      trim: true,
+      maxlength: [100, 'Organization name cannot exceed 100 characters'],
+    },
+    businessType: { type: String, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    isPersonal: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+// One personal organization per user
+organizationSchema.index(
+  { createdBy: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: true } }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+export const Organization: Model<IOrganization> =
+  mongoose.models.Organization ||
+  mongoose.model<IOrganization>('Organization', organizationSchema);
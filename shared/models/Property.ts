@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * A hotel managed by an organization
+ * Rate shopping data (comp sets, rules, alerts, …) can be scoped to a
+ * property so every member with access to it shares the same setup.
+ */
+export interface IProperty extends Document {
+  organizationId: Types.ObjectId;
+  name: string;
+  country?: string | null;
+  numberOfRooms?: number | null;
+  currentPMS?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const propertySchema = new Schema<IProperty>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Property name is required'],
+      trim: true,
+      maxlength: [100, 'Property name cannot exceed 100 characters'],
+    },
+    country: { type: String, trim: true, default: null },
+    numberOfRooms: { type: Number, min: [1, 'Number of rooms must be at least 1'], default: null },
+    currentPMS: { type: String, trim: true, default: null },
+  },
+  { timestamps: true }
+);
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+export const Property: Model<IProperty> =
+  mongoose.models.Property ||
+  mongoose.model<IProperty>('Property', propertySchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ---------------------------- //
+//      INTERFACE DEFINITIONS
+// ---------------------------- //
+
+/**
+ * A revocation of access tokens: every token of one token ID or session, or a
+ * user's tokens issued before revokedAt (whole seconds)
+ */
+export interface IRevokedToken extends Document {
+  key: string;      // subject, e.g. "token:<jti>", "session:<sid>", "user:<userId>"
+  revokedAt: Date;
+  expiresAt: Date;  // when the last affected token expires (the entry is removed after)
+}
+
+
+// ---------------------------- //
+//       MAIN SCHEMA
+// ---------------------------- //
+
+const revokedTokenSchema = new Schema<IRevokedToken>({
+  key: { type: String, required: true, unique: true },
+  revokedAt: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+// MongoDB removes entries once every token they cover has expired
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+
+// ---------------------------- //
+//        MODEL EXPORT
+// ---------------------------- //
+
+export const RevokedToken: Model<IRevokedToken> =
+  mongoose.models.RevokedToken ||
+  mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
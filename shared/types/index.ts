@@ -5,11 +5,31 @@ import { Document } from 'mongoose';
 export interface TokenPayload {
   id: string;
   businessEmail: string;
+  sid?: string; // session (refresh token family) the token was issued for
+  jti?: string; // token ID, set on every issued token
+  iat?: number; // issued at (seconds), set on verified tokens
+  exp?: number; // expiry (seconds), set on verified tokens
+}
+
+// Refresh tokens always belong to a session
+export interface RefreshTokenPayload extends TokenPayload {
+  sid: string;
+}
+
+// Organization membership roles, most privileged first
+export type OrgRole = 'owner' | 'admin' | 'revenue_manager' | 'viewer';
+
+// Caller's access to the property a request is scoped to (see authorizeProperty)
+export interface PropertyAccess {
+  id: string;
+  organizationId: string;
+  role: OrgRole;
 }
 
 // Extended Express Request with user
 export interface AuthenticatedRequest extends Request {
   user?: TokenPayload;
+  property?: PropertyAccess;
 }
 
 // Public User (without sensitive fields)
@@ -38,7 +58,7 @@ export interface IUser extends Document {
   businessType: 'Independent Hotel' | 'Chain Hotel' | 'Hotel Management Company' | "OTA's";
   numberOfRooms: number;
   password: string;
-  refreshTokens: string[];
+  deactivatedAt: Date | null; // set when the user closed their account (login is refused)
   comparePassword(candidatePassword: string): Promise<boolean>;
   toJSON(): PublicUser;
 }
@@ -67,6 +87,33 @@ export interface RefreshTokenRequestBody {
   refreshToken: string;
 }
 
+// Forgot Password Request Body
+export interface ForgotPasswordRequestBody {
+  businessEmail: string;
+}
+
+// Reset Password Request Body (token from the reset email)
+export interface ResetPasswordRequestBody {
+  token: string;
+  password: string;
+}
+
+// Change Password Request Body
+export interface ChangePasswordRequestBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// Deactivate User Request Body (password confirms the request)
+export interface DeactivateUserRequestBody {
+  password: string;
+}
+
+// Update User Request Body (profile fields a user may change themselves)
+export type UpdateUserRequestBody = Partial<
+  Pick<RegisterRequestBody, 'name' | 'country' | 'hotelName' | 'phoneNumber' | 'currentPMS' | 'businessType' | 'numberOfRooms'>
+>;
+
 // SerpAPI Request Body
 export interface FetchRatesRequestBody {
   hotelName: string;
@@ -76,6 +123,10 @@ export interface FetchRatesRequestBody {
   hl?: string;
   currency?: string;
   adults?: number;
+  childrenAges?: number[]; // one age (0-17) per child
+  maxAge?: number;        // seconds; accept a cached result up to this old
+  forceRefresh?: boolean; // bypass the rate cache
+  propertyToken?: string; // pinned property; shop it instead of the best name match
 }
 
 // SerpAPI Fetch Parameters
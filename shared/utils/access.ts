@@ -0,0 +1,90 @@
+import { Types } from 'mongoose';
+import { Property } from '../models/Property';
+import { Membership } from '../models/Membership';
+import { OrgRole, PropertyAccess, AuthenticatedRequest } from '../types';
+
+// Most privileged first
+export const ORG_ROLES: OrgRole[] = ['owner', 'admin', 'revenue_manager', 'viewer'];
+
+/**
+ * Whether a role grants at least the permissions of another
+ * @param role - Role held
+ * @param minimum - Role required
+ */
+export const hasRole = (role: OrgRole, minimum: OrgRole): boolean =>
+  ORG_ROLES.indexOf(role) <= ORG_ROLES.indexOf(minimum);
+
+/**
+ * A user's access to a property through their organization membership
+ * Owners and admins reach every property of the organization; other members
+ * only the properties listed on their membership (or all when none are listed).
+ * @param userId - User
+ * @param propertyId - Property
+ * @returns Property, organization and role, or null without access
+ */
+export const getPropertyAccess = async (userId: string, propertyId: string): Promise<PropertyAccess | null> => {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(propertyId)) return null;
+
+  const property = await Property.findById(propertyId).select('organizationId').lean();
+  if (!property) return null;
+
+  const membership = await Membership.findOne({ organizationId: property.organizationId, userId }).lean();
+  if (!membership) return null;
+
+  const limited = !hasRole(membership.role, 'admin') && membership.propertyIds.length > 0;
+  if (limited && !membership.propertyIds.some(id => id.toString() === propertyId)) return null;
+
+  return { id: propertyId, organizationId: property.organizationId.toString(), role: membership.role };
+};
+
+/**
+ * Who a request's data belongs to: the selected property, or the caller's own
+ * (personal) data when no property is selected
+ */
+export interface ResourceScope {
+  userId: string;
+  propertyId: string | null;
+}
+
+/**
+ * Scope of an authenticated request (see authorizeProperty)
+ * @param req - Request with user (and optionally property)
+ */
+export const resourceScope = (req: AuthenticatedRequest): ResourceScope => ({
+  userId: req.user!.id,
+  propertyId: req.property?.id ?? null,
+});
+
+/**
+ * Scope a stored document belongs to (for background work such as
+ * scheduled shops and alert evaluation, where there is no request)
+ * @param doc - Document with userId and propertyId
+ */
+export const documentScope = (doc: { userId: Types.ObjectId | string; propertyId?: Types.ObjectId | string | null }): ResourceScope => ({
+  userId: doc.userId.toString(),
+  propertyId: doc.propertyId ? doc.propertyId.toString() : null,
+});
+
+/**
+ * MongoDB filter for documents in a scope
+ * Property data is shared by every member; personal data has no propertyId.
+ * @param scope - Resource scope
+ */
+export const scopeFilter = (scope: ResourceScope): Record<string, unknown> =>
+  scope.propertyId ? { propertyId: scope.propertyId } : { userId: scope.userId, propertyId: null };
+
+/**
+ * Whether a user holds at least a role in an organization another user belongs to
+ * @param userId - User whose role counts
+ * @param otherUserId - Fellow member
+ * @param minimum - Role required in the shared organization
+ */
+export const sharesOrganization = async (userId: string, otherUserId: string, minimum: OrgRole): Promise<boolean> => {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(otherUserId)) return false;
+
+  const roles = ORG_ROLES.slice(0, ORG_ROLES.indexOf(minimum) + 1);
+  const organizationIds = await Membership.find({ userId, role: { $in: roles } }).distinct('organizationId');
+  if (!organizationIds.length) return false;
+
+  return !!(await Membership.exists({ organizationId: { $in: organizationIds }, userId: otherUserId }));
+};
@@ -1,5 +1,6 @@
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { TokenPayload } from '../types';
+import { TokenPayload, RefreshTokenPayload } from '../types';
 
 const ACCESS_TOKEN_SECRET: jwt.Secret =
   process.env.ACCESS_TOKEN_SECRET || 'your-access-token-secret-change-in-production';
@@ -10,23 +11,37 @@ const REFRESH_TOKEN_EXPIRY = (process.env.REFRESH_TOKEN_EXPIRY || '7d') as SignO
 
 /**
  * Generate access token
+ * The token gets a random ID (jti) so it can be revoked on its own.
  * @param payload - User data to encode in token
  * @returns Access token
  */
-export const generateAccessToken = (payload: TokenPayload): string => {
-  return jwt.sign(payload, ACCESS_TOKEN_SECRET, {
+export const generateAccessToken = ({ id, businessEmail, sid }: TokenPayload): string => {
+  return jwt.sign({ id, businessEmail, ...(sid && { sid }) }, ACCESS_TOKEN_SECRET, {
     expiresIn: ACCESS_TOKEN_EXPIRY,
+    jwtid: crypto.randomUUID(),
   });
 };
 
+/**
+ * Latest expiry of an access token issued now (ACCESS_TOKEN_EXPIRY from now)
+ * @returns Expiry date
+ */
+export const getAccessTokenExpiry = (): Date => {
+  const { iat, exp } = jwt.decode(jwt.sign({}, ACCESS_TOKEN_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY })) as jwt.JwtPayload;
+  return new Date(Date.now() + (exp! - iat!) * 1000);
+};
+
 /**
  * Generate refresh token
- * @param payload - User data to encode in token
+ * Every token gets a random ID, so rotating within the same second still
+ * yields a different token.
+ * @param payload - User data and session to encode in token
  * @returns Refresh token
  */
-export const generateRefreshToken = (payload: TokenPayload): string => {
-  return jwt.sign(payload, REFRESH_TOKEN_SECRET, {
+export const generateRefreshToken = ({ id, businessEmail, sid }: RefreshTokenPayload): string => {
+  return jwt.sign({ id, businessEmail, sid }, REFRESH_TOKEN_SECRET, {
     expiresIn: REFRESH_TOKEN_EXPIRY,
+    jwtid: crypto.randomUUID(),
   });
 };
 
@@ -49,12 +64,25 @@ export const verifyAccessToken = (token: string): TokenPayload => {
  * @param token - Refresh token to verify
  * @returns Decoded token payload
  */
-export const verifyRefreshToken = (token: string): TokenPayload => {
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
   try {
-    const decoded = jwt.verify(token, REFRESH_TOKEN_SECRET) as TokenPayload;
+    const decoded = jwt.verify(token, REFRESH_TOKEN_SECRET) as RefreshTokenPayload;
+    if (!decoded.sid) {
+      throw new Error('Refresh token has no session');
+    }
     return decoded;
   } catch (error) {
     throw new Error('Invalid or expired refresh token');
   }
 };
 
+/**
+ * Expiry of a token (without verifying it)
+ * @param token - Signed token
+ * @returns Expiry date
+ */
+export const getTokenExpiry = (token: string): Date => {
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  return new Date(exp! * 1000);
+};
+
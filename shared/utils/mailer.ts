@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+}
+
+/**
+ * Anything that can deliver an email
+ * Swap in an SMTP or provider-backed transport without touching callers
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = process.env.MAIL_FROM || 'no-reply@axlrate.local';
+
+/**
+ * Transport that prints emails to the console (development default)
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    const to = Array.isArray(message.to) ? message.to.join(', ') : message.to;
+    console.log(`[MAIL] To: ${to}\n[MAIL] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Transport that writes each email as a JSON file in a directory
+ * (an SMTP stand-in that tests and local setups can inspect)
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    const email = { from: DEFAULT_FROM, ...message, sentAt: sentAt.toISOString() };
+
+    await fs.promises.writeFile(path.join(this.directory, fileName), JSON.stringify(email, null, 2));
+  }
+}
+
+/**
+ * Transport that keeps sent emails in memory
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push({ from: DEFAULT_FROM, ...message });
+  }
+}
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT (console | file | memory)
+ * @returns Email transport
+ */
+export const createMailTransport = (): EmailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.resolve(process.cwd(), 'mail-outbox'));
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+let mailTransport: EmailTransport | null = null;
+
+/**
+ * Transport used by the running service
+ * @returns Email transport (created from the environment on first use)
+ */
+export const getMailTransport = (): EmailTransport => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+};
+
+/**
+ * Replace the transport used by the running service
+ * @param transport - Email transport
+ */
+export const setMailTransport = (transport: EmailTransport): void => {
+  mailTransport = transport;
+};
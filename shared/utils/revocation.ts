@@ -0,0 +1,143 @@
+import { RevokedToken } from '../models/RevokedToken';
+import { getAccessTokenExpiry } from './jwt';
+import { TokenPayload } from '../types';
+
+// What a revocation applies to: one access token (jti), every token of a session (sid) or of a user
+export type RevocationSubject = 'token' | 'session' | 'user';
+
+/**
+ * Anything that can remember revoked access tokens
+ * A token or session revocation rejects every token carrying that jti or sid
+ * (a revoked session issues no more tokens). A user revocation rejects the
+ * user's tokens issued in an earlier second than the revocation, so a token
+ * issued right after it (e.g. on the next login) keeps working. A revocation
+ * only has to be kept until the tokens it covers expire.
+ */
+export interface RevocationStore {
+  readonly name: string;
+  revoke(subject: RevocationSubject, id: string, expiresAt: Date): Promise<void>;
+  isRevoked(payload: TokenPayload): Promise<boolean>;
+}
+
+/**
+ * Token and session keys a token can be revoked under
+ */
+const revocationKeys = (payload: TokenPayload): string[] => [
+  ...(payload.jti ? [`token:${payload.jti}`] : []),
+  ...(payload.sid ? [`session:${payload.sid}`] : []),
+];
+
+// iat is in whole seconds, so user revocations are kept in whole seconds too
+const issuedAt = (payload: TokenPayload): Date => new Date((payload.iat ?? 0) * 1000);
+const currentSecond = (): Date => new Date(Math.floor(Date.now() / 1000) * 1000);
+
+/**
+ * Store that keeps revocations in process memory
+ * (single-process setups and tests; other services don't see its revocations)
+ */
+export class MemoryRevocationStore implements RevocationStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, { revokedAt: Date; expiresAt: Date }>();
+
+  async revoke(subject: RevocationSubject, id: string, expiresAt: Date): Promise<void> {
+    this.prune();
+
+    const key = `${subject}:${id}`;
+    const existing = this.entries.get(key);
+    this.entries.set(key, {
+      revokedAt: currentSecond(),
+      expiresAt: existing && existing.expiresAt > expiresAt ? existing.expiresAt : expiresAt,
+    });
+  }
+
+  async isRevoked(payload: TokenPayload): Promise<boolean> {
+    const now = new Date();
+    const active = (key: string) => {
+      const entry = this.entries.get(key);
+      return entry && entry.expiresAt > now ? entry : null;
+    };
+
+    if (revocationKeys(payload).some(active)) return true;
+    const user = active(`user:${payload.id}`);
+    return !!user && user.revokedAt > issuedAt(payload);
+  }
+
+  private prune(): void {
+    const now = new Date();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Store that keeps revocations in MongoDB, shared by every service
+ * (expired entries are removed by a TTL index)
+ */
+export class MongoRevocationStore implements RevocationStore {
+  readonly name = 'mongo';
+
+  async revoke(subject: RevocationSubject, id: string, expiresAt: Date): Promise<void> {
+    await RevokedToken.updateOne(
+      { key: `${subject}:${id}` },
+      { $max: { revokedAt: currentSecond(), expiresAt } },
+      { upsert: true }
+    );
+  }
+
+  async isRevoked(payload: TokenPayload): Promise<boolean> {
+    const revoked = await RevokedToken.exists({
+      $or: [
+        { key: { $in: revocationKeys(payload) } },
+        { key: `user:${payload.id}`, revokedAt: { $gt: issuedAt(payload) } },
+      ],
+    });
+    return !!revoked;
+  }
+}
+
+/**
+ * Build the store selected by TOKEN_REVOCATION_STORE (mongo | memory)
+ * @returns Revocation store
+ */
+export const createRevocationStore = (): RevocationStore => {
+  switch (process.env.TOKEN_REVOCATION_STORE) {
+    case 'memory':
+      return new MemoryRevocationStore();
+    default:
+      return new MongoRevocationStore();
+  }
+};
+
+let revocationStore: RevocationStore | null = null;
+
+/**
+ * Store used by the running service
+ * @returns Revocation store (created from the environment on first use)
+ */
+export const getRevocationStore = (): RevocationStore => {
+  if (!revocationStore) {
+    revocationStore = createRevocationStore();
+  }
+  return revocationStore;
+};
+
+/**
+ * Replace the store used by the running service
+ * @param store - Revocation store
+ */
+export const setRevocationStore = (store: RevocationStore): void => {
+  revocationStore = store;
+};
+
+/**
+ * Revoke the access tokens of a subject issued so far
+ * @param subject - Token, session or user
+ * @param id - jti, session ID or user ID
+ * @param expiresAt - When the last affected token expires (default: the longest an access token lives from now)
+ */
+export const revokeAccessTokens = (
+  subject: RevocationSubject,
+  id: string,
+  expiresAt: Date = getAccessTokenExpiry()
+): Promise<void> => getRevocationStore().revoke(subject, id, expiresAt);
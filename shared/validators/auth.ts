@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { RegisterRequestBody, LoginRequestBody, RefreshTokenRequestBody } from '../types';
+import {
+  RegisterRequestBody,
+  LoginRequestBody,
+  RefreshTokenRequestBody,
+  UpdateUserRequestBody,
+  DeactivateUserRequestBody,
+  ForgotPasswordRequestBody,
+  ResetPasswordRequestBody,
+  ChangePasswordRequestBody,
+} from '../types';
 
 const registerSchema = Joi.object<RegisterRequestBody>({
   // Basic Info
@@ -69,6 +78,65 @@ const refreshTokenSchema = Joi.object<RefreshTokenRequestBody>({
   refreshToken: Joi.string().required(),
 });
 
+// Same rule as registration
+const newPassword = Joi.string().min(6).required().messages({
+  'string.min': 'Password must be at least 6 characters',
+  'any.required': 'Password is required',
+});
+
+const forgotPasswordSchema = Joi.object<ForgotPasswordRequestBody>({
+  businessEmail: Joi.string().email().required().messages({
+    'string.email': 'Please provide a valid business email',
+    'any.required': 'Business email is required',
+  }),
+});
+
+const resetPasswordSchema = Joi.object<ResetPasswordRequestBody>({
+  token: Joi.string().required().messages({
+    'any.required': 'Reset token is required',
+  }),
+  password: newPassword,
+});
+
+const changePasswordSchema = Joi.object<ChangePasswordRequestBody>({
+  currentPassword: Joi.string().required().messages({
+    'any.required': 'Current password is required',
+  }),
+  newPassword: newPassword.invalid(Joi.ref('currentPassword')).messages({
+    'any.invalid': 'New password must be different from the current password',
+  }),
+});
+
+const deactivateUserSchema = Joi.object<DeactivateUserRequestBody>({
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required',
+  }),
+});
+
+// Only these profile fields can be updated; email, password and tokens have their own flows
+const updateUserSchema = Joi.object<UpdateUserRequestBody>({
+  name: Joi.string().min(2).max(50).messages({
+    'string.min': 'Name must be at least 2 characters',
+    'string.max': 'Name cannot exceed 50 characters',
+  }),
+  country: Joi.string().min(2),
+  hotelName: Joi.string().min(2),
+  phoneNumber: Joi.string(),
+  currentPMS: Joi.string(),
+  businessType: Joi.string()
+    .valid('Independent Hotel', 'Chain Hotel', 'Hotel Management Company', "OTA's")
+    .messages({
+      'any.only': 'Business type must be one of: Independent Hotel, Chain Hotel, Hotel Management Company, OTA\'s',
+    }),
+  numberOfRooms: Joi.number().integer().min(1).messages({
+    'number.base': 'Number of rooms must be a number',
+    'number.min': 'Number of rooms must be at least 1',
+  }),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+  'object.unknown': '{#label} cannot be updated',
+});
+
 /**
  * Validate register request
  */
@@ -105,3 +173,63 @@ export const validateRefreshToken = (req: Request, res: Response, next: NextFunc
   next();
 };
 
+/**
+ * Validate update user request (unknown fields are rejected, req.body is replaced with the validated value)
+ */
+export const validateUpdateUser = (req: Request, res: Response, next: NextFunction): void => {
+  const { error, value } = updateUserSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  req.body = value;
+  next();
+};
+
+/**
+ * Validate deactivate user request
+ */
+export const validateDeactivateUser = (req: Request, res: Response, next: NextFunction): void => {
+  const { error } = deactivateUserSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  next();
+};
+
+/**
+ * Validate forgot password request
+ */
+export const validateForgotPassword = (req: Request, res: Response, next: NextFunction): void => {
+  const { error } = forgotPasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  next();
+};
+
+/**
+ * Validate reset password request
+ */
+export const validateResetPassword = (req: Request, res: Response, next: NextFunction): void => {
+  const { error } = resetPasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  next();
+};
+
+/**
+ * Validate change password request
+ */
+export const validateChangePassword = (req: Request, res: Response, next: NextFunction): void => {
+  const { error } = changePasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  next();
+};
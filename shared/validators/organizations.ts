@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+
+const objectId = Joi.string().hex().length(24).messages({
+  'string.hex': 'propertyIds must contain valid IDs',
+  'string.length': 'propertyIds must contain valid IDs',
+});
+
+const role = Joi.string().valid('owner', 'admin', 'revenue_manager', 'viewer').messages({
+  'any.only': 'Role must be one of: owner, admin, revenue_manager, viewer',
+});
+
+const businessType = Joi.string().valid('Independent Hotel', 'Chain Hotel', 'Hotel Management Company', "OTA's").messages({
+  'any.only': 'Business type must be one of: Independent Hotel, Chain Hotel, Hotel Management Company, OTA\'s',
+});
+
+const organizationSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100).required().messages({
+    'string.min': 'Organization name must be at least 2 characters',
+    'any.required': 'Organization name is required',
+  }),
+  businessType,
+});
+
+const updateOrganizationSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100),
+  businessType,
+}).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+const propertyFields = {
+  name: Joi.string().trim().min(2).max(100).messages({
+    'string.min': 'Property name must be at least 2 characters',
+  }),
+  country: Joi.string().trim().min(2).allow(null),
+  numberOfRooms: Joi.number().integer().min(1).allow(null).messages({
+    'number.min': 'Number of rooms must be at least 1',
+  }),
+  currentPMS: Joi.string().trim().allow('', null),
+};
+
+const propertySchema = Joi.object({
+  ...propertyFields,
+  name: propertyFields.name.required().messages({
+    'any.required': 'Property name is required',
+  }),
+});
+
+const updatePropertySchema = Joi.object(propertyFields).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+const invitationSchema = Joi.object({
+  email: Joi.string().trim().lowercase().email().required().messages({
+    'string.email': 'Please provide a valid email',
+    'any.required': 'Email is required',
+  }),
+  role: role.default('viewer'),
+  propertyIds: Joi.array().items(objectId).unique().max(500).default([]),
+});
+
+const updateMembershipSchema = Joi.object({
+  role,
+  propertyIds: Joi.array().items(objectId).unique().max(500),
+}).min(1).messages({
+  'object.min': 'Provide role, propertyIds or both',
+});
+
+const acceptInvitationSchema = Joi.object({
+  token: Joi.string().trim().required().messages({
+    'any.required': 'Invitation token is required',
+  }),
+});
+
+/**
+ * Build middleware that validates req.body and replaces it with the validated value
+ */
+const validate = (schema: Joi.Schema) => (req: Request, res: Response, next: NextFunction): void => {
+  const { error, value } = schema.validate(req.body);
+  if (error) {
+    res.status(400).json({ error: error.details[0].message });
+    return;
+  }
+  req.body = value;
+  next();
+};
+
+/**
+ * Validate create organization request
+ */
+export const validateOrganization = validate(organizationSchema);
+
+/**
+ * Validate update organization request
+ */
+export const validateUpdateOrganization = validate(updateOrganizationSchema);
+
+/**
+ * Validate create property request
+ */
+export const validateProperty = validate(propertySchema);
+
+/**
+ * Validate update property request
+ */
+export const validateUpdateProperty = validate(updatePropertySchema);
+
+/**
+ * Validate invitation request
+ */
+export const validateInvitation = validate(invitationSchema);
+
+/**
+ * Validate membership (role / property access) update
+ */
+export const validateUpdateMembership = validate(updateMembershipSchema);
+
+/**
+ * Validate accept invitation request
+ */
+export const validateAcceptInvitation = validate(acceptInvitationSchema);